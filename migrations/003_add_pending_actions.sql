@@ -0,0 +1,28 @@
+-- AI Agent Module Database Migration
+-- Version: 1.2
+-- Date: 2026-10-19
+-- Description: Adds agentPendingActions for human approval of write and destructive tool calls
+
+-- Pending actions table
+-- One row per tool call the agent paused on. The row is created with status
+-- 'pending' and moves to 'approved' or 'rejected' when a user decides;
+-- approved calls store the tool outcome in result.
+CREATE TABLE IF NOT EXISTS agentPendingActions (
+  id VARCHAR(36) PRIMARY KEY,
+  conversationId VARCHAR(36) NOT NULL,
+  userId INT NOT NULL,
+  projectId INT DEFAULT NULL,
+  toolCallId VARCHAR(255) NOT NULL,
+  toolName VARCHAR(100) NOT NULL,
+  arguments JSON,
+  riskLevel VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  decidedBy INT DEFAULT NULL,
+  decisionNote TEXT,
+  decidedAt TIMESTAMP NULL DEFAULT NULL,
+  result JSON,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+  INDEX idx_conversation_status (conversationId, status),
+  INDEX idx_created_at (createdAt)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,12 @@
+-- AI Agent Module Database Migration
+-- Version: 1.3
+-- Date: 2026-10-19
+-- Description: Adds the running conversation summary used for context compaction
+
+-- summary holds the LLM-written summary of the oldest turns, which are no
+-- longer sent to the LLM verbatim. summaryThroughMessageId is the last
+-- message it covers; later messages are sent as-is.
+ALTER TABLE agentConversations
+  ADD COLUMN summary TEXT DEFAULT NULL AFTER status,
+  ADD COLUMN summaryThroughMessageId VARCHAR(36) DEFAULT NULL AFTER summary,
+  ADD COLUMN summaryUpdatedAt TIMESTAMP NULL DEFAULT NULL AFTER summaryThroughMessageId;
@@ -0,0 +1,29 @@
+-- AI Agent Module Database Migration
+-- Version: 1.4
+-- Date: 2026-10-19
+-- Description: Turns conversation messages into a tree for message editing and answer regeneration
+
+-- parentMessageId links each message to the previous message on its branch;
+-- activeLeafMessageId is the last message of the branch the user is viewing.
+ALTER TABLE agentMessages
+  ADD COLUMN parentMessageId VARCHAR(36) DEFAULT NULL AFTER toolCallId,
+  ADD INDEX idx_parent_message (parentMessageId);
+
+ALTER TABLE agentConversations
+  ADD COLUMN activeLeafMessageId VARCHAR(36) DEFAULT NULL AFTER summaryUpdatedAt;
+
+-- Existing conversations become a single branch in message order
+UPDATE agentMessages m
+JOIN (
+  SELECT id, LAG(id) OVER (PARTITION BY conversationId ORDER BY createdAt, id) AS previousId
+  FROM agentMessages
+) ordered ON ordered.id = m.id
+SET m.parentMessageId = ordered.previousId;
+
+UPDATE agentConversations c
+JOIN (
+  SELECT conversationId, id,
+    ROW_NUMBER() OVER (PARTITION BY conversationId ORDER BY createdAt DESC, id DESC) AS position
+  FROM agentMessages
+) latest ON latest.conversationId = c.id AND latest.position = 1
+SET c.activeLeafMessageId = latest.id;
@@ -0,0 +1,16 @@
+-- AI Agent Module Database Migration
+-- Version: 1.5
+-- Date: 2026-10-19
+-- Description: Adds generated conversation titles and topic tags
+
+-- titleSource records where the title came from (default, generated, user),
+-- so generated titles never overwrite one the user chose.
+-- tags stays NULL until the conversation has been tagged.
+ALTER TABLE agentConversations
+  ADD COLUMN titleSource VARCHAR(20) DEFAULT 'default' AFTER title,
+  ADD COLUMN tags JSON DEFAULT NULL AFTER titleSource;
+
+-- Titles not in the "Conversation <timestamp>" form were set explicitly
+UPDATE agentConversations
+SET titleSource = 'user'
+WHERE title IS NOT NULL AND title NOT LIKE 'Conversation %';
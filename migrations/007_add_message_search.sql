@@ -0,0 +1,26 @@
+-- AI Agent Module Database Migration
+-- Version: 1.6
+-- Date: 2026-10-19
+-- Description: Adds full-text search over conversation messages and tool calls
+
+-- toolCallText holds the tool call names and arguments of assistant messages
+-- as plain text ("name {arguments}" per line), since JSON columns can't be
+-- FULLTEXT indexed.
+ALTER TABLE agentMessages
+  ADD COLUMN toolCallText TEXT DEFAULT NULL AFTER toolCallId;
+
+UPDATE agentMessages
+SET toolCallText = (
+  SELECT GROUP_CONCAT(CONCAT(tc.name, ' ', tc.arguments) SEPARATOR '\n')
+  FROM JSON_TABLE(
+    agentMessages.toolCalls,
+    '$[*]' COLUMNS (
+      name VARCHAR(100) PATH '$.name',
+      arguments JSON PATH '$.arguments'
+    )
+  ) AS tc
+)
+WHERE toolCalls IS NOT NULL AND JSON_LENGTH(toolCalls) > 0;
+
+ALTER TABLE agentMessages
+  ADD FULLTEXT INDEX ft_content_tool_calls (content, toolCallText);
@@ -0,0 +1,34 @@
+-- AI Agent Module Database Migration
+-- Version: 1.7
+-- Date: 2026-10-19
+-- Description: Adds conversation sharing and per-message authors
+
+-- Conversation shares table
+-- One row per user or project team a conversation is shared with.
+-- Exactly one of sharedWithUserId / sharedWithProjectId is set.
+-- permission is 'read' (view only) or 'continue' (can also send messages).
+CREATE TABLE IF NOT EXISTS agentConversationShares (
+  id VARCHAR(36) PRIMARY KEY,
+  conversationId VARCHAR(36) NOT NULL,
+  sharedWithUserId INT DEFAULT NULL,
+  sharedWithProjectId INT DEFAULT NULL,
+  permission VARCHAR(20) NOT NULL DEFAULT 'read',
+  sharedBy INT NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_conversation_user (conversationId, sharedWithUserId),
+  UNIQUE KEY uq_conversation_project (conversationId, sharedWithProjectId),
+  INDEX idx_shared_with_user (sharedWithUserId),
+  INDEX idx_shared_with_project (sharedWithProjectId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- authorUserId records who wrote each user message, since several users can
+-- write in a shared conversation. Existing user messages were written by the
+-- conversation owner.
+ALTER TABLE agentMessages
+  ADD COLUMN authorUserId INT DEFAULT NULL AFTER role;
+
+UPDATE agentMessages m
+JOIN agentConversations c ON c.id = m.conversationId
+SET m.authorUserId = c.userId
+WHERE m.role = 'user';
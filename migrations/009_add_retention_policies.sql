@@ -0,0 +1,35 @@
+-- AI Agent Module Database Migration
+-- Version: 1.8
+-- Date: 2026-10-19
+-- Description: Adds retention policies for conversations and tool outputs
+
+-- Retention policies table
+-- One global policy (projectId NULL) and at most one policy per project; a
+-- project policy replaces the global one for that project's conversations.
+-- NULL durations mean "keep forever".
+CREATE TABLE IF NOT EXISTS agentRetentionPolicies (
+  id VARCHAR(36) PRIMARY KEY,
+  projectId INT DEFAULT NULL,
+  archiveAfterDays INT DEFAULT NULL,
+  purgeToolResultsAfterDays INT DEFAULT NULL,
+  deleteAfterDays INT DEFAULT NULL,
+  updatedBy INT DEFAULT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_project (projectId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- contentId links a learning sample to the generated content it was learned
+-- from, so purging a conversation keeps that content.
+ALTER TABLE agentLearningSamples
+  ADD COLUMN contentId VARCHAR(36) DEFAULT NULL AFTER projectId,
+  ADD INDEX idx_content_id (contentId);
+
+UPDATE agentLearningSamples s
+JOIN agentGeneratedContent g
+  ON g.userId = s.userId
+  AND g.projectId = s.projectId
+  AND g.contentType = s.contentType
+  AND g.content = s.draftContent
+SET s.contentId = g.id
+WHERE s.contentId IS NULL;
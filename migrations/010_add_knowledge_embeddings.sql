@@ -0,0 +1,23 @@
+-- AI Agent Module Database Migration
+-- Version: 1.9
+-- Date: 2026-10-19
+-- Description: Adds a vector index for ranked knowledge base retrieval
+
+-- Knowledge embeddings table
+-- One vector per knowledge entry and embedding model, filled lazily when an
+-- embedding provider is configured. contentHash is the hash of the embedded
+-- text: entries edited since they were embedded are re-embedded on the next
+-- search. Without an embedding provider the table stays empty and retrieval
+-- ranks by BM25 only.
+CREATE TABLE IF NOT EXISTS agentKnowledgeEmbeddings (
+  id VARCHAR(36) PRIMARY KEY,
+  knowledgeId VARCHAR(36) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  contentHash VARCHAR(64) NOT NULL,
+  dimensions INT NOT NULL,
+  embedding JSON NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_knowledge_model (knowledgeId, model),
+  INDEX idx_model (model)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- AI Agent Module Database Migration
+-- Version: 1.10
+-- Date: 2026-10-19
+-- Description: Tracks which projects confirmed each knowledge base entry
+
+-- sourceProjects lists the projects an entry was extracted from or confirmed
+-- by, so sourceCount (and the confidence derived from it) only grows with
+-- independent projects. Existing entries start without a list; their
+-- sourceCount is kept.
+ALTER TABLE agentKnowledgeBase
+  ADD COLUMN sourceProjects JSON DEFAULT NULL AFTER sourceCount;
@@ -0,0 +1,16 @@
+-- AI Agent Module Database Migration
+-- Version: 1.11
+-- Date: 2026-10-19
+-- Description: Adds a review status to knowledge base entries
+
+-- Entries the agent extracts or adds start as 'proposed' and are only used
+-- in system prompts and knowledge searches once a reviewer approves them.
+-- Rejected entries stay in the table so the same insight isn't proposed
+-- again; deprecated entries were approved and have been retired.
+-- Existing entries were already in use and are approved.
+ALTER TABLE agentKnowledgeBase
+  ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'approved' AFTER sourceProjects,
+  ADD COLUMN reviewedBy INT DEFAULT NULL AFTER status,
+  ADD COLUMN reviewedAt TIMESTAMP NULL DEFAULT NULL AFTER reviewedBy,
+  ADD COLUMN reviewNote TEXT DEFAULT NULL AFTER reviewedAt,
+  ADD INDEX idx_status (status);
@@ -0,0 +1,51 @@
+-- AI Agent Module Database Migration
+-- Version: 1.12
+-- Date: 2026-10-19
+-- Description: Adds version history for knowledge base entries
+
+-- Knowledge base history table
+-- One row per change to a knowledge entry: creation, edit, review decision,
+-- deletion or restore. snapshot holds the entry after the change (before it,
+-- for deletions) so any version can be restored; changes holds the changed
+-- fields as { "field": { "from": ..., "to": ... } }.
+-- actorType is 'user' (actorUserId), 'agent' (working for actorUserId in
+-- conversationId, when known) or 'system' (seeding).
+CREATE TABLE IF NOT EXISTS agentKnowledgeBaseHistory (
+  id VARCHAR(36) PRIMARY KEY,
+  knowledgeId VARCHAR(36) NOT NULL,
+  version INT NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  snapshot JSON NOT NULL,
+  changes JSON DEFAULT NULL,
+  reason TEXT DEFAULT NULL,
+  actorType VARCHAR(20) NOT NULL,
+  actorUserId INT DEFAULT NULL,
+  conversationId VARCHAR(36) DEFAULT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_knowledge_version (knowledgeId, version),
+  INDEX idx_actor_user (actorUserId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing entries get a first version, so they can be restored after a change
+INSERT INTO agentKnowledgeBaseHistory (id, knowledgeId, version, action, snapshot, actorType, createdAt)
+SELECT
+  UUID(),
+  id,
+  1,
+  'create',
+  JSON_OBJECT(
+    'category', category,
+    'topic', topic,
+    'content', content,
+    'confidence', confidence,
+    'sourceCount', sourceCount,
+    'sourceProjects', sourceProjects,
+    'status', status,
+    'reviewedBy', reviewedBy,
+    'reviewedAt', reviewedAt,
+    'reviewNote', reviewNote,
+    'metadata', metadata
+  ),
+  'system',
+  createdAt
+FROM agentKnowledgeBase;
@@ -0,0 +1,18 @@
+-- AI Agent Module Database Migration
+-- Version: 1.13
+-- Date: 2026-10-19
+-- Description: Tracks when decided actions are answered and resumed, so only one decision resumes the agent
+
+-- answeredAt is set once a decision's tool result is in the conversation.
+-- When no action of the conversation is left unanswered, the deciding call
+-- claims the answered actions by setting resumedAt where it is still NULL;
+-- only the call whose update changes rows resumes the agent, so two
+-- decisions finishing at the same time don't both start an LLM round.
+-- Actions decided before this migration were answered and resumed already.
+ALTER TABLE agentPendingActions
+  ADD COLUMN answeredAt TIMESTAMP NULL DEFAULT NULL AFTER decidedAt,
+  ADD COLUMN resumedAt TIMESTAMP NULL DEFAULT NULL AFTER answeredAt;
+
+UPDATE agentPendingActions
+SET answeredAt = decidedAt, resumedAt = decidedAt
+WHERE status <> 'pending';
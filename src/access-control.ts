@@ -0,0 +1,99 @@
+import type { AgentConversation } from "./schema";
+
+/**
+ * Access Control
+ *
+ * Decides who may read, continue or manage a conversation. The default
+ * policy lets only the owner in; host applications plug in their own
+ * `authorize` function (e.g. project roles or sharing) through
+ * `createAgentRouter` or the orchestrator options. The same function is
+ * consulted by the router and inside the agent, so every entry point
+ * enforces the same rules.
+ *
+ * Project data is guarded separately by `canAccessProject`, which the host
+ * application provides from its own project roles.
+ */
+
+/**
+ * - read: view, export and search a conversation and its pending actions
+ * - write: add messages (chat, edit, regenerate), switch branches, decide
+ *   pending actions, edit or compact the summary
+ * - manage: rename, archive and delete
+ */
+export type AccessAction = "read" | "write" | "manage";
+
+export interface ConversationResource {
+  type: "conversation";
+  id: string;
+  /** Owner of the conversation */
+  userId: number;
+  projectId: number | null;
+}
+
+export type AccessResource = ConversationResource;
+
+export interface ProjectResource {
+  type: "project";
+  id: number;
+}
+
+/** Project roles: viewers have read access, editors read-write */
+export type ProjectAccessMode = "read" | "write";
+
+/**
+ * Project access check, consulted before a project database is opened
+ * ("read") and before write tools run ("write")
+ */
+export type CanAccessProjectFn = (
+  userId: number,
+  projectId: number,
+  mode: ProjectAccessMode
+) => boolean | Promise<boolean>;
+
+/**
+ * Who is asking. The router passes the tRPC context; inside the agent, where
+ * there is no request context, only `user.id` is set.
+ */
+export interface AccessContext {
+  user: { id: number; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+export type AuthorizeFn = (
+  ctx: AccessContext,
+  resource: AccessResource,
+  action: AccessAction
+) => boolean | Promise<boolean>;
+
+export class AccessDeniedError extends Error {
+  constructor(
+    public readonly resource: AccessResource | ProjectResource,
+    public readonly action: AccessAction,
+    userId: number
+  ) {
+    super(`User ${userId} may not ${action} ${resource.type} ${resource.id}`);
+    this.name = "AccessDeniedError";
+  }
+}
+
+/**
+ * Default policy: owners can do anything with their conversations, nobody
+ * else can do anything
+ */
+export const ownerOnly: AuthorizeFn = (ctx, resource) => resource.userId === ctx.user.id;
+
+export function toConversationResource(conversation: AgentConversation): ConversationResource {
+  return {
+    type: "conversation",
+    id: conversation.id,
+    userId: conversation.userId,
+    projectId: conversation.projectId,
+  };
+}
+
+/**
+ * Access context for a user outside a request
+ */
+export function userContext(userId: number): AccessContext {
+  return { user: { id: userId } };
+}
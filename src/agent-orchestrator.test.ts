@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AgentOrchestrator, type AgentOrchestratorOptions } from "./agent-orchestrator";
+import { AccessDeniedError } from "./access-control";
+import { MockLLMClient } from "./llm-client";
+import type { ProjectDb } from "./project-db-wrapper";
+import type { ToolDefinition } from "./tool-executor";
+
+/**
+ * Multi-round tool loop, run against a scripted LLM. Conversation storage is
+ * replaced with an in-memory stand-in; everything else is the real agent.
+ */
+
+// Database stand-in: every query resolves to no rows
+function emptyDb(): any {
+  const chain: any = new Proxy(() => chain, {
+    get: (_target, prop) => (prop === "then" ? (resolve: (rows: unknown[]) => void) => resolve([]) : chain),
+    apply: () => chain,
+  });
+  return chain;
+}
+
+function memoryConversations(projectId: number | null = null) {
+  const messages: any[] = [];
+  const conversation = { id: "conv-1", userId: 1, projectId };
+  return {
+    messages,
+    createConversation: async () => conversation,
+    getConversation: async () => conversation,
+    authorizeConversation: async () => conversation,
+    updateContext: async () => {},
+    addMessage: async (params: any) => {
+      const message = { id: `msg-${messages.length + 1}`, ...params };
+      messages.push(message);
+      return message;
+    },
+    buildLLMContext: async () => messages.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+      ...(msg.toolCalls ? {
+        tool_calls: msg.toolCalls.map((tc: any) => ({
+          id: tc.id,
+          type: "function",
+          function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+        })),
+      } : {}),
+      ...(msg.toolCallId ? { tool_call_id: msg.toolCallId } : {}),
+    })),
+  };
+}
+
+const capacityTool: ToolDefinition = {
+  name: "get_capacity",
+  description: "Installed capacity of the project",
+  parameters: {
+    type: "object",
+    properties: { kind: { type: "string", description: "dc or ac", enum: ["dc", "ac"] } },
+    required: ["kind"],
+  },
+  handler: async (args) => ({ kind: args.kind, value: args.kind === "dc" ? "300 MWp" : "280 MW" }),
+};
+
+describe("AgentOrchestrator tool loop", () => {
+  let conversations: ReturnType<typeof memoryConversations>;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    conversations = memoryConversations();
+  });
+
+  function createAgent(llm: MockLLMClient): AgentOrchestrator {
+    const agent = new AgentOrchestrator(emptyDb(), async () => { throw new Error("no project db"); }, {
+      llmClient: llm,
+      autoTitle: false,
+    });
+    agent.conversationManager = conversations as any;
+    agent.knowledgeExtractor = { extractFromConversation: async () => [] } as any;
+    agent.toolExecutor.registerTools([capacityTool]);
+    return agent;
+  }
+
+  it("feeds each round's tool results into the next round", async () => {
+    const llm = new MockLLMClient([
+      { toolCalls: [{ id: "call_dc", name: "get_capacity", arguments: { kind: "dc" } }] },
+      { toolCalls: [{ id: "call_ac", name: "get_capacity", arguments: { kind: "ac" } }] },
+      { content: "300 MWp DC and 280 MW AC." },
+    ]);
+    const agent = createAgent(llm);
+
+    const response = await agent.processMessage({ userId: 1, message: "What is the capacity?" });
+
+    expect(response.message).toBe("300 MWp DC and 280 MW AC.");
+    expect(response.toolCalls?.map((call) => call.id)).toEqual(["call_dc", "call_ac"]);
+    expect(llm.calls).toHaveLength(3);
+
+    // Round 1: system prompt and the question only
+    expect(llm.calls[0].messages.map((msg) => msg.role)).toEqual(["system", "user"]);
+    expect(llm.calls[0].tools?.some((tool) => tool.function.name === "get_capacity")).toBe(true);
+
+    // Round 2: the DC call and its result, not yet the AC call
+    const round2 = llm.calls[1].messages;
+    expect(round2.map((msg) => msg.role)).toEqual(["system", "user", "assistant", "tool"]);
+    expect(round2[3]).toMatchObject({ tool_call_id: "call_dc" });
+    expect(JSON.parse(round2[3].content as string)).toEqual({ kind: "dc", value: "300 MWp" });
+
+    // Round 3: both calls, in order
+    const round3 = llm.calls[2].messages;
+    expect(round3.map((msg) => msg.role)).toEqual(["system", "user", "assistant", "tool", "assistant", "tool"]);
+    expect(round3[5]).toMatchObject({ tool_call_id: "call_ac" });
+    expect(JSON.parse(round3[5].content as string)).toEqual({ kind: "ac", value: "280 MW" });
+  });
+
+  it("reports invalid arguments to the LLM so it can retry", async () => {
+    const llm = new MockLLMClient([
+      { toolCalls: [{ id: "call_bad", name: "get_capacity", arguments: { kind: "peak" } }] },
+      { toolCalls: [{ id: "call_good", name: "get_capacity", arguments: { kind: "dc" } }] },
+      { content: "300 MWp." },
+    ]);
+    const agent = createAgent(llm);
+
+    const response = await agent.processMessage({ userId: 1, message: "Peak capacity?" });
+
+    expect(response.message).toBe("300 MWp.");
+    const error = JSON.parse(llm.calls[1].messages[3].content as string);
+    expect(error.validationErrors).toEqual([expect.objectContaining({ path: "kind" })]);
+    expect(error.hint).toMatch(/call the tool again/);
+  });
+
+  it("saves the tool calls, results and answer of every round", async () => {
+    const llm = new MockLLMClient([
+      { toolCalls: [{ id: "call_dc", name: "get_capacity", arguments: { kind: "dc" } }] },
+      { content: "300 MWp." },
+    ]);
+    const agent = createAgent(llm);
+
+    await agent.processMessage({ userId: 1, message: "DC capacity?" });
+
+    expect(conversations.messages.map((msg) => [msg.role, msg.toolCallId ?? msg.toolCalls?.[0]?.id ?? null])).toEqual([
+      ["user", null],
+      ["assistant", "call_dc"],
+      ["tool", "call_dc"],
+      ["assistant", null],
+    ]);
+  });
+});
+
+// Approval storage stand-in with the same claim semantics as ApprovalManager
+function memoryApprovals(actions: any[]) {
+  const find = (id: string) => actions.find((action) => action.id === id) ?? null;
+  return {
+    actions,
+    getPendingAction: async (id: string) => find(id) && { ...find(id) },
+    getPendingActions: async (conversationId: string, status?: string) =>
+      actions.filter((action) => action.conversationId === conversationId && (!status || action.status === status)),
+    decide: async (id: string, decision: any) => {
+      const action = find(id);
+      if (action.status !== "pending") throw new Error(`Action ${id} has already been ${action.status}`);
+      Object.assign(action, { status: decision.status, decidedBy: decision.decidedBy, decisionNote: decision.note ?? null });
+      return { ...action };
+    },
+    recordResult: async (id: string, result: unknown) => { find(id).result = result; },
+    markAnswered: async (id: string) => { find(id).answeredAt = new Date(); },
+    getUnansweredActions: async (conversationId: string) =>
+      actions.filter((action) => action.conversationId === conversationId && !action.answeredAt),
+    claimResume: async (conversationId: string) => {
+      const claimable = actions.filter((action) =>
+        action.conversationId === conversationId && action.answeredAt && !action.resumedAt);
+      claimable.forEach((action) => { action.resumedAt = new Date(); });
+      return claimable.length > 0;
+    },
+    createPendingAction: async (params: any) => {
+      const action = { ...params, id: `act-${actions.length + 1}`, status: "pending" };
+      actions.push(action);
+      return { ...action };
+    },
+  };
+}
+
+describe("AgentOrchestrator approval decisions", () => {
+  const PROJECT_ID = 7;
+  // User 1 owns the conversation and can edit the project; user 2 has the
+  // conversation shared with write access but may only read the project;
+  // user 3 has no project access
+  const canAccessProject: AgentOrchestratorOptions["canAccessProject"] = (userId, _projectId, mode) =>
+    userId === 1 || (userId === 2 && mode === "read");
+
+  const emptyProjectDb: ProjectDb = { execute: async () => [[], []] };
+
+  const setValueTool: ToolDefinition = {
+    name: "set_value",
+    riskLevel: "write",
+    description: "Change a project value",
+    parameters: { type: "object", properties: { value: { type: "string", description: "New value" } }, required: ["value"] },
+    handler: async (args) => ({ updated: args.value }),
+  };
+
+  const pendingSetValue = (id: string, toolCallId: string, value: string) => ({
+    id,
+    conversationId: "conv-1",
+    userId: 1,
+    projectId: PROJECT_ID,
+    toolCallId,
+    toolName: "set_value",
+    arguments: { value },
+    riskLevel: "write",
+    status: "pending",
+  });
+
+  let conversations: ReturnType<typeof memoryConversations>;
+  let approvals: ReturnType<typeof memoryApprovals>;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    conversations = memoryConversations(PROJECT_ID);
+    approvals = memoryApprovals([pendingSetValue("act-1", "call_set", "42")]);
+  });
+
+  const decisions = () => approvals.actions
+    .filter((action) => action.status !== "pending")
+    .map((action) => ({ actionId: action.id, status: action.status, decidedBy: action.decidedBy }));
+
+  function createAgent(llm: MockLLMClient): AgentOrchestrator {
+    const agent = new AgentOrchestrator(emptyDb(), async () => emptyProjectDb, {
+      llmClient: llm,
+      autoTitle: false,
+      canAccessProject,
+    });
+    agent.conversationManager = conversations as any;
+    agent.knowledgeExtractor = { extractFromConversation: async () => [] } as any;
+    agent.approvalManager = approvals as any;
+    agent.toolExecutor.registerTools([setValueTool]);
+    return agent;
+  }
+
+  it("refuses a decision from a user without project access", async () => {
+    const llm = new MockLLMClient([{ content: "Done." }]);
+    const agent = createAgent(llm);
+
+    await expect(agent.rejectAction("act-1", 3)).rejects.toBeInstanceOf(AccessDeniedError);
+    expect(decisions()).toEqual([]);
+    expect(llm.calls).toHaveLength(0);
+  });
+
+  it("refuses an approval from a read-only user", async () => {
+    const agent = createAgent(new MockLLMClient([{ content: "Done." }]));
+
+    await expect(agent.approveAction("act-1", 2)).rejects.toBeInstanceOf(AccessDeniedError);
+    expect(decisions()).toEqual([]);
+  });
+
+  it("resumes as the deciding user, so their project access applies", async () => {
+    const llm = new MockLLMClient([
+      { toolCalls: [{ id: "call_again", name: "set_value", arguments: { value: "43" } }] },
+      { content: "I can't change the value for you." },
+    ]);
+    const agent = createAgent(llm);
+
+    const response = await agent.rejectAction("act-1", 2, "Not now");
+
+    expect(decisions()).toEqual([{ actionId: "act-1", status: "rejected", decidedBy: 2 }]);
+    expect(response.message).toBe("I can't change the value for you.");
+    // The write tool of the resumed round is checked against user 2, not the owner
+    expect(response.pendingActions).toBeUndefined();
+    const blocked = conversations.messages.find((msg) => msg.toolCallId === "call_again");
+    expect(JSON.parse(blocked.content).error).toMatch(/read-only access to project 7/);
+  });
+
+  it("resumes once when two actions of a round are decided at the same time", async () => {
+    approvals.actions.push(pendingSetValue("act-2", "call_set_2", "43"));
+    const llm = new MockLLMClient([{ content: "Set to 42; 43 was rejected." }, { content: "Duplicate answer." }]);
+    const agent = createAgent(llm);
+
+    const responses = await Promise.all([
+      agent.approveAction("act-1", 1),
+      agent.rejectAction("act-2", 1, "Keep 42"),
+    ]);
+
+    expect(llm.calls).toHaveLength(1);
+    expect(responses.map((response) => response.message)).toContain("Set to 42; 43 was rejected.");
+    expect(conversations.messages.filter((msg) => msg.role === "assistant")).toHaveLength(1);
+    // The resumed round sees both tool results
+    expect(llm.calls[0].messages.filter((msg) => msg.role === "tool")).toHaveLength(2);
+  });
+});
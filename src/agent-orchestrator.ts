@@ -1,8 +1,28 @@
 import type { MySql2Database } from "drizzle-orm/mysql2";
-import { invokeLLM, type Message, type ToolCall } from "./llm";
-import type { ProjectDbPool } from "./project-db-wrapper";
-import { ConversationManager } from "./conversation-manager";
-import { ToolExecutor, type ToolExecutionContext } from "./tool-executor";
+import type { InvokeParams, InvokeResult, Message, ToolCall } from "./llm";
+import type { LLMConfig } from "./llm-providers";
+import { createLLMClient, type LLMClient } from "./llm-client";
+import type { ProjectDb } from "./project-db-wrapper";
+import { ProjectRepository } from "./project-repository";
+import { ConversationManager, DEFAULT_CONTEXT_TOKENS } from "./conversation-manager";
+import { ConversationCompactor } from "./conversation-compactor";
+import { ConversationTitler } from "./conversation-titler";
+import {
+  DEFAULT_TOOL_CONCURRENCY,
+  ToolExecutor,
+  type ToolExecutionContext,
+  type ToolExecutionResult,
+  type ToolRiskLevel,
+} from "./tool-executor";
+import { ApprovalManager } from "./approval-manager";
+import {
+  AccessDeniedError,
+  userContext,
+  type AuthorizeFn,
+  type CanAccessProjectFn,
+  type ProjectAccessMode,
+} from "./access-control";
+import type { AgentPendingAction } from "./schema";
 import { LearningEngine } from "./learning-engine";
 import { queryTools } from "./tools/query-tools";
 import { generationTools } from "./tools/generation-tools";
@@ -11,6 +31,14 @@ import { allModificationTools } from "./tools/modification-tools";
 import { intelligenceTools } from "./tools/intelligence-tools";
 import { knowledgeBaseTools } from "./tools/knowledge-base-tools";
 import { KnowledgeExtractor } from "./knowledge-extractor";
+import { KnowledgeRetriever, type EmbeddingProvider } from "./knowledge-retrieval";
+import {
+  KnowledgeInjector,
+  formatKnowledgeEntry,
+  loadProjectProfile,
+  type KnowledgeInjectorOptions,
+  type KnowledgeSelection,
+} from "./knowledge-injector";
 
 /**
  * Agent Orchestrator
@@ -44,6 +72,8 @@ export interface AgentResponse {
     arguments: Record<string, unknown>;
     result: unknown;
   }>;
+  /** Tool calls waiting for approval; the agent resumes once all are decided */
+  pendingActions?: PendingActionSummary[];
   metadata: {
     tokens?: number;
     model?: string;
@@ -52,20 +82,166 @@ export interface AgentResponse {
   };
 }
 
+export interface PendingActionSummary {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  riskLevel: ToolRiskLevel;
+}
+
+/**
+ * Events emitted by `processMessageStream` while the agent works.
+ * Rounds are numbered from 1; text deltas of a round that ends with tool
+ * calls are the assistant's preamble to those calls, not the final answer.
+ */
+export type AgentStreamEvent =
+  | { type: "conversation"; conversationId: string }
+  | { type: "round_start"; round: number }
+  | { type: "text_delta"; round: number; text: string }
+  | {
+      type: "tool_call_started";
+      round: number;
+      toolCallId: string;
+      name: string;
+      arguments: Record<string, unknown>;
+    }
+  | {
+      type: "tool_result";
+      round: number;
+      toolCallId: string;
+      name: string;
+      success: boolean;
+      result: unknown;
+      error?: string;
+    }
+  | { type: "approval_required"; round: number; pendingAction: PendingActionSummary }
+  | { type: "round_end"; round: number; toolCalls: number }
+  | { type: "done"; response: AgentResponse };
+
+export interface AgentOrchestratorOptions {
+  /**
+   * LLM provider configuration (or a custom provider instance).
+   * Defaults to the provider resolved from environment variables.
+   */
+  llm?: LLMConfig;
+
+  /**
+   * LLM client used for every model call (agent loop, tools, learning and
+   * knowledge extraction). Takes precedence over `llm`; inject a
+   * `MockLLMClient` or `FixtureLLMClient` to run without network access.
+   */
+  llmClient?: LLMClient;
+
+  /**
+   * Tool risk levels that need human approval before the tool runs.
+   * Defaults to `["write", "destructive"]`; pass `[]` to let the agent run
+   * every tool on its own.
+   */
+  approvalRequiredFor?: ToolRiskLevel[];
+
+  /**
+   * Maximum number of read-only tool calls from one round that run at the
+   * same time (default: DEFAULT_TOOL_CONCURRENCY). Write tools always run
+   * one at a time, in call order.
+   */
+  toolConcurrency?: number;
+
+  /**
+   * Token budget for the conversation history sent to the LLM (default:
+   * DEFAULT_CONTEXT_TOKENS). Older turns are folded into the conversation
+   * summary once the history grows past it.
+   */
+  contextTokenBudget?: number;
+
+  /**
+   * Generate a title and topic tags after a conversation's first exchange
+   * (default: true). This is one extra model call, made in the background.
+   */
+  autoTitle?: boolean;
+
+  /**
+   * Access policy for conversations (default: owner only; conversation
+   * shares grant access on top of it). Checked before a conversation is
+   * continued, edited, regenerated, switched to another branch, or has a
+   * pending action decided.
+   */
+  authorize?: AuthorizeFn;
+
+  /**
+   * Project access check (default: every user may read and write every
+   * project). "read" is required to chat about a project — it is checked
+   * before the project database is opened — and "write" before write or
+   * destructive tools run or are approved, so read-only users can chat but
+   * the agent can't change project data on their behalf.
+   */
+  canAccessProject?: CanAccessProjectFn;
+
+  /**
+   * Embedding provider for knowledge base search (default: none, entries
+   * are ranked by BM25 only). Entry vectors are computed on first use and
+   * stored in agentKnowledgeEmbeddings.
+   */
+  embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * How knowledge base entries are chosen for the system prompt: token
+   * budget, entry limit and relevance thresholds. Entries are picked per
+   * turn by relevance to the conversation and the project.
+   */
+  knowledgeInjection?: KnowledgeInjectorOptions;
+}
+
+const toPendingActionSummary = (action: AgentPendingAction): PendingActionSummary => ({
+  id: action.id,
+  toolCallId: action.toolCallId,
+  toolName: action.toolName,
+  arguments: action.arguments || {},
+  riskLevel: action.riskLevel as ToolRiskLevel,
+});
+
 export class AgentOrchestrator {
   public conversationManager: ConversationManager;
   public toolExecutor: ToolExecutor;
   public learningEngine: LearningEngine;
   public knowledgeExtractor: KnowledgeExtractor;
+  public approvalManager: ApprovalManager;
+  public compactor: ConversationCompactor;
+  public titler: ConversationTitler;
+  public knowledgeRetriever: KnowledgeRetriever;
+  public knowledgeInjector: KnowledgeInjector;
+  private llm: LLMClient;
+  private approvalRequiredFor: ToolRiskLevel[];
+  private toolConcurrency: number;
+  private contextTokenBudget: number;
+  private autoTitle: boolean;
+  private canAccessProject?: CanAccessProjectFn;
 
   constructor(
     private db: MySql2Database<any>,
-    private getProjectDb: (projectId: number) => Promise<ProjectDbPool>
+    private getProjectDb: (projectId: number) => Promise<ProjectDb>,
+    options: AgentOrchestratorOptions = {}
   ) {
-    this.conversationManager = new ConversationManager(db);
+    this.llm = options.llmClient ?? createLLMClient(options.llm);
+    this.conversationManager = new ConversationManager(db, {
+      authorize: options.authorize,
+      canAccessProject: options.canAccessProject,
+    });
     this.toolExecutor = new ToolExecutor(db);
-    this.learningEngine = new LearningEngine(db);
-    this.knowledgeExtractor = new KnowledgeExtractor(db);
+    this.learningEngine = new LearningEngine(db, this.llm);
+    this.knowledgeRetriever = new KnowledgeRetriever(db, { embeddingProvider: options.embeddingProvider });
+    this.knowledgeExtractor = new KnowledgeExtractor(db, this.llm, this.knowledgeRetriever);
+    this.knowledgeInjector = new KnowledgeInjector(this.knowledgeRetriever, options.knowledgeInjection);
+    this.approvalManager = new ApprovalManager(db);
+    this.approvalRequiredFor = options.approvalRequiredFor ?? ["write", "destructive"];
+    this.toolConcurrency = options.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY;
+    this.contextTokenBudget = options.contextTokenBudget ?? DEFAULT_CONTEXT_TOKENS;
+    this.compactor = new ConversationCompactor(this.conversationManager, this.llm, {
+      contextTokenBudget: this.contextTokenBudget,
+    });
+    this.titler = new ConversationTitler(this.conversationManager, this.llm);
+    this.autoTitle = options.autoTitle ?? true;
+    this.canAccessProject = options.canAccessProject;
 
     // Register all available tools
     this.toolExecutor.registerTools([...queryTools, ...generationTools, ...workflowTools, ...allModificationTools, ...intelligenceTools, ...knowledgeBaseTools]);
@@ -75,10 +251,346 @@ export class AgentOrchestrator {
    * Process a user message and generate a response
    */
   async processMessage(request: AgentRequest): Promise<AgentResponse> {
+    return await this.runToCompletion(this.runAgent(request, false));
+  }
+
+  /**
+   * Process a user message, streaming tokens and tool activity as they happen.
+   * Messages are persisted exactly as in `processMessage`; the last event is
+   * always `done` with the complete response.
+   */
+  async *processMessageStream(request: AgentRequest): AsyncGenerator<AgentStreamEvent, void> {
+    const response = yield* this.runAgent(request, true);
+    yield { type: "done", response };
+  }
+
+  /**
+   * Approve a pending tool call: run it, then resume the agent once every
+   * pending action of the conversation has been decided
+   */
+  async approveAction(actionId: string, userId: number, note?: string): Promise<AgentResponse> {
+    return await this.runToCompletion(this.decideAction(actionId, "approved", userId, note));
+  }
+
+  /**
+   * Reject a pending tool call: the LLM is told it was rejected, and the agent
+   * resumes once every pending action of the conversation has been decided
+   */
+  async rejectAction(actionId: string, userId: number, note?: string): Promise<AgentResponse> {
+    return await this.runToCompletion(this.decideAction(actionId, "rejected", userId, note));
+  }
+
+  /**
+   * Edit an earlier user message. The edited text starts a new branch next
+   * to the original one (which is kept), and the agent answers it.
+   */
+  async editMessage(messageId: string, content: string, userId: number): Promise<AgentResponse> {
+    const message = await this.conversationManager.getMessage(messageId);
+    if (!message) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+    if (message.role !== "user") {
+      throw new Error("Only user messages can be edited");
+    }
+    const conversation = await this.conversationManager.authorizeConversation(
+      userContext(userId),
+      message.conversationId,
+      "write"
+    );
+
+    return await this.runToCompletion(this.runAgent({
+      userId,
+      projectId: conversation.projectId ?? undefined,
+      conversationId: conversation.id,
+      message: content,
+    }, false, { parentMessageId: message.parentMessageId ?? null }));
+  }
+
+  /**
+   * Generate a new answer to the user message that `messageId` belongs to
+   * (the message itself, or an answer or tool call below it). The new answer
+   * becomes a sibling branch of the existing one.
+   */
+  async regenerate(messageId: string, userId: number): Promise<AgentResponse> {
+    let question = await this.conversationManager.getMessage(messageId);
+    while (question && question.role !== "user") {
+      question = question.parentMessageId
+        ? await this.conversationManager.getMessage(question.parentMessageId)
+        : null;
+    }
+    if (!question) {
+      throw new Error(`No user message found above message ${messageId}`);
+    }
+    const conversation = await this.conversationManager.authorizeConversation(
+      userContext(userId),
+      question.conversationId,
+      "write"
+    );
+
+    await this.rejectStalePendingActions(conversation.id, userId);
+    await this.conversationManager.setActiveLeaf(conversation.id, question.id);
+
+    return await this.runToCompletion(this.runAgent({
+      userId,
+      projectId: conversation.projectId ?? undefined,
+      conversationId: conversation.id,
+      message: question.content || "",
+    }, false, { resume: true }));
+  }
+
+  /**
+   * Show another branch of the conversation: the branch through `messageId`
+   * becomes active. Returns the new end of the active branch.
+   */
+  async switchBranch(conversationId: string, messageId: string, userId: number): Promise<string> {
+    await this.conversationManager.authorizeConversation(userContext(userId), conversationId, "write");
+    await this.rejectStalePendingActions(conversationId, userId);
+    return await this.conversationManager.switchBranch(conversationId, messageId);
+  }
+
+  /**
+   * Check that a user has the given access to a project. Throws
+   * AccessDeniedError if not.
+   */
+  async assertProjectAccess(userId: number, projectId: number, mode: ProjectAccessMode): Promise<void> {
+    if (!(await this.hasProjectAccess(userId, projectId, mode))) {
+      console.warn(`[ACCESS] Denied ${mode} on project ${projectId} to user ${userId}`);
+      throw new AccessDeniedError({ type: "project", id: projectId }, mode, userId);
+    }
+  }
+
+  /**
+   * Get the tool calls of a conversation that are waiting for approval
+   */
+  async getPendingActions(conversationId: string): Promise<PendingActionSummary[]> {
+    const actions = await this.approvalManager.getPendingActions(conversationId, "pending");
+    return actions.map(toPendingActionSummary);
+  }
+
+  private async runToCompletion(run: AsyncGenerator<AgentStreamEvent, AgentResponse>): Promise<AgentResponse> {
+    let step = await run.next();
+    while (!step.done) {
+      step = await run.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * Record a decision, answer the tool call in the conversation, and resume
+   * the agent loop when nothing else is waiting. When decisions of the same
+   * round finish together, only the one that claims the round resumes.
+   */
+  private async *decideAction(
+    actionId: string,
+    status: "approved" | "rejected",
+    userId: number,
+    note?: string
+  ): AsyncGenerator<AgentStreamEvent, AgentResponse> {
+    const startTime = Date.now();
+    const pending = await this.approvalManager.getPendingAction(actionId);
+    if (!pending) {
+      throw new Error(`Pending action ${actionId} not found`);
+    }
+    await this.conversationManager.authorizeConversation(userContext(userId), pending.conversationId, "write");
+    // Any decision resumes the agent on the project's data; approving also changes it
+    if (pending.projectId != null) {
+      await this.assertProjectAccess(userId, pending.projectId, status === "approved" ? "write" : "read");
+    }
+
+    const action = await this.approvalManager.decide(actionId, { status, decidedBy: userId, note });
+    const conversationId = action.conversationId;
+    console.log(`[AGENT] Action ${actionId} (${action.toolName}) ${status} by user ${userId}`);
+
+    let toolContent: string;
+    if (status === "approved") {
+      // Run as the user whose request produced the call
+      const projectDb = action.projectId != null ? await this.getProjectDb(action.projectId) : null;
+      const executionContext = this.createExecutionContext(
+        { userId: action.userId, projectId: action.projectId ?? undefined, conversationId, message: "" },
+        conversationId,
+        projectDb
+      );
+      const result = await this.toolExecutor.executeTool(action.toolName, action.arguments || {}, executionContext);
+      await this.approvalManager.recordResult(actionId, {
+        success: result.success,
+        result: result.result,
+        error: result.error,
+      });
+      toolContent = this.formatToolContent(result);
+    } else {
+      toolContent = this.formatRejection(note);
+    }
+
+    await this.conversationManager.addMessage({
+      conversationId,
+      role: "tool",
+      content: toolContent,
+      toolCallId: action.toolCallId,
+    });
+    await this.approvalManager.markAnswered(actionId);
+
+    const unanswered = await this.approvalManager.getUnansweredActions(conversationId);
+    const remaining = unanswered.filter((pendingAction) => pendingAction.status === "pending");
+    if (remaining.length > 0) {
+      return {
+        conversationId,
+        message: `Waiting for approval of ${remaining.length} more action(s).`,
+        pendingActions: remaining.map(toPendingActionSummary),
+        metadata: {
+          latency: Date.now() - startTime,
+          toolsUsed: [action.toolName],
+        },
+      };
+    }
+    // A decision still being answered, or one that claimed the round
+    // first, resumes the agent instead
+    if (unanswered.length > 0 || !(await this.approvalManager.claimResume(conversationId))) {
+      return {
+        conversationId,
+        message: "The agent continues with the other decision(s) of this round.",
+        metadata: {
+          latency: Date.now() - startTime,
+          toolsUsed: [action.toolName],
+        },
+      };
+    }
+
+    const conversation = await this.conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    // Continue as the user who decided, so the next round's project access
+    // and write tools are checked against them, not the conversation owner
+    return yield* this.runAgent({
+      userId,
+      projectId: conversation.projectId ?? undefined,
+      conversationId,
+      message: "",
+    }, false, { resume: true });
+  }
+
+  /**
+   * Reject the actions still waiting in a conversation, so its tool call
+   * sequence is complete before a new user message is added
+   */
+  private async rejectStalePendingActions(conversationId: string, userId: number): Promise<void> {
+    const stale = await this.approvalManager.getPendingActions(conversationId, "pending");
+    const note = "Superseded by a new user message";
+
+    for (const action of stale) {
+      await this.approvalManager.decide(action.id, { status: "rejected", decidedBy: userId, note });
+      await this.conversationManager.addMessage({
+        conversationId,
+        role: "tool",
+        content: this.formatRejection(note),
+        toolCallId: action.toolCallId,
+      });
+      await this.approvalManager.markAnswered(action.id);
+    }
+  }
+
+  private async hasProjectAccess(userId: number, projectId: number, mode: ProjectAccessMode): Promise<boolean> {
+    return this.canAccessProject ? await this.canAccessProject(userId, projectId, mode) : true;
+  }
+
+  private requiresApproval(toolName: string, args: Record<string, unknown>): boolean {
+    if (!this.approvalRequiredFor.includes(this.toolExecutor.getRiskLevel(toolName))) {
+      return false;
+    }
+    return this.toolExecutor.validateArguments(toolName, args).valid;
+  }
+
+  private createExecutionContext(
+    request: AgentRequest,
+    conversationId: string,
+    projectDb: ProjectDb | null
+  ): ToolExecutionContext {
+    return {
+      userId: request.userId,
+      projectId: request.projectId,
+      conversationId,
+      db: this.db,
+      mainDb: this.db, // Alias for narrative tools
+      projectDb: projectDb || undefined,
+      projectRepository: projectDb ? new ProjectRepository(projectDb, request.projectId) : undefined,
+      llm: this.llm,
+      knowledgeRetriever: this.knowledgeRetriever,
+    };
+  }
+
+  /**
+   * Tool message content for a tool result. Rejected arguments are reported
+   * per field so the LLM can correct the call and retry.
+   */
+  private formatToolContent(result: ToolExecutionResult): string {
+    if (!result.success) {
+      return JSON.stringify(result.validationErrors
+        ? {
+          error: result.error,
+          validationErrors: result.validationErrors,
+          hint: "Fix the listed arguments and call the tool again.",
+        }
+        : { error: result.error });
+    }
+    return result.result != null
+      ? JSON.stringify(result.result)
+      : JSON.stringify({ error: "Tool returned no result" });
+  }
+
+  private formatRejection(note?: string): string {
+    return JSON.stringify({
+      error: "The user rejected this action",
+      rejected: true,
+      note,
+      hint: "Do not retry this action unless the user asks for it.",
+    });
+  }
+
+  /**
+   * Call the LLM, forwarding text deltas when streaming
+   */
+  private async *callLLM(
+    params: InvokeParams,
+    round: number,
+    stream: boolean
+  ): AsyncGenerator<AgentStreamEvent, InvokeResult> {
+    if (!stream) {
+      return await this.llm.invoke(params);
+    }
+
+    const llmStream = this.llm.stream(params);
+    let step = await llmStream.next();
+    while (!step.done) {
+      if (step.value.type === "text_delta") {
+        yield { type: "text_delta", round, text: step.value.text };
+      }
+      step = await llmStream.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * Agent loop shared by the streaming and non-streaming entry points.
+   * With `resume`, no user message is added: the loop answers the end of the
+   * active branch as it is (after approvals, or to regenerate an answer).
+   * `parentMessageId` places the user message elsewhere in the message tree.
+   */
+  private async *runAgent(
+    request: AgentRequest,
+    stream: boolean,
+    options: { resume?: boolean; parentMessageId?: string | null } = {}
+  ): AsyncGenerator<AgentStreamEvent, AgentResponse> {
+    const { resume = false } = options;
     const startTime = Date.now();
     const toolsUsed: string[] = [];
 
     try {
+      // Check project access before creating or touching anything
+      if (request.projectId) {
+        await this.assertProjectAccess(request.userId, request.projectId, "read");
+      }
+
       // Get or create conversation
       let conversationId = request.conversationId;
       if (!conversationId) {
@@ -88,30 +600,55 @@ export class AgentOrchestrator {
           context: request.context,
         });
         conversationId = conversation.id;
+      } else if (!resume) {
+        // Resumed runs were authorized by the call that resumed them
+        await this.conversationManager.authorizeConversation(userContext(request.userId), conversationId, "write");
       }
+      yield { type: "conversation", conversationId };
 
       // Update context if provided
       if (request.context) {
         await this.conversationManager.updateContext(conversationId, request.context);
       }
 
-      // Add user message to conversation
-      await this.conversationManager.addMessage({
-        conversationId,
-        role: "user",
-        content: request.message,
-      });
+      if (!resume) {
+        // A new message supersedes tool calls still waiting for approval
+        if (request.conversationId) {
+          await this.rejectStalePendingActions(conversationId, request.userId);
+        }
+
+        // Add user message to conversation
+        await this.conversationManager.addMessage({
+          conversationId,
+          role: "user",
+          content: request.message,
+          authorUserId: request.userId,
+          parentMessageId: options.parentMessageId,
+        });
+      }
+
+      // Fold old turns into the conversation summary once the history is over
+      // budget. If that fails, buildLLMContext still trims to the budget.
+      try {
+        await this.compactor.compactIfNeeded(conversationId);
+      } catch (error) {
+        console.error("[AGENT] Conversation compaction failed:", error);
+      }
 
       // Get conversation history for context
-      const history = await this.conversationManager.buildLLMContext(conversationId);
+      const history = await this.conversationManager.buildLLMContext(conversationId, {
+        maxTokens: this.contextTokenBudget,
+      });
 
       // Get project database connection (only if projectId is provided)
       const projectDb = request.projectId
         ? await this.getProjectDb(request.projectId)
         : null;
 
-      // Build system prompt with context
-      const systemPrompt = await this.buildSystemPrompt(request);
+      // Build system prompt with context and the knowledge relevant to this turn
+      const knowledge = await this.selectKnowledge(request, history, projectDb);
+      const knowledgeInjected = knowledge?.injected;
+      const systemPrompt = this.buildSystemPrompt(request, knowledge);
 
       // Prepare messages for LLM
       // IMPORTANT: Preserve full message structure including tool_calls and tool_call_id
@@ -162,25 +699,22 @@ export class AgentOrchestrator {
       let totalTokens = 0;
       let modelUsed = "";
 
-      const executionContext: ToolExecutionContext = {
-        userId: request.userId,
-        projectId: request.projectId,
-        conversationId,
-        db: this.db,
-        mainDb: this.db, // Alias for narrative tools
-        projectDb: projectDb || undefined,
-      };
+      const executionContext = this.createExecutionContext(request, conversationId, projectDb);
+      const pendingActions: PendingActionSummary[] = [];
+      // Looked up on the first write tool call of the run
+      let projectWriteAccess: boolean | undefined;
 
       for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
         console.log(`[AGENT] Tool calling round ${round + 1}/${MAX_TOOL_ROUNDS}`);
+        yield { type: "round_start", round: round + 1 };
 
         // Call LLM with tool calling capability
-        const llmResponse = await invokeLLM({
+        const llmResponse = yield* this.callLLM({
           messages,
           tools,
           toolChoice: "auto",
           maxTokens: 8000,
-        });
+        }, round + 1, stream);
 
         // Track token usage
         if (llmResponse.usage) {
@@ -209,6 +743,7 @@ export class AgentOrchestrator {
         if (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0) {
           responseContent = messageContent;
           console.log(`[AGENT] No more tool calls after round ${round + 1}. Final response ready.`);
+          yield { type: "round_end", round: round + 1, toolCalls: 0 };
           break;
         }
 
@@ -248,43 +783,131 @@ export class AgentOrchestrator {
             tokens: llmResponse.usage?.total_tokens,
             model: llmResponse.model,
             latency: Date.now() - startTime,
+            knowledgeInjected,
           },
         });
 
         // CRITICAL: Small delay to ensure message ordering in database
         await new Promise(resolve => setTimeout(resolve, 100));
 
-        // Execute each tool call
+        // Parse arguments and hold back the calls that need approval
+        const calls: Array<{
+          toolCall: ToolCall;
+          args: Record<string, unknown>;
+          argumentsError: string | null;
+          accessError?: string;
+          pendingAction?: PendingActionSummary;
+        }> = [];
+
         for (const toolCall of assistantMessage.tool_calls) {
           let args: Record<string, unknown>;
+          let argumentsError: string | null = null;
           try {
             args = typeof toolCall.function.arguments === "string"
-              ? JSON.parse(toolCall.function.arguments)
+              ? JSON.parse(toolCall.function.arguments || "{}")
               : toolCall.function.arguments;
           } catch (parseError) {
             console.error(`Failed to parse tool call arguments for ${toolCall.function.name}:`, parseError);
             args = {};
+            argumentsError = `Arguments are not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
+          }
+          const call: (typeof calls)[number] = { toolCall, args, argumentsError };
+          calls.push(call);
+          yield {
+            type: "tool_call_started",
+            round: round + 1,
+            toolCallId: toolCall.id,
+            name: toolCall.function.name,
+            arguments: args,
+          };
+
+          // Read-only users can't change project data, not even with approval
+          if (!argumentsError && request.projectId && this.toolExecutor.getRiskLevel(toolCall.function.name) !== "read") {
+            if (projectWriteAccess === undefined) {
+              projectWriteAccess = await this.hasProjectAccess(request.userId, request.projectId, "write");
+            }
+            if (!projectWriteAccess) {
+              call.accessError = `You have read-only access to project ${request.projectId}; ${toolCall.function.name} changes project data and can't be run for you`;
+              console.warn(`[ACCESS] Blocked ${toolCall.function.name} for read-only user ${request.userId} on project ${request.projectId}`);
+              continue;
+            }
           }
-          console.log(`[AGENT] Executing tool: ${toolCall.function.name}`, JSON.stringify(args));
-          const result = await this.toolExecutor.executeTool(
-            toolCall.function.name,
-            args,
-            executionContext
-          );
 
+          // Risky tools wait for a human decision. Calls with invalid arguments
+          // go through so the LLM gets the validation errors back instead.
+          if (!argumentsError && this.requiresApproval(toolCall.function.name, args)) {
+            call.pendingAction = toPendingActionSummary(
+              await this.approvalManager.createPendingAction({
+                conversationId,
+                userId: request.userId,
+                projectId: request.projectId,
+                toolCallId: toolCall.id,
+                toolName: toolCall.function.name,
+                arguments: args,
+                riskLevel: this.toolExecutor.getRiskLevel(toolCall.function.name),
+              })
+            );
+            console.log(`[AGENT] Tool ${toolCall.function.name} needs approval (pending action ${call.pendingAction.id})`);
+
+            pendingActions.push(call.pendingAction);
+            yield { type: "approval_required", round: round + 1, pendingAction: call.pendingAction };
+          }
+        }
+
+        // Execute the remaining calls: read-only tools run concurrently,
+        // write tools one at a time in call order
+        const runnable = calls.filter(call => !call.argumentsError && !call.accessError && !call.pendingAction);
+        for (const call of runnable) {
+          console.log(`[AGENT] Executing tool: ${call.toolCall.function.name}`, JSON.stringify(call.args));
+        }
+        const executed = await this.toolExecutor.executeTools(
+          runnable.map(call => ({ name: call.toolCall.function.name, arguments: call.args })),
+          executionContext,
+          { concurrency: this.toolConcurrency, stopOnError: false }
+        );
+        const results = new Map(runnable.map((call, index) => [call, executed[index]]));
+
+        // Record results in the original call order
+        for (const call of calls) {
+          const { toolCall, args } = call;
           toolsUsed.push(toolCall.function.name);
+
+          if (call.pendingAction) {
+            toolCallResults.push({
+              id: toolCall.id,
+              name: toolCall.function.name,
+              arguments: args,
+              result: { status: "awaiting_approval", pendingActionId: call.pendingAction.id },
+            });
+            continue;
+          }
+
+          const result: ToolExecutionResult = results.get(call) ?? {
+            success: false,
+            error: call.argumentsError ?? call.accessError ?? "Tool was not executed",
+            validationErrors: call.argumentsError ? [{ path: "", message: call.argumentsError }] : undefined,
+            executionTimeMs: 0,
+          };
+
           toolCallResults.push({
             id: toolCall.id,
             name: toolCall.function.name,
             arguments: args,
             result: result.result,
           });
+          yield {
+            type: "tool_result",
+            round: round + 1,
+            toolCallId: toolCall.id,
+            name: toolCall.function.name,
+            success: result.success,
+            result: result.result,
+            error: result.error,
+          };
 
           // Add tool result to in-memory messages array
-          const toolContent = result.result != null 
-            ? JSON.stringify(result.result)
-            : JSON.stringify({ error: "Tool returned no result" });
-          
+          const toolContent = this.formatToolContent(result);
+
           messages.push({
             role: "tool",
             content: toolContent,
@@ -300,13 +923,28 @@ export class AgentOrchestrator {
           });
         }
 
+        yield { type: "round_end", round: round + 1, toolCalls: assistantMessage.tool_calls.length };
+
+        // Pause until the pending actions are decided (see `approveAction`);
+        // their tool messages are written then, so nothing more is saved now
+        if (pendingActions.length > 0) {
+          responseContent = [
+            messageContent,
+            `The following action(s) need approval before I can continue:\n${pendingActions
+              .map(action => `- ${action.toolName} ${JSON.stringify(action.arguments)}`)
+              .join("\n")}`,
+          ].filter(Boolean).join("\n\n");
+          break;
+        }
+
         // If this is the last allowed round, force a final response without tools
         if (round === MAX_TOOL_ROUNDS - 1) {
           console.log(`[AGENT] Max tool rounds reached. Forcing final response.`);
-          const finalResponse = await invokeLLM({
+          yield { type: "round_start", round: MAX_TOOL_ROUNDS + 1 };
+          const finalResponse = yield* this.callLLM({
             messages,
             maxTokens: 8000,
-          });
+          }, MAX_TOOL_ROUNDS + 1, stream);
 
           if (finalResponse?.choices?.[0]?.message) {
             const finalMsg = finalResponse.choices[0].message;
@@ -317,9 +955,26 @@ export class AgentOrchestrator {
                 : String(finalMsg.content || "");
             if (finalResponse.usage) totalTokens += finalResponse.usage.total_tokens;
           }
+          yield { type: "round_end", round: MAX_TOOL_ROUNDS + 1, toolCalls: 0 };
         }
       }
 
+      if (pendingActions.length > 0) {
+        console.log(`[AGENT] Paused for approval of ${pendingActions.length} action(s). Latency: ${Date.now() - startTime}ms`);
+        return {
+          conversationId,
+          message: responseContent,
+          toolCalls: toolCallResults,
+          pendingActions,
+          metadata: {
+            tokens: totalTokens,
+            model: modelUsed,
+            latency: Date.now() - startTime,
+            toolsUsed,
+          },
+        };
+      }
+
       // Save the final assistant response to conversation
       await this.conversationManager.addMessage({
         conversationId,
@@ -329,6 +984,7 @@ export class AgentOrchestrator {
           tokens: totalTokens,
           model: modelUsed,
           latency: Date.now() - startTime,
+          knowledgeInjected,
         },
       });
 
@@ -339,6 +995,8 @@ export class AgentOrchestrator {
       if (toolCallResults.length > 0) {
         this.knowledgeExtractor.extractFromConversation({
           projectId: request.projectId,
+          userId: request.userId,
+          conversationId,
           userMessage: request.message,
           agentResponse: responseContent,
           toolResults: toolCallResults.map(tc => ({
@@ -348,6 +1006,13 @@ export class AgentOrchestrator {
         }).catch(err => console.error("[KNOWLEDGE EXTRACTOR] Background extraction failed:", err));
       }
 
+      // Fire-and-forget: Name and tag the conversation once it has its first
+      // answer (no-op once tagged; retried after the next answer if it fails)
+      if (this.autoTitle) {
+        this.titler.titleIfNeeded(conversationId)
+          .catch(err => console.error("[TITLER] Background titling failed:", err));
+      }
+
       return {
         conversationId,
         message: responseContent,
@@ -365,11 +1030,42 @@ export class AgentOrchestrator {
     }
   }
 
+  /**
+   * Choose the knowledge base entries for this turn from the user's recent
+   * messages and the project's region and technology. Failures only cost
+   * the injected knowledge; the agent can still search the knowledge base.
+   */
+  private async selectKnowledge(
+    request: AgentRequest,
+    history: Array<Record<string, any>>,
+    projectDb: ProjectDb | null
+  ): Promise<KnowledgeSelection | null> {
+    try {
+      const userMessages = history
+        .filter((msg) => msg.role === "user" && typeof msg.content === "string")
+        .map((msg) => msg.content);
+      if (userMessages.length === 0 && request.message) {
+        userMessages.push(request.message);
+      }
+
+      const profile = projectDb
+        ? await loadProjectProfile(new ProjectRepository(projectDb, request.projectId))
+        : null;
+
+      const selection = await this.knowledgeInjector.select({ userMessages, profile });
+      console.log(`[SYSTEM PROMPT] Injecting ${selection.injected.length} knowledge entries (~${selection.tokens} tokens)`);
+      return selection;
+    } catch (error) {
+      console.error("[SYSTEM PROMPT] Failed to select knowledge:", error);
+      return null;
+    }
+  }
+
   /**
    * Build system prompt with context
-   * Injects relevant knowledge base entries to make the agent smarter over time
+   * Injects the knowledge base entries relevant to this turn to make the agent smarter over time
    */
-  private async buildSystemPrompt(request: AgentRequest): Promise<string> {
+  private buildSystemPrompt(request: AgentRequest, knowledge: KnowledgeSelection | null): string {
     let prompt = `You are a senior renewable energy due diligence analyst with 15+ years of experience in solar PV project assessment. You work within the OE (Operational Excellence) platform, helping users analyze project data, identify risks, and produce investment-grade due diligence reports.
 
 You think like an experienced technical advisor — not a search engine. When a user asks a question, you don't just retrieve data; you analyze it, cross-reference it, validate it against industry norms, and flag anything that looks unusual.
@@ -425,6 +1121,7 @@ You have access to tools for querying facts, documents, red flags, and project s
 - When asked about a specific topic, query multiple related categories. For example, if asked about "grid connection", search for facts in Technical_Design, Dependencies, and Risks_And_Issues.
 - After retrieving facts, use query_red_flags to check if there are any risks related to the topic.
 - Cross-reference document sources — if two facts from different documents contradict, note which documents they came from.
+- Tools that change or delete data (facts, red flags, narratives, knowledge base entries) are held until the user approves them. Explain the change you are proposing; if the user rejects it, do not retry unless they ask you to.
 
 ## RESPONSE QUALITY
 
@@ -460,43 +1157,24 @@ ${!request.projectId ? '\nIMPORTANT: No project is selected. You cannot query pr
       prompt += `\n- Workflow stage: ${request.context.workflowStage}`;
     }
 
-    // Inject high-confidence knowledge base entries into the system prompt
+    // Inject the relevant knowledge base entries into the system prompt
     // This gives the agent immediate access to accumulated knowledge without tool calls
-    try {
-      const { agentKnowledgeBase } = await import("./schema");
-      const { desc, eq } = await import("drizzle-orm");
-      
-      const topKnowledge = await this.db
-        .select({
-          topic: agentKnowledgeBase.topic,
-          content: agentKnowledgeBase.content,
-          category: agentKnowledgeBase.category,
-          confidence: agentKnowledgeBase.confidence,
-          sourceCount: agentKnowledgeBase.sourceCount,
-        })
-        .from(agentKnowledgeBase)
-        .orderBy(desc(agentKnowledgeBase.sourceCount))
-        .limit(15);
-
-      if (topKnowledge.length > 0) {
-        prompt += `\n\n## ACCUMULATED KNOWLEDGE (from previous analyses)\n\n`;
-        prompt += `The following insights have been accumulated from previous project analyses. Use them to inform your responses:\n\n`;
-        for (const entry of topKnowledge) {
-          prompt += `**${entry.topic}** (${entry.category}, ${entry.confidence} confidence, ${entry.sourceCount} source(s)):\n${entry.content}\n\n`;
-        }
+    if (knowledge && knowledge.results.length > 0) {
+      prompt += `\n\n## ACCUMULATED KNOWLEDGE (from previous analyses)\n\n`;
+      prompt += `The following insights from previous project analyses are relevant to this conversation. Use them to inform your responses:\n\n`;
+      for (const result of knowledge.results) {
+        prompt += formatKnowledgeEntry(result);
       }
-    } catch (error) {
-      console.error("[SYSTEM PROMPT] Failed to inject knowledge base:", error);
     }
 
     return prompt;
   }
 
   /**
-   * Get conversation history
+   * Get conversation history (the active branch)
    */
   async getConversationHistory(conversationId: string) {
-    return await this.conversationManager.getMessages(conversationId);
+    return await this.conversationManager.getActiveBranch(conversationId);
   }
 
   /**
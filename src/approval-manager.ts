@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from "uuid";
+import { eq, and, asc, isNull, isNotNull } from "drizzle-orm";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import {
+  agentPendingActions,
+  type AgentPendingAction,
+  type InsertAgentPendingAction,
+} from "./schema";
+import type { ToolRiskLevel } from "./tool-executor";
+
+/**
+ * Approval Manager
+ *
+ * Persists risky tool calls the agent is not allowed to run on its own and
+ * records the human decision on each of them
+ */
+
+export type PendingActionStatus = "pending" | "approved" | "rejected";
+
+export interface CreatePendingActionParams {
+  conversationId: string;
+  userId: number;
+  projectId?: number;
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  riskLevel: ToolRiskLevel;
+}
+
+export interface DecidePendingActionParams {
+  status: "approved" | "rejected";
+  decidedBy: number;
+  note?: string;
+}
+
+export class ApprovalManager {
+  constructor(private db: MySql2Database<any>) {}
+
+  /**
+   * Record a tool call that needs approval before it runs
+   */
+  async createPendingAction(params: CreatePendingActionParams): Promise<AgentPendingAction> {
+    const id = uuidv4();
+    // Use null (not undefined) for optional fields — mysql2 converts undefined to ''
+    const action: InsertAgentPendingAction = {
+      id,
+      conversationId: params.conversationId,
+      userId: params.userId,
+      projectId: params.projectId ?? null,
+      toolCallId: params.toolCallId,
+      toolName: params.toolName,
+      arguments: params.arguments,
+      riskLevel: params.riskLevel,
+      status: "pending",
+    };
+
+    await this.db.insert(agentPendingActions).values(action);
+
+    const created = await this.getPendingAction(id);
+    if (!created) {
+      throw new Error("Failed to create pending action");
+    }
+
+    return created;
+  }
+
+  /**
+   * Get a pending action by ID
+   */
+  async getPendingAction(actionId: string): Promise<AgentPendingAction | null> {
+    const [action] = await this.db
+      .select()
+      .from(agentPendingActions)
+      .where(eq(agentPendingActions.id, actionId));
+
+    return action || null;
+  }
+
+  /**
+   * Get the actions of a conversation, oldest first
+   */
+  async getPendingActions(
+    conversationId: string,
+    status?: PendingActionStatus
+  ): Promise<AgentPendingAction[]> {
+    const conditions = [eq(agentPendingActions.conversationId, conversationId)];
+    if (status) {
+      conditions.push(eq(agentPendingActions.status, status));
+    }
+
+    return await this.db
+      .select()
+      .from(agentPendingActions)
+      .where(and(...conditions))
+      .orderBy(asc(agentPendingActions.createdAt), asc(agentPendingActions.id));
+  }
+
+  /**
+   * Approve or reject an action. Only pending actions can be decided, so two
+   * reviewers deciding at the same time can't both run the tool.
+   */
+  async decide(actionId: string, decision: DecidePendingActionParams): Promise<AgentPendingAction> {
+    const action = await this.getPendingAction(actionId);
+    if (!action) {
+      throw new Error(`Pending action ${actionId} not found`);
+    }
+    if (action.status !== "pending") {
+      throw new Error(`Action ${actionId} has already been ${action.status}`);
+    }
+
+    const decided = {
+      status: decision.status,
+      decidedBy: decision.decidedBy,
+      decisionNote: decision.note ?? null,
+      decidedAt: new Date(),
+    };
+
+    const [result] = await this.db
+      .update(agentPendingActions)
+      .set(decided)
+      .where(and(eq(agentPendingActions.id, actionId), eq(agentPendingActions.status, "pending")));
+
+    if ((result as { affectedRows?: number }).affectedRows === 0) {
+      throw new Error(`Action ${actionId} has already been decided`);
+    }
+
+    return { ...action, ...decided };
+  }
+
+  /**
+   * Mark a decided action as answered: its tool result is in the conversation
+   */
+  async markAnswered(actionId: string): Promise<void> {
+    await this.db
+      .update(agentPendingActions)
+      .set({ answeredAt: new Date() })
+      .where(eq(agentPendingActions.id, actionId));
+  }
+
+  /**
+   * Get the actions of a conversation whose tool result is not in the
+   * conversation yet — still pending, or decided by a call still running
+   */
+  async getUnansweredActions(conversationId: string): Promise<AgentPendingAction[]> {
+    return await this.db
+      .select()
+      .from(agentPendingActions)
+      .where(and(eq(agentPendingActions.conversationId, conversationId), isNull(agentPendingActions.answeredAt)))
+      .orderBy(asc(agentPendingActions.createdAt), asc(agentPendingActions.id));
+  }
+
+  /**
+   * Claim the answered actions of a conversation for resuming the agent.
+   * Returns false when another decision claimed them first, so only one
+   * caller continues the conversation after a round's last decision.
+   */
+  async claimResume(conversationId: string): Promise<boolean> {
+    const [result] = await this.db
+      .update(agentPendingActions)
+      .set({ resumedAt: new Date() })
+      .where(and(
+        eq(agentPendingActions.conversationId, conversationId),
+        isNotNull(agentPendingActions.answeredAt),
+        isNull(agentPendingActions.resumedAt)
+      ));
+
+    return ((result as { affectedRows?: number }).affectedRows ?? 0) > 0;
+  }
+
+  /**
+   * Store the outcome of an approved action
+   */
+  async recordResult(
+    actionId: string,
+    result: { success: boolean; result?: unknown; error?: string }
+  ): Promise<void> {
+    await this.db
+      .update(agentPendingActions)
+      .set({ result })
+      .where(eq(agentPendingActions.id, actionId));
+  }
+}
@@ -0,0 +1,144 @@
+import type { LLMClient } from "./llm-client";
+import {
+  DEFAULT_CONTEXT_TOKENS,
+  estimateMessagesTokens,
+  type ConversationManager,
+} from "./conversation-manager";
+import type { AgentMessage } from "./schema";
+
+/**
+ * Conversation Compactor
+ *
+ * Keeps long conversations within the LLM context budget by folding the
+ * oldest turns into a running summary stored on the conversation. The
+ * summary is rewritten by the LLM each time, so it carries the project
+ * framing and key findings from the start of the session forward.
+ */
+
+export interface CompactorOptions {
+  /** Compact when the unsummarized history exceeds this many tokens (default: DEFAULT_CONTEXT_TOKENS) */
+  contextTokenBudget?: number;
+  /** Tokens of recent history to keep verbatim after compacting (default: a third of the budget) */
+  keepRecentTokens?: number;
+}
+
+export interface CompactionResult {
+  compacted: boolean;
+  summary?: string;
+  /** Number of messages folded into the summary */
+  summarizedMessages?: number;
+}
+
+// Per-message limit in the transcript sent for summarization
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 3000;
+
+export class ConversationCompactor {
+  private contextTokenBudget: number;
+  private keepRecentTokens: number;
+
+  constructor(
+    private conversationManager: ConversationManager,
+    private llm: LLMClient,
+    options: CompactorOptions = {}
+  ) {
+    this.contextTokenBudget = options.contextTokenBudget ?? DEFAULT_CONTEXT_TOKENS;
+    this.keepRecentTokens = options.keepRecentTokens ?? Math.floor(this.contextTokenBudget / 3);
+  }
+
+  /**
+   * Compact the conversation if its unsummarized history is over budget
+   */
+  async compactIfNeeded(conversationId: string): Promise<CompactionResult> {
+    const { messages } = await this.conversationManager.getUnsummarizedMessages(conversationId);
+    if (estimateMessagesTokens(messages) <= this.contextTokenBudget) {
+      return { compacted: false };
+    }
+    return await this.compact(conversationId);
+  }
+
+  /**
+   * Fold everything but the most recent turns into the summary. Turns are
+   * only split at user messages, so a tool call and its results are always
+   * summarized (or kept) together.
+   */
+  async compact(conversationId: string): Promise<CompactionResult> {
+    const conversation = await this.conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const { summary: previousSummary, messages: unsummarized } =
+      await this.conversationManager.getUnsummarizedMessages(conversationId);
+
+    // Keep the shortest tail of whole turns that fits keepRecentTokens
+    // (always at least the latest turn)
+    let cut = -1;
+    for (let index = unsummarized.length - 1; index > 0; index--) {
+      if (unsummarized[index].role !== "user") continue;
+      if (cut !== -1 && estimateMessagesTokens(unsummarized.slice(index)) > this.keepRecentTokens) break;
+      cut = index;
+    }
+    if (cut === -1) {
+      return { compacted: false };
+    }
+
+    const toSummarize = unsummarized.slice(0, cut);
+    const summary = await this.summarize(previousSummary, toSummarize);
+    await this.conversationManager.updateSummary(conversationId, summary, toSummarize[toSummarize.length - 1].id);
+
+    console.log(`[COMPACTOR] Folded ${toSummarize.length} message(s) of conversation ${conversationId} into its summary`);
+    return { compacted: true, summary, summarizedMessages: toSummarize.length };
+  }
+
+  /**
+   * Ask the LLM for an updated summary covering the previous one and the new messages
+   */
+  private async summarize(previousSummary: string | null, messages: AgentMessage[]): Promise<string> {
+    const transcript = messages.map(formatForTranscript).join("\n\n");
+
+    const response = await this.llm.invoke({
+      messages: [
+        {
+          role: "system",
+          content: `You maintain the running summary of a conversation between a user and a renewable energy due diligence agent. The summary replaces the older messages in the agent's context, so it must keep everything the agent needs to continue the work.
+
+Keep:
+- The project framing: which project, what the user is trying to achieve, scope and constraints they set
+- Key facts and figures found, with fact/document/red flag IDs where given
+- Conclusions, risks identified, and decisions made
+- Open questions, requested follow-ups and anything still pending
+
+Drop small talk and raw data that was not used. Write concise plain text or bullet points, no preamble.`,
+        },
+        {
+          role: "user",
+          content: `${previousSummary ? `CURRENT SUMMARY:\n${previousSummary}\n\n` : ""}NEW MESSAGES:\n${transcript}\n\nWrite the updated summary.`,
+        },
+      ],
+      maxTokens: 1500,
+    });
+
+    const content = response?.choices?.[0]?.message?.content;
+    const summary = typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content.map((part: any) => typeof part === "string" ? part : part?.text || "").join("")
+        : "";
+
+    if (!summary.trim()) {
+      throw new Error("Summarization returned no content");
+    }
+    return summary.trim();
+  }
+}
+
+function formatForTranscript(message: AgentMessage): string {
+  let text = message.content || "";
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    const calls = message.toolCalls.map((tc) => `${tc.name}(${JSON.stringify(tc.arguments)})`).join(", ");
+    text = `${text}${text ? "\n" : ""}[called ${calls}]`;
+  }
+  if (text.length > MAX_TRANSCRIPT_MESSAGE_CHARS) {
+    text = `${text.substring(0, MAX_TRANSCRIPT_MESSAGE_CHARS)}...[truncated]`;
+  }
+  return `${message.role.toUpperCase()}: ${text}`;
+}
@@ -0,0 +1,389 @@
+import type { ConversationManager } from "./conversation-manager";
+import type { AgentMessage } from "./schema";
+
+/**
+ * Conversation Exporter
+ *
+ * Renders a conversation (its active branch) as a readable transcript for
+ * clients and auditors: Markdown, JSON with a versioned schema, or a
+ * self-contained HTML page. Tool calls are shown with their arguments and
+ * results, and each answer lists the facts behind it.
+ */
+
+export type TranscriptFormat = "markdown" | "json" | "html";
+
+/** Bump when the JSON transcript shape changes */
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Parsed tool output; null when the call failed or has no recorded result */
+  result: unknown;
+  error?: string;
+  /** IDs of facts the call read or changed */
+  factIds: string[];
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string | null;
+  model?: string;
+  toolCalls: TranscriptToolCall[];
+  /** Facts retrieved or changed by successful tool calls since the user's question */
+  citedFactIds: string[];
+}
+
+export interface ConversationTranscript {
+  schema: "oe-agent-conversation-transcript";
+  schemaVersion: typeof TRANSCRIPT_SCHEMA_VERSION;
+  exportedAt: string;
+  conversation: {
+    id: string;
+    title: string | null;
+    userId: number;
+    projectId: number | null;
+    status: string | null;
+    summary: string | null;
+    createdAt: string | null;
+    updatedAt: string | null;
+  };
+  messages: TranscriptMessage[];
+}
+
+export interface ExportedConversation {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json",
+  html: "text/html; charset=utf-8",
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+export class ConversationExporter {
+  constructor(private conversationManager: ConversationManager) {}
+
+  /**
+   * Export a conversation as a file
+   */
+  async exportConversation(conversationId: string, format: TranscriptFormat): Promise<ExportedConversation> {
+    const transcript = await this.buildTranscript(conversationId);
+
+    const content = format === "json"
+      ? JSON.stringify(transcript, null, 2)
+      : format === "html"
+        ? renderHtml(transcript)
+        : renderMarkdown(transcript);
+
+    return {
+      filename: `conversation-${conversationId}.${EXTENSIONS[format]}`,
+      mimeType: MIME_TYPES[format],
+      content,
+    };
+  }
+
+  /**
+   * Build the transcript of the active branch. Tool messages are folded into
+   * the tool calls they answer, so only user and assistant messages remain.
+   */
+  async buildTranscript(conversationId: string): Promise<ConversationTranscript> {
+    const conversation = await this.conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const branch = await this.conversationManager.getActiveBranch(conversationId);
+
+    const toolResults = new Map<string, AgentMessage>();
+    for (const message of branch) {
+      if (message.role === "tool" && message.toolCallId) {
+        toolResults.set(message.toolCallId, message);
+      }
+    }
+
+    const messages: TranscriptMessage[] = [];
+    let turnFactIds = new Set<string>();
+
+    for (const message of branch) {
+      if (message.role === "user") {
+        turnFactIds = new Set();
+        messages.push({
+          id: message.id,
+          role: "user",
+          content: message.content || "",
+          createdAt: toIso(message.createdAt),
+          toolCalls: [],
+          citedFactIds: [],
+        });
+      } else if (message.role === "assistant") {
+        const toolCalls = (message.toolCalls || []).map((call) =>
+          toTranscriptToolCall(call, toolResults.get(call.id))
+        );
+        toolCalls
+          .filter((call) => !call.error)
+          .forEach((call) => call.factIds.forEach((id) => turnFactIds.add(id)));
+
+        messages.push({
+          id: message.id,
+          role: "assistant",
+          content: message.content || "",
+          createdAt: toIso(message.createdAt),
+          model: message.metadata?.model,
+          toolCalls,
+          citedFactIds: Array.from(turnFactIds),
+        });
+      }
+    }
+
+    return {
+      schema: "oe-agent-conversation-transcript",
+      schemaVersion: TRANSCRIPT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        userId: conversation.userId,
+        projectId: conversation.projectId,
+        status: conversation.status,
+        summary: conversation.summary,
+        createdAt: toIso(conversation.createdAt),
+        updatedAt: toIso(conversation.updatedAt),
+      },
+      messages,
+    };
+  }
+}
+
+// ============================================================
+// TRANSCRIPT MODEL
+// ============================================================
+
+function toIso(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+function toTranscriptToolCall(
+  call: { id: string; name: string; arguments: Record<string, unknown> },
+  response: AgentMessage | undefined
+): TranscriptToolCall {
+  let result: unknown = null;
+  let error: string | undefined;
+
+  if (!response) {
+    error = "No result recorded";
+  } else {
+    try {
+      result = JSON.parse(response.content || "null");
+    } catch {
+      result = response.content;
+    }
+    if (result && typeof result === "object" && !Array.isArray(result) && "error" in result) {
+      error = String((result as { error: unknown }).error);
+      result = null;
+    }
+  }
+
+  const factIds = new Set<string>();
+  collectFactIds(call.arguments, factIds);
+  collectFactIds(result, factIds);
+
+  return {
+    id: call.id,
+    name: call.name,
+    arguments: call.arguments || {},
+    result,
+    error,
+    factIds: Array.from(factIds),
+  };
+}
+
+/**
+ * Collect fact IDs from tool arguments and results: `factId`/`factIds`/
+ * `triggerFactId` values, and the `id` of objects in a `facts` array
+ */
+function collectFactIds(value: unknown, ids: Set<string>, depth = 0): void {
+  if (depth > 6 || value === null || typeof value !== "object") return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFactIds(item, ids, depth + 1));
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if ((key === "factId" || key === "triggerFactId") && (typeof child === "string" || typeof child === "number")) {
+      ids.add(String(child));
+    } else if (key === "factIds" && typeof child === "string") {
+      child.split(",").map((id) => id.trim()).filter(Boolean).forEach((id) => ids.add(id));
+    } else if (key === "facts" && Array.isArray(child)) {
+      for (const fact of child) {
+        const id = (fact as { id?: unknown } | null)?.id;
+        if (typeof id === "string" || typeof id === "number") ids.add(String(id));
+      }
+    }
+    collectFactIds(child, ids, depth + 1);
+  }
+}
+
+// ============================================================
+// MARKDOWN
+// ============================================================
+
+/**
+ * Code fence longer than any backtick run in the text
+ */
+function fenced(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+const pretty = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+const roleLabel = (role: TranscriptMessage["role"]): string =>
+  role === "user" ? "User" : "Assistant";
+
+function renderMarkdown(transcript: ConversationTranscript): string {
+  const { conversation } = transcript;
+  const lines: string[] = [
+    `# ${conversation.title || "Conversation"}`,
+    "",
+    `- Conversation: \`${conversation.id}\``,
+    `- Project: ${conversation.projectId ?? "none (global)"}`,
+    `- Started: ${conversation.createdAt ?? "unknown"}`,
+    `- Exported: ${transcript.exportedAt}`,
+    "",
+  ];
+
+  if (conversation.summary) {
+    lines.push("## Summary of earlier discussion", "", conversation.summary, "");
+  }
+
+  lines.push("---", "");
+
+  for (const message of transcript.messages) {
+    lines.push(`### ${roleLabel(message.role)}${message.createdAt ? ` — ${message.createdAt}` : ""}`, "");
+    if (message.content) {
+      lines.push(message.content, "");
+    }
+
+    for (const call of message.toolCalls) {
+      lines.push(
+        "<details>",
+        `<summary>Tool call: ${call.name}${call.error ? " (failed)" : ""}</summary>`,
+        "",
+        "**Arguments**",
+        "",
+        fenced(pretty(call.arguments), "json"),
+        "",
+        call.error ? `**Error:** ${call.error}` : "**Result**",
+        "",
+      );
+      if (!call.error) {
+        lines.push(fenced(pretty(call.result), "json"), "");
+      }
+      lines.push("</details>", "");
+    }
+
+    if (message.toolCalls.length === 0 && message.citedFactIds.length > 0) {
+      lines.push(`_Cited facts: ${message.citedFactIds.map((id) => `\`${id}\``).join(", ")}_`, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================
+// HTML
+// ============================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; max-width: 920px; margin: 2rem auto; padding: 0 1rem; color: #1f2933; line-height: 1.5; }
+header { border-bottom: 1px solid #d9e2ec; margin-bottom: 1.5rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.9rem; }
+dt { font-weight: 600; }
+.summary { background: #f0f4f8; padding: 0.75rem 1rem; border-radius: 6px; white-space: pre-wrap; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 6px; }
+.user { background: #e6f0ff; }
+.assistant { background: #f7f7f7; }
+.meta { font-size: 0.8rem; color: #627d98; margin-bottom: 0.5rem; }
+.content { white-space: pre-wrap; }
+details { margin: 0.5rem 0; border: 1px solid #d9e2ec; border-radius: 4px; padding: 0.25rem 0.75rem; background: #fff; }
+summary { cursor: pointer; font-family: monospace; }
+.failed summary { color: #ab091e; }
+pre { background: #102a43; color: #f0f4f8; padding: 0.75rem; border-radius: 4px; overflow-x: auto; font-size: 0.8rem; }
+.facts { font-size: 0.85rem; color: #486581; }
+`;
+
+function renderHtml(transcript: ConversationTranscript): string {
+  const { conversation } = transcript;
+  const title = escapeHtml(conversation.title || "Conversation");
+
+  const messages = transcript.messages.map((message) => {
+    const toolCalls = message.toolCalls.map((call) => `
+      <details${call.error ? ' class="failed"' : ""}>
+        <summary>${escapeHtml(call.name)}${call.error ? " (failed)" : ""}</summary>
+        <h4>Arguments</h4>
+        <pre>${escapeHtml(pretty(call.arguments))}</pre>
+        ${call.error
+          ? `<p><strong>Error:</strong> ${escapeHtml(call.error)}</p>`
+          : `<h4>Result</h4>\n        <pre>${escapeHtml(pretty(call.result))}</pre>`}
+      </details>`).join("");
+
+    const facts = message.toolCalls.length === 0 && message.citedFactIds.length > 0
+      ? `\n      <p class="facts">Cited facts: ${message.citedFactIds.map((id) => `<code>${escapeHtml(id)}</code>`).join(", ")}</p>`
+      : "";
+
+    return `
+    <section class="message ${message.role}" id="message-${escapeHtml(message.id)}">
+      <div class="meta">${roleLabel(message.role)}${message.createdAt ? ` · <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(message.createdAt)}</time>` : ""}</div>
+      ${message.content ? `<div class="content">${escapeHtml(message.content)}</div>` : ""}${toolCalls}${facts}
+    </section>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>${HTML_STYLE}</style>
+</head>
+<body>
+  <header>
+    <h1>${title}</h1>
+    <dl>
+      <dt>Conversation</dt><dd><code>${escapeHtml(conversation.id)}</code></dd>
+      <dt>Project</dt><dd>${conversation.projectId ?? "none (global)"}</dd>
+      <dt>Started</dt><dd>${escapeHtml(conversation.createdAt ?? "unknown")}</dd>
+      <dt>Exported</dt><dd>${escapeHtml(transcript.exportedAt)}</dd>
+    </dl>
+  </header>
+  ${conversation.summary ? `<h2>Summary of earlier discussion</h2>\n  <div class="summary">${escapeHtml(conversation.summary)}</div>` : ""}
+  <main>${messages}
+  </main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { ConversationManager } from "./conversation-manager";
+import { TRANSCRIPT_SCHEMA_VERSION } from "./conversation-exporter";
+import type { AgentConversation } from "./schema";
+
+/**
+ * Conversation Importer
+ *
+ * Recreates a conversation from a JSON transcript (see ConversationExporter)
+ * for a target user and project — used when projects move between
+ * deployments and to seed demo environments. Conversation and message IDs
+ * are new; tool call IDs are kept so every tool result still answers its
+ * call. The running summary is not imported: the compactor rebuilds it when
+ * the history is over budget.
+ */
+
+export interface ImportConversationParams {
+  /** Transcript object, or its JSON text */
+  transcript: unknown;
+  userId: number;
+  projectId?: number;
+  /** Title for the new conversation (default: the transcript's title) */
+  title?: string;
+}
+
+export interface ImportedConversation {
+  conversation: AgentConversation;
+  /** Transcript message ID → new message ID (user and assistant messages) */
+  messageIds: Record<string, string>;
+  /** Messages created, including tool results */
+  messageCount: number;
+}
+
+const transcriptToolCallSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).default({}),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+const transcriptMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  createdAt: z.string().nullable().optional(),
+  model: z.string().optional(),
+  toolCalls: z.array(transcriptToolCallSchema).default([]),
+});
+
+const transcriptSchema = z.object({
+  schema: z.literal("oe-agent-conversation-transcript"),
+  schemaVersion: z.number().int(),
+  conversation: z.object({
+    title: z.string().nullable().optional(),
+  }),
+  messages: z.array(transcriptMessageSchema),
+});
+
+export class ConversationImporter {
+  constructor(private conversationManager: ConversationManager) {}
+
+  /**
+   * Create a conversation from a transcript
+   */
+  async importConversation(params: ImportConversationParams): Promise<ImportedConversation> {
+    const transcript = parseTranscript(params.transcript);
+
+    const conversation = await this.conversationManager.createConversation({
+      userId: params.userId,
+      projectId: params.projectId,
+      title: params.title || transcript.conversation.title || undefined,
+    });
+
+    const messageIds: Record<string, string> = {};
+    let messageCount = 0;
+    let parentMessageId: string | null = null;
+
+    for (const message of transcript.messages) {
+      const createdAt = parseTimestamp(message.createdAt);
+
+      const created = await this.conversationManager.addMessage({
+        conversationId: conversation.id,
+        role: message.role,
+        content: message.content,
+        authorUserId: message.role === "user" ? params.userId : undefined,
+        toolCalls: message.toolCalls.length > 0
+          ? message.toolCalls.map((call) => ({ id: call.id, name: call.name, arguments: call.arguments }))
+          : undefined,
+        parentMessageId,
+        createdAt,
+        metadata: message.model ? { model: message.model } : undefined,
+      });
+      messageIds[message.id] = created.id;
+      parentMessageId = created.id;
+      messageCount++;
+
+      // Transcripts fold tool results into the calls; store them as tool messages again
+      for (const call of message.toolCalls) {
+        const toolMessage = await this.conversationManager.addMessage({
+          conversationId: conversation.id,
+          role: "tool",
+          content: call.error !== undefined
+            ? JSON.stringify({ error: call.error })
+            : JSON.stringify(call.result ?? null),
+          toolCallId: call.id,
+          parentMessageId,
+          createdAt,
+        });
+        parentMessageId = toolMessage.id;
+        messageCount++;
+      }
+    }
+
+    console.log(`[IMPORTER] Imported ${messageCount} message(s) into conversation ${conversation.id}`);
+
+    const imported = await this.conversationManager.getConversation(conversation.id);
+    return { conversation: imported || conversation, messageIds, messageCount };
+  }
+}
+
+/**
+ * Parse and check a transcript. Tool call IDs must be unique, since tool
+ * results are matched to their calls by ID.
+ */
+function parseTranscript(input: unknown): z.output<typeof transcriptSchema> {
+  let value = input;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error("Transcript is not valid JSON");
+    }
+  }
+
+  const parsed = transcriptSchema.safeParse(value);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.map(String).join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid transcript: ${details.join("; ")}`);
+  }
+
+  const transcript = parsed.data;
+  if (transcript.schemaVersion > TRANSCRIPT_SCHEMA_VERSION) {
+    throw new Error(
+      `Transcript schema version ${transcript.schemaVersion} is newer than the supported version ${TRANSCRIPT_SCHEMA_VERSION}`
+    );
+  }
+
+  const toolCallIds = new Set<string>();
+  for (const message of transcript.messages) {
+    for (const call of message.toolCalls) {
+      if (toolCallIds.has(call.id)) {
+        throw new Error(`Invalid transcript: duplicate tool call ID ${call.id}`);
+      }
+      toolCallIds.add(call.id);
+    }
+  }
+
+  return transcript;
+}
+
+function parseTimestamp(value: string | null | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
@@ -1,14 +1,25 @@
 import { v4 as uuidv4 } from "uuid";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, ne, desc, inArray, sql } from "drizzle-orm";
 import type { MySql2Database } from "drizzle-orm/mysql2";
 import {
   agentConversations,
   agentMessages,
+  agentConversationShares,
   type AgentConversation,
+  type AgentConversationShare,
   type AgentMessage,
   type InsertAgentConversation,
   type InsertAgentMessage,
 } from "./schema";
+import {
+  AccessDeniedError,
+  ownerOnly,
+  toConversationResource,
+  type AccessAction,
+  type AccessContext,
+  type AuthorizeFn,
+  type CanAccessProjectFn,
+} from "./access-control";
 
 /**
  * Conversation Manager
@@ -41,16 +52,90 @@ export interface AddMessageParams {
     result?: unknown;
   }>;
   toolCallId?: string;
+  /** User who wrote a user message */
+  authorUserId?: number;
+  /**
+   * Message this one answers or follows. Defaults to the conversation's
+   * active leaf; pass an earlier message to start a new branch, or null
+   * to start one at the root.
+   */
+  parentMessageId?: string | null;
+  /** Original timestamp, for imported history (default: now) */
+  createdAt?: Date;
   metadata?: {
     tokens?: number;
     model?: string;
     latency?: number;
     error?: string;
+    knowledgeInjected?: Array<{ id: string; topic: string; score: number }>; // Knowledge base entries in the system prompt
   };
 }
 
+export interface ConversationManagerOptions {
+  /** Access policy for conversations (default: owner only); shares grant access on top of it */
+  authorize?: AuthorizeFn;
+  /** Decides who is on a project team for project-wide shares (default: everyone) */
+  canAccessProject?: CanAccessProjectFn;
+}
+
+/**
+ * - read: view the conversation
+ * - continue: view it and send messages
+ */
+export type SharePermission = "read" | "continue";
+
+/**
+ * Who a conversation is shared with: one user, or everyone who can read the project
+ */
+export type ShareTarget = { userId: number; projectId?: undefined } | { projectId: number; userId?: undefined };
+
+export type ShareConversationParams = ShareTarget & {
+  permission: SharePermission;
+  sharedBy: number;
+};
+
+export interface LLMContextOptions {
+  /** Token budget for the history (default: DEFAULT_CONTEXT_TOKENS) */
+  maxTokens?: number;
+  /** Tool results from earlier turns are truncated to this many tokens (default: DEFAULT_TOOL_RESULT_TOKENS) */
+  maxToolResultTokens?: number;
+}
+
+/** Default token budget for the conversation history sent to the LLM */
+export const DEFAULT_CONTEXT_TOKENS = 24000;
+
+/** Default size limit for tool results from earlier turns */
+export const DEFAULT_TOOL_RESULT_TOKENS = 1500;
+
+// Rough average for English text and JSON; close enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  return Math.ceil((text?.length || 0) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the number of tokens in LLM messages, tool calls included
+ */
+export function estimateMessagesTokens(messages: Array<Record<string, any>>): number {
+  return messages.reduce((sum, message) => {
+    const content = typeof message.content === "string" ? message.content : JSON.stringify(message.content ?? "");
+    const toolCalls = message.tool_calls ?? message.toolCalls;
+    return sum + estimateTokens(content) + (toolCalls ? estimateTokens(JSON.stringify(toolCalls)) : 0);
+  }, 0);
+}
+
 export class ConversationManager {
-  constructor(private db: MySql2Database<any>) {}
+  private authorize: AuthorizeFn;
+  private canAccessProject?: CanAccessProjectFn;
+
+  constructor(private db: MySql2Database<any>, options: ConversationManagerOptions = {}) {
+    this.authorize = options.authorize ?? ownerOnly;
+    this.canAccessProject = options.canAccessProject;
+  }
 
   /**
    * Create a new conversation
@@ -62,6 +147,7 @@ export class ConversationManager {
       userId: params.userId,
       projectId: params.projectId ?? null,
       title: params.title || `Conversation ${new Date().toISOString()}`,
+      titleSource: params.title ? "user" : "default",
       context: params.context || {},
       status: "active",
     };
@@ -93,17 +179,44 @@ export class ConversationManager {
   }
 
   /**
-   * Get all conversations for a user and project
+   * Get a conversation after checking that the caller may perform `action`
+   * on it. Throws AccessDeniedError if not.
+   */
+  async authorizeConversation(
+    ctx: AccessContext,
+    conversationId: string,
+    action: AccessAction
+  ): Promise<AgentConversation> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const resource = toConversationResource(conversation);
+    if (!(await this.authorize(ctx, resource, action)) && !(await this.shareAllows(ctx.user.id, conversation, action))) {
+      console.warn(`[ACCESS] Denied ${action} on conversation ${conversationId} to user ${ctx.user.id}`);
+      throw new AccessDeniedError(resource, action, ctx.user.id);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Get all conversations for a user and project, optionally only those with a topic tag
    */
   async getConversations(
     userId: number,
     projectId?: number,
-    limit: number = 50
+    limit: number = 50,
+    tag?: string
   ): Promise<AgentConversation[]> {
     const conditions = [eq(agentConversations.userId, userId)];
     if (projectId !== undefined) {
       conditions.push(eq(agentConversations.projectId, projectId));
     }
+    if (tag) {
+      conditions.push(sql`JSON_CONTAINS(${agentConversations.tags}, ${JSON.stringify(tag)})`);
+    }
     return await this.db
       .select()
       .from(agentConversations)
@@ -117,10 +230,13 @@ export class ConversationManager {
    */
   async addMessage(params: AddMessageParams): Promise<AgentMessage> {
     const messageId = uuidv4();
+    const parentMessageId = params.parentMessageId !== undefined
+      ? params.parentMessageId
+      : (await this.getConversation(params.conversationId))?.activeLeafMessageId ?? null;
     // IMPORTANT: Use null (not undefined) for optional fields.
     // mysql2 converts undefined to empty string '', which breaks JSON columns
     // and nullable varchar columns. null is properly sent as SQL NULL.
-    // Do NOT include createdAt — let the DB defaultNow() handle it.
+    // Do NOT include createdAt unless given — let the DB defaultNow() handle it.
     const message: InsertAgentMessage = {
       id: messageId,
       conversationId: params.conversationId,
@@ -128,15 +244,21 @@ export class ConversationManager {
       content: params.content,
       toolCalls: params.toolCalls ?? null,
       toolCallId: params.toolCallId ?? null,
+      authorUserId: params.authorUserId ?? null,
+      toolCallText: params.toolCalls && params.toolCalls.length > 0
+        ? toolCallSearchText(params.toolCalls)
+        : null,
+      parentMessageId,
       metadata: params.metadata ?? null,
+      ...(params.createdAt ? { createdAt: params.createdAt } : {}),
     };
 
     await this.db.insert(agentMessages).values(message);
 
-    // Update conversation's updatedAt timestamp
+    // The new message becomes the end of the active branch
     await this.db
       .update(agentConversations)
-      .set({ updatedAt: new Date() })
+      .set({ updatedAt: new Date(), activeLeafMessageId: messageId })
       .where(eq(agentConversations.id, params.conversationId));
 
     const [created] = await this.db
@@ -183,6 +305,139 @@ export class ConversationManager {
     return messages.reverse(); // Return in chronological order
   }
 
+  /**
+   * Get a single message
+   */
+  async getMessage(messageId: string): Promise<AgentMessage | null> {
+    const [message] = await this.db
+      .select()
+      .from(agentMessages)
+      .where(eq(agentMessages.id, messageId));
+
+    return message || null;
+  }
+
+  // ============================================================
+  // BRANCHES
+  // Messages form a tree through parentMessageId. Editing a message or
+  // regenerating an answer adds a sibling branch; the conversation's
+  // activeLeafMessageId selects the branch the user sees and the LLM gets.
+  // ============================================================
+
+  /**
+   * Get the messages of the active branch, root first
+   */
+  async getActiveBranch(conversationId: string): Promise<AgentMessage[]> {
+    const conversation = await this.getConversation(conversationId);
+    const messages = await this.getAllMessages(conversationId);
+    return branchEndingAt(messages, conversation?.activeLeafMessageId ?? null);
+  }
+
+  /**
+   * Get the alternatives for each message of the active branch that has
+   * siblings: message ID -> IDs of all its siblings (itself included), oldest first
+   */
+  async getBranchAlternatives(conversationId: string): Promise<Record<string, string[]>> {
+    const conversation = await this.getConversation(conversationId);
+    const messages = await this.getAllMessages(conversationId);
+    const branch = branchEndingAt(messages, conversation?.activeLeafMessageId ?? null);
+
+    const alternatives: Record<string, string[]> = {};
+    for (const message of branch) {
+      const siblings = messages.filter((m) => m.parentMessageId === message.parentMessageId);
+      if (siblings.length > 1) {
+        alternatives[message.id] = siblings.map((m) => m.id);
+      }
+    }
+    return alternatives;
+  }
+
+  /**
+   * Make the branch through `messageId` active. The branch continues to
+   * the most recent leaf below the message.
+   */
+  async switchBranch(conversationId: string, messageId: string): Promise<string> {
+    const messages = await this.getAllMessages(conversationId);
+    if (!messages.some((m) => m.id === messageId)) {
+      throw new Error(`Message ${messageId} not found in conversation ${conversationId}`);
+    }
+
+    let leafId = messageId;
+    for (;;) {
+      const children = messages.filter((m) => m.parentMessageId === leafId);
+      if (children.length === 0) break;
+      leafId = children[children.length - 1].id;
+    }
+
+    await this.setActiveLeaf(conversationId, leafId);
+    return leafId;
+  }
+
+  /**
+   * Set the end of the active branch (new messages are added below it)
+   */
+  async setActiveLeaf(conversationId: string, messageId: string | null): Promise<void> {
+    await this.db
+      .update(agentConversations)
+      .set({ activeLeafMessageId: messageId })
+      .where(eq(agentConversations.id, conversationId));
+  }
+
+  /**
+   * Get the active branch messages not yet folded into the conversation
+   * summary, oldest first. The summary only applies when the branch runs
+   * through the last message it covers; otherwise it is returned as null
+   * and the whole branch is unsummarized.
+   */
+  async getUnsummarizedMessages(
+    conversationId: string
+  ): Promise<{ summary: string | null; messages: AgentMessage[] }> {
+    const conversation = await this.getConversation(conversationId);
+    const messages = await this.getActiveBranch(conversationId);
+
+    const cursor = conversation?.summaryThroughMessageId;
+    if (!cursor) {
+      return { summary: conversation?.summary || null, messages };
+    }
+
+    const cursorIndex = messages.findIndex((m) => m.id === cursor);
+    return cursorIndex === -1
+      ? { summary: null, messages }
+      : { summary: conversation?.summary || null, messages: messages.slice(cursorIndex + 1) };
+  }
+
+  private async getAllMessages(conversationId: string): Promise<AgentMessage[]> {
+    return await this.db
+      .select()
+      .from(agentMessages)
+      .where(eq(agentMessages.conversationId, conversationId))
+      .orderBy(agentMessages.createdAt, agentMessages.id);
+  }
+
+  /**
+   * Store the running summary of a conversation. `throughMessageId` marks the
+   * last message the summary covers; omit it to edit the text only.
+   */
+  async updateSummary(
+    conversationId: string,
+    summary: string,
+    throughMessageId?: string
+  ): Promise<void> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    await this.db
+      .update(agentConversations)
+      .set({
+        summary,
+        summaryUpdatedAt: new Date(),
+        ...(throughMessageId ? { summaryThroughMessageId: throughMessageId } : {}),
+      })
+      .where(eq(agentConversations.id, conversationId));
+  }
+
   /**
    * Build conversation history for LLM context
    * 
@@ -191,88 +446,43 @@ export class ConversationManager {
    * OpenAI requires that:
    * 1. Messages with role 'tool' must follow an assistant message with tool_calls
    * 2. Tool messages must include tool_call_id matching the assistant's tool_calls
+   *
+   * The history is the conversation summary (as a system message) followed by
+   * the messages it doesn't cover. Tool results from before the latest user
+   * message are truncated, and if the history is still over `maxTokens` the
+   * oldest turns are dropped whole, so tool call sequences stay intact.
    */
   async buildLLMContext(
     conversationId: string,
-    maxMessages: number = 20
+    options: LLMContextOptions = {}
   ): Promise<Array<Record<string, any>>> {
-    const messages = await this.getRecentMessages(conversationId, maxMessages);
-
-    // Validate message sequence to ensure complete tool call sequences
-    // OpenAI requires:
-    // 1. Tool messages must follow an assistant message with tool_calls
-    // 2. ALL tool_call_ids in an assistant message must have corresponding tool responses
-    
-    // First pass: identify which assistant messages have complete tool responses
-    const assistantToolCallMap = new Map<string, Set<string>>(); // msg.id -> Set of tool_call_ids
-    const toolResponseMap = new Map<string, Set<string>>(); // assistant msg.id -> Set of responded tool_call_ids
-    
-    let currentAssistantId: string | null = null;
-    
-    for (const msg of messages) {
-      if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
-        currentAssistantId = msg.id;
-        const toolCallIds = new Set(msg.toolCalls.map((tc: any) => tc.id));
-        assistantToolCallMap.set(msg.id, toolCallIds);
-        toolResponseMap.set(msg.id, new Set());
-      } else if (msg.role === 'tool' && currentAssistantId) {
-        const toolCallId = (msg as any).toolCallId || msg.toolCalls?.[0]?.id;
-        if (toolCallId) {
-          toolResponseMap.get(currentAssistantId)?.add(toolCallId);
-        }
-      } else if (msg.role === 'user' || msg.role === 'system' || (msg.role === 'assistant' && (!msg.toolCalls || msg.toolCalls.length === 0))) {
-        currentAssistantId = null;
-      }
-    }
-    
-    // Second pass: build validated message list, skipping incomplete tool call sequences
-    const validatedMessages: typeof messages = [];
-    let skipUntilNextUserMessage = false;
-    currentAssistantId = null;
-    
-    for (const msg of messages) {
-      if (msg.role === 'user' || msg.role === 'system') {
-        skipUntilNextUserMessage = false;
-        currentAssistantId = null;
-        validatedMessages.push(msg);
-      } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
-        // Check if this assistant message has all its tool responses
-        const expectedToolCalls = assistantToolCallMap.get(msg.id);
-        const actualResponses = toolResponseMap.get(msg.id);
-        
-        const hasAllResponses = expectedToolCalls && actualResponses && 
-          expectedToolCalls.size === actualResponses.size &&
-          Array.from(expectedToolCalls).every(id => actualResponses.has(id));
-        
-        if (hasAllResponses) {
-          currentAssistantId = msg.id;
-          skipUntilNextUserMessage = false;
-          validatedMessages.push(msg);
-        } else {
-          console.warn(`[VALIDATION] Skipping assistant message with incomplete tool responses: ${msg.id}`);
-          console.warn(`[VALIDATION] Expected ${expectedToolCalls?.size} responses, got ${actualResponses?.size}`);
-          skipUntilNextUserMessage = true;
-          currentAssistantId = null;
-        }
-      } else if (msg.role === 'tool') {
-        // Only include tool messages if we're not skipping and they belong to current assistant
-        if (!skipUntilNextUserMessage && currentAssistantId) {
-          validatedMessages.push(msg);
-        } else {
-          console.warn(`[VALIDATION] Skipping tool message (orphaned or incomplete sequence): ${msg.id}`);
-        }
-      } else {
-        // Regular assistant messages without tool_calls
-        if (!skipUntilNextUserMessage) {
-          validatedMessages.push(msg);
-        }
-        currentAssistantId = null;
-      }
-    }
+    const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+    const maxToolResultChars = (options.maxToolResultTokens ?? DEFAULT_TOOL_RESULT_TOKENS) * CHARS_PER_TOKEN;
+
+    const unsummarized = await this.getUnsummarizedMessages(conversationId);
+    const messages = validateToolSequences(unsummarized.messages);
+
+    // Tool results of the current turn stay whole; older ones are cut down
+    let lastUserIndex = -1;
+    messages.forEach((msg, index) => {
+      if (msg.role === "user") lastUserIndex = index;
+    });
 
-    return validatedMessages.map((msg) => {
+    // When several people wrote in the conversation, tell the LLM who asked what
+    const authors = new Set(
+      messages.filter((msg) => msg.role === "user" && msg.authorUserId != null).map((msg) => msg.authorUserId)
+    );
+    const labelAuthors = authors.size > 1;
+
+    const llmMessages = messages.map((msg, index) => {
       // IMPORTANT: Ensure content is never null - OpenAI requires non-null content for tool messages
-      const content = msg.content != null ? msg.content : "";
+      let content = msg.content != null ? msg.content : "";
+      if (msg.role === "tool" && index < lastUserIndex && content.length > maxToolResultChars) {
+        content = `${content.substring(0, maxToolResultChars)}\n...[truncated ${content.length - maxToolResultChars} characters of tool output]`;
+      }
+      if (msg.role === "user" && labelAuthors && msg.authorUserId != null) {
+        content = `[User ${msg.authorUserId}] ${content}`;
+      }
       
       const llmMessage: Record<string, any> = {
         role: msg.role,
@@ -307,6 +517,27 @@ export class ConversationManager {
 
       return llmMessage;
     });
+
+    // Drop the oldest turns (always starting at a user message) until the
+    // history fits, keeping at least the latest turn
+    const summaryMessage = unsummarized.summary
+      ? { role: "system", content: `Summary of the earlier conversation:\n${unsummarized.summary}` }
+      : null;
+    let total = estimateMessagesTokens(summaryMessage ? [summaryMessage, ...llmMessages] : llmMessages);
+    let start = 0;
+    while (total > maxTokens) {
+      let next = start + 1;
+      while (next < llmMessages.length && llmMessages[next].role !== "user") next++;
+      if (next >= llmMessages.length) break;
+      total -= estimateMessagesTokens(llmMessages.slice(start, next));
+      start = next;
+    }
+    if (start > 0) {
+      console.warn(`[CONTEXT] Dropped ${start} message(s) from conversation ${conversationId} to fit ${maxTokens} tokens`);
+    }
+
+    const history = llmMessages.slice(start);
+    return summaryMessage ? [summaryMessage, ...history] : history;
   }
 
   /**
@@ -336,6 +567,178 @@ export class ConversationManager {
       .where(eq(agentConversations.id, conversationId));
   }
 
+  // ============================================================
+  // SHARING
+  // ============================================================
+
+  /**
+   * Share a conversation with a user or a project team. Sharing again with
+   * the same target updates the permission.
+   */
+  async shareConversation(conversationId: string, params: ShareConversationParams): Promise<AgentConversationShare> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    if (params.userId === conversation.userId) {
+      throw new Error("A conversation can't be shared with its owner");
+    }
+
+    const [existing] = await this.db
+      .select()
+      .from(agentConversationShares)
+      .where(and(eq(agentConversationShares.conversationId, conversationId), shareTargetCondition(params)));
+
+    const shareId = existing?.id ?? uuidv4();
+    if (existing) {
+      await this.db
+        .update(agentConversationShares)
+        .set({ permission: params.permission, sharedBy: params.sharedBy })
+        .where(eq(agentConversationShares.id, shareId));
+    } else {
+      await this.db.insert(agentConversationShares).values({
+        id: shareId,
+        conversationId,
+        sharedWithUserId: params.userId ?? null,
+        sharedWithProjectId: params.projectId ?? null,
+        permission: params.permission,
+        sharedBy: params.sharedBy,
+      });
+    }
+
+    const [share] = await this.db
+      .select()
+      .from(agentConversationShares)
+      .where(eq(agentConversationShares.id, shareId));
+
+    if (!share) {
+      throw new Error("Failed to share conversation");
+    }
+
+    return share;
+  }
+
+  /**
+   * Stop sharing a conversation with a user or a project team
+   */
+  async unshareConversation(conversationId: string, target: ShareTarget): Promise<void> {
+    await this.db
+      .delete(agentConversationShares)
+      .where(and(eq(agentConversationShares.conversationId, conversationId), shareTargetCondition(target)));
+  }
+
+  /**
+   * Get the shares of a conversation
+   */
+  async getShares(conversationId: string): Promise<AgentConversationShare[]> {
+    return await this.db
+      .select()
+      .from(agentConversationShares)
+      .where(eq(agentConversationShares.conversationId, conversationId))
+      .orderBy(agentConversationShares.createdAt);
+  }
+
+  /**
+   * Get the conversations other users shared with a user. Project-wide
+   * shares are included for `projectId` when given (and the user can read
+   * the project), since project teams can't be listed from here.
+   */
+  async getSharedConversations(
+    userId: number,
+    projectId?: number,
+    limit: number = 50,
+    tag?: string
+  ): Promise<AgentConversation[]> {
+    const shareConditions = [eq(agentConversationShares.sharedWithUserId, userId)];
+    if (projectId !== undefined && await this.canReadProject(userId, projectId)) {
+      shareConditions.push(eq(agentConversationShares.sharedWithProjectId, projectId));
+    }
+
+    const sharedIds = this.db
+      .select({ conversationId: agentConversationShares.conversationId })
+      .from(agentConversationShares)
+      .where(or(...shareConditions));
+
+    const conditions = [
+      inArray(agentConversations.id, sharedIds),
+      ne(agentConversations.userId, userId),
+    ];
+    if (projectId !== undefined) {
+      conditions.push(eq(agentConversations.projectId, projectId));
+    }
+    if (tag) {
+      conditions.push(sql`JSON_CONTAINS(${agentConversations.tags}, ${JSON.stringify(tag)})`);
+    }
+
+    return await this.db
+      .select()
+      .from(agentConversations)
+      .where(and(...conditions))
+      .orderBy(desc(agentConversations.updatedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Whether a share gives the user `action` on the conversation. Shares never
+   * allow managing (rename, archive, delete) a conversation.
+   */
+  private async shareAllows(userId: number, conversation: AgentConversation, action: AccessAction): Promise<boolean> {
+    if (action === "manage") return false;
+
+    const shares = await this.getShares(conversation.id);
+    for (const share of shares) {
+      if (action === "write" && share.permission !== "continue") continue;
+      if (share.sharedWithUserId === userId) return true;
+      if (share.sharedWithProjectId != null && await this.canReadProject(userId, share.sharedWithProjectId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async canReadProject(userId: number, projectId: number): Promise<boolean> {
+    return this.canAccessProject ? await this.canAccessProject(userId, projectId, "read") : true;
+  }
+
+  /**
+   * Rename a conversation. User titles are never replaced by generated ones.
+   */
+  async renameConversation(conversationId: string, title: string): Promise<void> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    await this.db
+      .update(agentConversations)
+      .set({ title, titleSource: "user" })
+      .where(eq(agentConversations.id, conversationId));
+  }
+
+  /**
+   * Store the topic tags of a conversation and, unless the user has named
+   * it, its generated title
+   */
+  async updateTopics(
+    conversationId: string,
+    topics: { title?: string; tags: string[] }
+  ): Promise<void> {
+    await this.db
+      .update(agentConversations)
+      .set({ tags: topics.tags })
+      .where(eq(agentConversations.id, conversationId));
+
+    if (topics.title) {
+      await this.db
+        .update(agentConversations)
+        .set({ title: topics.title, titleSource: "generated" })
+        .where(and(
+          eq(agentConversations.id, conversationId),
+          eq(agentConversations.titleSource, "default")
+        ));
+    }
+  }
+
   /**
    * Archive a conversation
    */
@@ -350,11 +753,15 @@ export class ConversationManager {
    * Delete a conversation and all its messages
    */
   async deleteConversation(conversationId: string): Promise<void> {
-    // Delete messages first
+    // Delete messages and shares first
     await this.db
       .delete(agentMessages)
       .where(eq(agentMessages.conversationId, conversationId));
 
+    await this.db
+      .delete(agentConversationShares)
+      .where(eq(agentConversationShares.conversationId, conversationId));
+
     // Delete conversation
     await this.db
       .delete(agentConversations)
@@ -410,3 +817,119 @@ export class ConversationManager {
     return stats;
   }
 }
+
+function shareTargetCondition(target: ShareTarget) {
+  if (target.userId !== undefined) {
+    return eq(agentConversationShares.sharedWithUserId, target.userId);
+  }
+  if (target.projectId !== undefined) {
+    return eq(agentConversationShares.sharedWithProjectId, target.projectId);
+  }
+  throw new Error("Share target needs a userId or a projectId");
+}
+
+/**
+ * Tool calls as searchable text: one `name {arguments}` line per call
+ */
+export function toolCallSearchText(
+  toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>
+): string {
+  return toolCalls.map((tc) => `${tc.name} ${JSON.stringify(tc.arguments ?? {})}`).join("\n");
+}
+
+/**
+ * Drop assistant tool calls that are missing some of their tool responses,
+ * and tool messages that don't answer a preceding assistant message
+ */
+function validateToolSequences(messages: AgentMessage[]): AgentMessage[] {
+  // Validate message sequence to ensure complete tool call sequences
+  // OpenAI requires:
+  // 1. Tool messages must follow an assistant message with tool_calls
+  // 2. ALL tool_call_ids in an assistant message must have corresponding tool responses
+  
+  // First pass: identify which assistant messages have complete tool responses
+  const assistantToolCallMap = new Map<string, Set<string>>(); // msg.id -> Set of tool_call_ids
+  const toolResponseMap = new Map<string, Set<string>>(); // assistant msg.id -> Set of responded tool_call_ids
+  
+  let currentAssistantId: string | null = null;
+  
+  for (const msg of messages) {
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      currentAssistantId = msg.id;
+      const toolCallIds = new Set(msg.toolCalls.map((tc: any) => tc.id));
+      assistantToolCallMap.set(msg.id, toolCallIds);
+      toolResponseMap.set(msg.id, new Set());
+    } else if (msg.role === 'tool' && currentAssistantId) {
+      const toolCallId = (msg as any).toolCallId || msg.toolCalls?.[0]?.id;
+      if (toolCallId) {
+        toolResponseMap.get(currentAssistantId)?.add(toolCallId);
+      }
+    } else if (msg.role === 'user' || msg.role === 'system' || (msg.role === 'assistant' && (!msg.toolCalls || msg.toolCalls.length === 0))) {
+      currentAssistantId = null;
+    }
+  }
+  
+  // Second pass: build validated message list, skipping incomplete tool call sequences
+  const validatedMessages: typeof messages = [];
+  let skipUntilNextUserMessage = false;
+  currentAssistantId = null;
+  
+  for (const msg of messages) {
+    if (msg.role === 'user' || msg.role === 'system') {
+      skipUntilNextUserMessage = false;
+      currentAssistantId = null;
+      validatedMessages.push(msg);
+    } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      // Check if this assistant message has all its tool responses
+      const expectedToolCalls = assistantToolCallMap.get(msg.id);
+      const actualResponses = toolResponseMap.get(msg.id);
+      
+      const hasAllResponses = expectedToolCalls && actualResponses && 
+        expectedToolCalls.size === actualResponses.size &&
+        Array.from(expectedToolCalls).every(id => actualResponses.has(id));
+      
+      if (hasAllResponses) {
+        currentAssistantId = msg.id;
+        skipUntilNextUserMessage = false;
+        validatedMessages.push(msg);
+      } else {
+        console.warn(`[VALIDATION] Skipping assistant message with incomplete tool responses: ${msg.id}`);
+        console.warn(`[VALIDATION] Expected ${expectedToolCalls?.size} responses, got ${actualResponses?.size}`);
+        skipUntilNextUserMessage = true;
+        currentAssistantId = null;
+      }
+    } else if (msg.role === 'tool') {
+      // Only include tool messages if we're not skipping and they belong to current assistant
+      if (!skipUntilNextUserMessage && currentAssistantId) {
+        validatedMessages.push(msg);
+      } else {
+        console.warn(`[VALIDATION] Skipping tool message (orphaned or incomplete sequence): ${msg.id}`);
+      }
+    } else {
+      // Regular assistant messages without tool_calls
+      if (!skipUntilNextUserMessage) {
+        validatedMessages.push(msg);
+      }
+      currentAssistantId = null;
+    }
+  }
+
+  return validatedMessages;
+}
+
+/**
+ * Walk parent pointers up from `leafId`. Without a leaf (conversations with
+ * no messages yet) the messages are returned in order.
+ */
+function branchEndingAt(messages: AgentMessage[], leafId: string | null): AgentMessage[] {
+  if (!leafId) return messages;
+
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const branch: AgentMessage[] = [];
+  let current = byId.get(leafId);
+  while (current && branch.length < messages.length) {
+    branch.push(current);
+    current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined;
+  }
+  return branch.reverse();
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ConversationSearch } from "./conversation-search";
+
+// Full-text queries (ordered by MATCH score) fail with `fullTextError`;
+// LIKE queries return `rows`
+function fakeDb(fullTextError: Error, rows: any[] = []) {
+  const queries: string[] = [];
+  const db: any = {
+    queries,
+    select: (columns: Record<string, unknown>) => {
+      const kind = "score" in columns ? "fulltext" : "like";
+      const chain: any = {
+        from: () => chain,
+        innerJoin: () => chain,
+        where: () => chain,
+        orderBy: () => chain,
+        limit: async () => {
+          queries.push(kind);
+          if (kind === "fulltext") throw fullTextError;
+          return rows;
+        },
+      };
+      return chain;
+    },
+  };
+  return db;
+}
+
+const message = {
+  messageId: "msg-1",
+  conversationId: "conv-1",
+  role: "user",
+  content: "What is the DC/AC ratio?",
+  toolCallText: null,
+  createdAt: new Date("2026-01-01"),
+  conversationTitle: "Capacity",
+  projectId: 7,
+};
+
+function mysqlError(message: string, errno: number, code: string): Error {
+  return Object.assign(new Error(message), { errno, code });
+}
+
+describe("ConversationSearch in auto mode", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("falls back to LIKE for good when the FULLTEXT index is missing", async () => {
+    const missingIndex = Object.assign(new Error("Failed query"), {
+      cause: mysqlError("Can't find FULLTEXT index matching the column list", 1191, "ER_FT_MATCHING_KEY_NOT_FOUND"),
+    });
+    const db = fakeDb(missingIndex, [message]);
+    const search = new ConversationSearch(db);
+
+    const hits = await search.search({ query: "ratio", userId: 1 });
+    await search.search({ query: "ratio", userId: 1 });
+
+    expect(hits.map((hit) => hit.messageId)).toEqual(["msg-1"]);
+    expect(db.queries).toEqual(["fulltext", "like", "like"]);
+  });
+
+  it("rethrows other errors and keeps using full-text", async () => {
+    const lockTimeout = mysqlError("Lock wait timeout exceeded", 1205, "ER_LOCK_WAIT_TIMEOUT");
+    const db = fakeDb(lockTimeout);
+    const search = new ConversationSearch(db);
+
+    await expect(search.search({ query: "ratio", userId: 1 })).rejects.toThrow(/Lock wait timeout/);
+    await expect(search.search({ query: "ratio", userId: 1 })).rejects.toThrow(/Lock wait timeout/);
+    expect(db.queries).toEqual(["fulltext", "fulltext"]);
+  });
+});
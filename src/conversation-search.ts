@@ -0,0 +1,246 @@
+import { eq, and, desc, inArray, sql, type SQL } from "drizzle-orm";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import { agentConversations, agentMessages } from "./schema";
+
+/**
+ * Conversation Search
+ *
+ * Full-text search over a user's conversation history: message text and the
+ * names and arguments of tool calls. Uses the MySQL FULLTEXT index on
+ * agentMessages (migration 007); databases without it (e.g. test databases)
+ * use a LIKE scan ranked by term matches instead.
+ */
+
+export type SearchMode = "fulltext" | "like" | "auto";
+
+export interface ConversationSearchOptions {
+  /**
+   * "fulltext" needs the FULLTEXT index; "like" works anywhere; "auto"
+   * (default) tries full-text and falls back to LIKE if the index is missing.
+   */
+  mode?: SearchMode;
+}
+
+export interface SearchConversationsParams {
+  query: string;
+  userId: number;
+  projectId?: number;
+  limit?: number;
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  conversationTitle: string | null;
+  projectId: number | null;
+  /** Anchor for opening the conversation at the matching message */
+  messageId: string;
+  role: string;
+  /** Where the match is: the message text or its tool calls */
+  matchedIn: "content" | "toolCalls";
+  snippet: string;
+  score: number;
+  createdAt: Date | null;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const SNIPPET_CHARS = 200;
+// Rows scanned per returned hit in LIKE mode, which ranks in memory
+const LIKE_CANDIDATES_PER_HIT = 5;
+
+const SEARCHABLE_ROLES = ["user", "assistant"];
+
+// MySQL error for MATCH() without a matching FULLTEXT index
+const ER_FT_MATCHING_KEY_NOT_FOUND = 1191;
+
+type MessageRow = {
+  messageId: string;
+  conversationId: string;
+  role: string;
+  content: string | null;
+  toolCallText: string | null;
+  createdAt: Date | null;
+  conversationTitle: string | null;
+  projectId: number | null;
+};
+
+export class ConversationSearch {
+  private mode: SearchMode;
+
+  constructor(private db: MySql2Database<any>, options: ConversationSearchOptions = {}) {
+    this.mode = options.mode ?? "auto";
+  }
+
+  /**
+   * Search the user's conversations, best matches first
+   */
+  async search(params: SearchConversationsParams): Promise<ConversationSearchHit[]> {
+    const terms = searchTerms(params.query);
+    if (terms.length === 0) {
+      return [];
+    }
+    const limit = Math.min(Math.max(params.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (this.mode !== "like") {
+      try {
+        return await this.searchFullText(params, terms, limit);
+      } catch (error) {
+        // Other errors (lost connection, lock timeout) say nothing about the index
+        if (this.mode === "fulltext" || !isMissingFullTextIndex(error)) throw error;
+        console.warn("[SEARCH] Full-text index missing, falling back to LIKE:", (error as Error).message);
+        this.mode = "like";
+      }
+    }
+    return await this.searchLike(params, terms, limit);
+  }
+
+  private async searchFullText(
+    params: SearchConversationsParams,
+    terms: string[],
+    limit: number
+  ): Promise<ConversationSearchHit[]> {
+    const match = sql`MATCH(${agentMessages.content}, ${agentMessages.toolCallText}) AGAINST (${params.query} IN NATURAL LANGUAGE MODE)`;
+
+    const rows = await this.db
+      .select({ ...messageColumns(), score: sql<number>`${match}` })
+      .from(agentMessages)
+      .innerJoin(agentConversations, eq(agentMessages.conversationId, agentConversations.id))
+      .where(and(...this.scope(params), match))
+      .orderBy(desc(match), desc(agentMessages.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => toHit(row, terms, Number(row.score)));
+  }
+
+  private async searchLike(
+    params: SearchConversationsParams,
+    terms: string[],
+    limit: number
+  ): Promise<ConversationSearchHit[]> {
+    const termConditions = terms.map((term) => {
+      const pattern = `%${escapeLike(term)}%`;
+      return sql`(LOWER(${agentMessages.content}) LIKE ${pattern} OR LOWER(${agentMessages.toolCallText}) LIKE ${pattern})`;
+    });
+
+    const rows = await this.db
+      .select(messageColumns())
+      .from(agentMessages)
+      .innerJoin(agentConversations, eq(agentMessages.conversationId, agentConversations.id))
+      .where(and(...this.scope(params), sql`(${sql.join(termConditions, sql` OR `)})`))
+      .orderBy(desc(agentMessages.createdAt))
+      .limit(limit * LIKE_CANDIDATES_PER_HIT);
+
+    return rows
+      .map((row) => toHit(row, terms, likeScore(row, terms)))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private scope(params: SearchConversationsParams): SQL[] {
+    const conditions = [
+      eq(agentConversations.userId, params.userId),
+      inArray(agentMessages.role, SEARCHABLE_ROLES),
+    ];
+    if (params.projectId !== undefined) {
+      conditions.push(eq(agentConversations.projectId, params.projectId));
+    }
+    return conditions;
+  }
+}
+
+function messageColumns() {
+  return {
+    messageId: agentMessages.id,
+    conversationId: agentMessages.conversationId,
+    role: agentMessages.role,
+    content: agentMessages.content,
+    toolCallText: agentMessages.toolCallText,
+    createdAt: agentMessages.createdAt,
+    conversationTitle: agentConversations.title,
+    projectId: agentConversations.projectId,
+  };
+}
+
+/**
+ * Lowercased query words of two or more characters, without duplicates
+ */
+function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().split(/[^\p{L}\p{N}_-]+/u).filter((word) => word.length >= 2);
+  return Array.from(new Set(words));
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * LIKE-mode relevance: distinct terms matched, then occurrences
+ */
+function likeScore(row: MessageRow, terms: string[]): number {
+  const text = `${row.content || ""}\n${row.toolCallText || ""}`.toLowerCase();
+  let matched = 0;
+  let occurrences = 0;
+  for (const term of terms) {
+    const count = text.split(term).length - 1;
+    if (count > 0) matched++;
+    occurrences += count;
+  }
+  return matched + Math.min(occurrences, 10) / 100;
+}
+
+function toHit(row: MessageRow, terms: string[], score: number): ConversationSearchHit {
+  const contentMatches = terms.some((term) => (row.content || "").toLowerCase().includes(term));
+  const matchedIn = contentMatches || !row.toolCallText ? "content" : "toolCalls";
+  const text = matchedIn === "content" ? row.content || "" : row.toolCallText || "";
+
+  return {
+    conversationId: row.conversationId,
+    conversationTitle: row.conversationTitle,
+    projectId: row.projectId,
+    messageId: row.messageId,
+    role: row.role,
+    matchedIn,
+    snippet: snippetAround(text, terms),
+    score,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * A window of the text around the first matching term, on word boundaries
+ */
+function snippetAround(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= SNIPPET_CHARS) return flat;
+
+  const lower = flat.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  let start = Math.max(0, first - Math.floor(SNIPPET_CHARS / 3));
+  let end = Math.min(flat.length, start + SNIPPET_CHARS);
+  start = Math.max(0, end - SNIPPET_CHARS);
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  return `${start > 0 ? "…" : ""}${flat.substring(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Whether a query failed for lack of a FULLTEXT index — also when drizzle
+ * wraps the driver error as the cause
+ */
+function isMissingFullTextIndex(error: unknown): boolean {
+  for (let current: any = error; current; current = current.cause) {
+    if (current.errno === ER_FT_MATCHING_KEY_NOT_FOUND || current.code === "ER_FT_MATCHING_KEY_NOT_FOUND") {
+      return true;
+    }
+  }
+  return false;
+}
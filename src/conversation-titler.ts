@@ -0,0 +1,137 @@
+import type { LLMClient } from "./llm-client";
+import type { ConversationManager } from "./conversation-manager";
+
+/**
+ * Conversation Titler
+ *
+ * Names a conversation and tags it with topics after its first exchange, so
+ * the conversation list can be scanned and filtered. Titles the user set are
+ * kept; only the tags are added.
+ */
+
+/** Topic tags a conversation can carry */
+export const CONVERSATION_TOPICS = [
+  "technical",
+  "grid",
+  "resource",
+  "financial",
+  "land",
+  "permitting",
+  "environmental",
+  "legal",
+  "construction",
+  "operations",
+  "schedule",
+  "community",
+] as const;
+
+export type ConversationTopic = typeof CONVERSATION_TOPICS[number];
+
+export interface TitleResult {
+  titled: boolean;
+  title?: string;
+  tags?: ConversationTopic[];
+}
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TAGS = 4;
+// Per-message limit in the exchange sent for titling
+const MAX_EXCHANGE_MESSAGE_CHARS = 2000;
+
+export class ConversationTitler {
+  constructor(
+    private conversationManager: ConversationManager,
+    private llm: LLMClient
+  ) {}
+
+  /**
+   * Title and tag the conversation if it hasn't been tagged yet and has a
+   * complete exchange (a user message and a final answer)
+   */
+  async titleIfNeeded(conversationId: string): Promise<TitleResult> {
+    const conversation = await this.conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    if (conversation.tags) {
+      return { titled: false };
+    }
+
+    const branch = await this.conversationManager.getActiveBranch(conversationId);
+    const question = branch.find((m) => m.role === "user" && m.content);
+    const answer = branch.find((m) =>
+      m.role === "assistant" && m.content && !(m.toolCalls && m.toolCalls.length > 0)
+    );
+    if (!question || !answer) {
+      return { titled: false };
+    }
+
+    const { title, tags } = await this.generate(question.content!, answer.content!);
+    await this.conversationManager.updateTopics(conversationId, {
+      title: conversation.titleSource === "default" ? title : undefined,
+      tags,
+    });
+
+    console.log(`[TITLER] Conversation ${conversationId}: "${title}" [${tags.join(", ")}]`);
+    return { titled: true, title, tags };
+  }
+
+  /**
+   * Ask the LLM for a title and topic tags
+   */
+  private async generate(question: string, answer: string): Promise<{ title: string; tags: ConversationTopic[] }> {
+    const response = await this.llm.invoke({
+      messages: [
+        {
+          role: "system",
+          content: `You name conversations between a user and a renewable energy due diligence agent.
+
+Return JSON: {"title": "...", "tags": ["..."]}
+- title: at most 8 words, specific to what the user asked (e.g. "Grid connection capacity and curtailment risk"), no quotes or trailing punctuation
+- tags: 1-${MAX_TAGS} topics from this list only: ${CONVERSATION_TOPICS.join(", ")}`,
+        },
+        {
+          role: "user",
+          content: `USER: ${truncate(question)}\n\nAGENT: ${truncate(answer)}`,
+        },
+      ],
+      responseFormat: { type: "json_object" },
+      maxTokens: 200,
+    });
+
+    const content = response?.choices?.[0]?.message?.content;
+    const text = typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content.map((part: any) => typeof part === "string" ? part : part?.text || "").join("")
+        : "";
+
+    let parsed: { title?: unknown; tags?: unknown };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("Title generation returned invalid JSON");
+    }
+
+    const title = typeof parsed.title === "string"
+      ? parsed.title.replace(/^["'\s]+|["'.\s]+$/g, "").substring(0, MAX_TITLE_LENGTH)
+      : "";
+    if (!title) {
+      throw new Error("Title generation returned no title");
+    }
+
+    const tags = Array.isArray(parsed.tags)
+      ? parsed.tags
+        .map((tag) => String(tag).trim().toLowerCase())
+        .filter((tag): tag is ConversationTopic => (CONVERSATION_TOPICS as readonly string[]).includes(tag))
+      : [];
+
+    return { title, tags: Array.from(new Set(tags)).slice(0, MAX_TAGS) };
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EXCHANGE_MESSAGE_CHARS
+    ? `${text.substring(0, MAX_EXCHANGE_MESSAGE_CHARS)}...[truncated]`
+    : text;
+}
@@ -1,9 +1,20 @@
 import type { MySql2Database } from "drizzle-orm/mysql2";
-import type { ProjectDbPool } from "./project-db-wrapper";
+import type { ProjectDb } from "./project-db-wrapper";
+import type { LLMConfig } from "./llm-providers";
+import type { LLMClient } from "./llm-client";
 import { z } from "zod";
-import { eq, desc, and, count, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { eq, desc, and, count } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
-import { AgentOrchestrator } from "./agent-orchestrator";
+import { AgentOrchestrator, type AgentStreamEvent } from "./agent-orchestrator";
+import { ConversationExporter } from "./conversation-exporter";
+import { ConversationImporter } from "./conversation-importer";
+import { CONVERSATION_TOPICS } from "./conversation-titler";
+import { ConversationSearch, type SearchMode } from "./conversation-search";
+import { AccessDeniedError, type AuthorizeFn, type CanAccessProjectFn } from "./access-control";
+import type { EmbeddingProvider } from "./knowledge-retrieval";
+import { KnowledgeReviewManager, KNOWLEDGE_STATUSES } from "./knowledge-review";
+import { KnowledgeHistory } from "./knowledge-history";
 import {
   agentKnowledgeBase,
   agentConversations,
@@ -36,7 +47,50 @@ export interface AgentRouterDependencies {
   /**
    * Function to create a project-specific database connection
    */
-  createProjectDbConnection: (projectId: number) => Promise<ProjectDbPool>;
+  createProjectDbConnection: (projectId: number) => Promise<ProjectDb>;
+
+  /**
+   * Optional LLM provider configuration (defaults to environment variables)
+   */
+  llm?: LLMConfig;
+
+  /**
+   * Optional LLM client (takes precedence over `llm`), e.g. a mock for tests
+   */
+  llmClient?: LLMClient;
+
+  /**
+   * Conversation search mode (default "auto": MySQL FULLTEXT, falling back
+   * to LIKE when the index is missing, e.g. on test databases)
+   */
+  searchMode?: SearchMode;
+
+  /**
+   * Optional access policy for conversations, called as
+   * `authorize(ctx, resource, action)` with the tRPC context. Defaults to
+   * owner-only access. Use it to add project roles or sharing rules.
+   */
+  authorize?: AuthorizeFn;
+
+  /**
+   * Optional project access check, `canAccessProject(userId, projectId, mode)`.
+   * "read" lets a user chat about the project; "write" is also needed for
+   * the agent to change project data (facts, red flags, narratives).
+   * Defaults to allowing everything.
+   */
+  canAccessProject?: CanAccessProjectFn;
+
+  /**
+   * Optional embedding provider for knowledge base search. Without it,
+   * knowledge entries are ranked by BM25 only.
+   */
+  embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * Optional check for who may approve, reject, deprecate or restore knowledge
+   * base entries (e.g. technical leads). Defaults to allowing every user.
+   */
+  canReviewKnowledge?: (userId: number) => boolean | Promise<boolean>;
 }
 
 /**
@@ -61,7 +115,27 @@ export interface AgentRouterDependencies {
  * ```
  */
 export function createAgentRouter(deps: AgentRouterDependencies) {
-  const { router, protectedProcedure, getDb, createProjectDbConnection } = deps;
+  const {
+    router,
+    getDb,
+    createProjectDbConnection,
+    llm,
+    llmClient,
+    searchMode,
+    authorize,
+    canAccessProject,
+    embeddingProvider,
+    canReviewKnowledge,
+  } = deps;
+
+  // Report access denials as FORBIDDEN instead of INTERNAL_SERVER_ERROR
+  const protectedProcedure = deps.protectedProcedure.use(async ({ next }: any) => {
+    const result = await next();
+    if (!result.ok && result.error.cause instanceof AccessDeniedError) {
+      throw new TRPCError({ code: "FORBIDDEN", message: result.error.cause.message, cause: result.error.cause });
+    }
+    return result;
+  });
 
   // Lazy-initialized orchestrator (created once, reused across requests)
   let orchestrator: AgentOrchestrator | null = null;
@@ -70,11 +144,29 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
     if (!orchestrator) {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
-      orchestrator = new AgentOrchestrator(db, createProjectDbConnection);
+      orchestrator = new AgentOrchestrator(db, createProjectDbConnection, {
+        llm,
+        llmClient,
+        authorize,
+        canAccessProject,
+        embeddingProvider,
+      });
     }
     return orchestrator;
   }
 
+  // Created once so "auto" mode only probes for the FULLTEXT index once
+  let conversationSearch: ConversationSearch | null = null;
+
+  async function getConversationSearch(): Promise<ConversationSearch> {
+    if (!conversationSearch) {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+      conversationSearch = new ConversationSearch(db, { mode: searchMode });
+    }
+    return conversationSearch;
+  }
+
   return router({
     // ============================================================
     // CHAT & CONVERSATION ENDPOINTS
@@ -111,6 +203,109 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
         });
       }),
 
+    /**
+     * Send a message to the agent and stream the response as it is generated.
+     * Emits text deltas, tool activity and round boundaries, then a final `done`
+     * event carrying the same payload `chat` returns. If the client disconnects
+     * early, the agent still runs to completion so the conversation is saved.
+     */
+    chatStream: protectedProcedure
+      .input(
+        z.object({
+          projectId: z.number().optional(),
+          message: z.string().min(1),
+          conversationId: z.string().optional(),
+          context: z
+            .object({
+              currentPage: z.string().optional(),
+              workflowStage: z.string().optional(),
+              relevantDocuments: z.array(z.string()).optional(),
+              relevantFacts: z.array(z.string()).optional(),
+            })
+            .optional(),
+        })
+      )
+      .subscription(async function* ({ input, ctx }: any): AsyncGenerator<AgentStreamEvent> {
+        const agent = await getOrchestrator();
+
+        const events = agent.processMessageStream({
+          userId: ctx.user.id,
+          projectId: input.projectId,
+          message: input.message,
+          conversationId: input.conversationId,
+          context: input.context,
+        });
+
+        // Iterate manually: a for-await loop would cancel the agent run
+        // (and its message persistence) when the client unsubscribes
+        let finished = false;
+        try {
+          let step = await events.next();
+          while (!step.done) {
+            yield step.value;
+            step = await events.next();
+          }
+          finished = true;
+        } finally {
+          if (!finished) {
+            (async () => {
+              while (!(await events.next()).done) {
+                // Drain remaining events so the conversation is fully persisted
+              }
+            })().catch(err => console.error("[AGENT] Detached stream failed:", err));
+          }
+        }
+      }),
+
+    /**
+     * Approve a tool call the agent paused on. The tool runs, and once every
+     * pending action of the conversation is decided the agent continues and
+     * returns its next response.
+     */
+    approveAction: protectedProcedure
+      .input(
+        z.object({
+          actionId: z.string(),
+          note: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        return await agent.approveAction(input.actionId, ctx.user.id, input.note);
+      }),
+
+    /**
+     * Reject a tool call the agent paused on. The agent is told the action was
+     * rejected and continues once every pending action is decided.
+     */
+    rejectAction: protectedProcedure
+      .input(
+        z.object({
+          actionId: z.string(),
+          note: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        return await agent.rejectAction(input.actionId, ctx.user.id, input.note);
+      }),
+
+    /**
+     * List the tool calls of a conversation that are waiting for approval
+     */
+    getPendingActions: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+        })
+      )
+      .query(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "read");
+        const pendingActions = await agent.getPendingActions(input.conversationId);
+        return { pendingActions };
+      }),
+
     /**
      * Quick query - one-off question without conversation context
      */
@@ -137,7 +332,9 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
       }),
 
     /**
-     * Get conversation history
+     * Get conversation history (the active branch). `alternatives` lists, for
+     * each message with edited or regenerated siblings, the IDs of all
+     * versions, for use with `switchBranch`.
      */
     getConversation: protectedProcedure
       .input(
@@ -145,32 +342,244 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           conversationId: z.string(),
         })
       )
-      .query(async ({ input }: any) => {
+      .query(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "read");
+        const messages = await agent.conversationManager.getActiveBranch(input.conversationId);
+        const alternatives = await agent.conversationManager.getBranchAlternatives(input.conversationId);
+        return { messages, alternatives };
+      }),
+
+    /**
+     * Export the conversation (active branch) as a transcript file:
+     * Markdown, JSON (versioned schema) or a self-contained HTML page
+     */
+    exportConversation: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          format: z.enum(["markdown", "json", "html"]).default("markdown"),
+        })
+      )
+      .query(async ({ input, ctx }: any) => {
         const agent = await getOrchestrator();
-        const messages = await agent.conversationManager.getMessages(input.conversationId);
-        return { messages };
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "read");
+        const exporter = new ConversationExporter(agent.conversationManager);
+        return await exporter.exportConversation(input.conversationId, input.format);
       }),
 
     /**
-     * List all conversations for a project
+     * Recreate a conversation from a JSON transcript (from exportConversation)
+     * for the current user, e.g. after moving a project between deployments
+     */
+    importConversation: protectedProcedure
+      .input(
+        z.object({
+          transcript: z.union([z.string(), z.record(z.string(), z.unknown())]),
+          projectId: z.number().optional(),
+          title: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        if (input.projectId !== undefined) {
+          await agent.assertProjectAccess(ctx.user.id, input.projectId, "read");
+        }
+        const importer = new ConversationImporter(agent.conversationManager);
+        const imported = await importer.importConversation({
+          transcript: input.transcript,
+          userId: ctx.user.id,
+          projectId: input.projectId,
+          title: input.title,
+        });
+        return {
+          conversationId: imported.conversation.id,
+          messageIds: imported.messageIds,
+          messageCount: imported.messageCount,
+        };
+      }),
+
+    /**
+     * Edit an earlier user message and get a new answer. The edit starts a
+     * new branch; the original question and answers stay available.
+     */
+    editMessage: protectedProcedure
+      .input(
+        z.object({
+          messageId: z.string(),
+          content: z.string().min(1),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        return await agent.editMessage(input.messageId, input.content, ctx.user.id);
+      }),
+
+    /**
+     * Generate a new answer to a user message (pass the question or any
+     * message of the answer). The previous answer stays available as a branch.
+     */
+    regenerate: protectedProcedure
+      .input(
+        z.object({
+          messageId: z.string(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        return await agent.regenerate(input.messageId, ctx.user.id);
+      }),
+
+    /**
+     * Switch to the branch through the given message (e.g. one of its `alternatives`)
+     */
+    switchBranch: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          messageId: z.string(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        const activeLeafMessageId = await agent.switchBranch(input.conversationId, input.messageId, ctx.user.id);
+        const messages = await agent.conversationManager.getActiveBranch(input.conversationId);
+        return { activeLeafMessageId, messages };
+      }),
+
+    /**
+     * List all conversations for a project, optionally only those with a topic tag
      */
     getConversations: protectedProcedure
       .input(
         z.object({
           projectId: z.number().optional(),
           limit: z.number().optional().default(50),
+          tag: z.enum(CONVERSATION_TOPICS).optional(),
+          // own: the user's conversations; shared: shared with the user; all: both
+          scope: z.enum(["own", "shared", "all"]).optional().default("own"),
         })
       )
       .query(async ({ input, ctx }: any) => {
         const agent = await getOrchestrator();
-        const conversations = await agent.conversationManager.getConversations(
-          ctx.user.id,
-          input.projectId,
-          input.limit
-        );
+        const own = input.scope === "shared"
+          ? []
+          : await agent.conversationManager.getConversations(ctx.user.id, input.projectId, input.limit, input.tag);
+        const shared = input.scope === "own"
+          ? []
+          : await agent.conversationManager.getSharedConversations(ctx.user.id, input.projectId, input.limit, input.tag);
+
+        const conversations = [...own, ...shared]
+          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+          .slice(0, input.limit);
         return { conversations };
       }),
 
+    /**
+     * Share a conversation with another user or with everyone on a project,
+     * read-only or with permission to continue it
+     */
+    shareConversation: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          userId: z.number().optional(),
+          projectId: z.number().optional(),
+          permission: z.enum(["read", "continue"]).default("read"),
+        }).refine((value) => (value.userId === undefined) !== (value.projectId === undefined), {
+          message: "Provide either userId or projectId",
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
+        const share = await agent.conversationManager.shareConversation(input.conversationId, {
+          ...(input.userId !== undefined ? { userId: input.userId } : { projectId: input.projectId }),
+          permission: input.permission,
+          sharedBy: ctx.user.id,
+        });
+        return { share };
+      }),
+
+    /**
+     * Stop sharing a conversation with a user or a project
+     */
+    unshareConversation: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          userId: z.number().optional(),
+          projectId: z.number().optional(),
+        }).refine((value) => (value.userId === undefined) !== (value.projectId === undefined), {
+          message: "Provide either userId or projectId",
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
+        await agent.conversationManager.unshareConversation(
+          input.conversationId,
+          input.userId !== undefined ? { userId: input.userId } : { projectId: input.projectId }
+        );
+        return { success: true };
+      }),
+
+    /**
+     * List who a conversation is shared with
+     */
+    getConversationShares: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+        })
+      )
+      .query(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
+        const shares = await agent.conversationManager.getShares(input.conversationId);
+        return { shares };
+      }),
+
+    /**
+     * Search the user's conversations (message text and tool calls), best
+     * matches first, with a snippet and the matching message of each hit
+     */
+    searchConversations: protectedProcedure
+      .input(
+        z.object({
+          query: z.string().trim().min(2).max(500),
+          projectId: z.number().optional(),
+          limit: z.number().int().min(1).max(100).optional().default(20),
+        })
+      )
+      .query(async ({ input, ctx }: any) => {
+        const search = await getConversationSearch();
+        const hits = await search.search({
+          query: input.query,
+          userId: ctx.user.id,
+          projectId: input.projectId,
+          limit: input.limit,
+        });
+        return { hits };
+      }),
+
+    /**
+     * Rename a conversation (replaces the generated title for good)
+     */
+    renameConversation: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          title: z.string().trim().min(1).max(255),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
+        await agent.conversationManager.renameConversation(input.conversationId, input.title);
+        return { success: true };
+      }),
+
     /**
      * Archive a conversation
      */
@@ -180,8 +589,9 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           conversationId: z.string(),
         })
       )
-      .mutation(async ({ input }: any) => {
+      .mutation(async ({ input, ctx }: any) => {
         const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
         await agent.conversationManager.archiveConversation(input.conversationId);
         return { success: true };
       }),
@@ -195,12 +605,66 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           conversationId: z.string(),
         })
       )
-      .mutation(async ({ input }: any) => {
+      .mutation(async ({ input, ctx }: any) => {
         const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "manage");
         await agent.conversationManager.deleteConversation(input.conversationId);
         return { success: true };
       }),
 
+    /**
+     * Get the running summary of a conversation (older turns the agent no
+     * longer sees verbatim)
+     */
+    getConversationSummary: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+        })
+      )
+      .query(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        const conversation = await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "read");
+        return {
+          summary: conversation.summary,
+          summaryThroughMessageId: conversation.summaryThroughMessageId,
+          summaryUpdatedAt: conversation.summaryUpdatedAt,
+        };
+      }),
+
+    /**
+     * Replace the summary text, e.g. to correct the project framing.
+     * The agent uses the edited summary from its next message on.
+     */
+    updateConversationSummary: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+          summary: z.string(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "write");
+        await agent.conversationManager.updateSummary(input.conversationId, input.summary);
+        return { success: true };
+      }),
+
+    /**
+     * Fold older turns into the summary now instead of waiting for the token budget
+     */
+    compactConversation: protectedProcedure
+      .input(
+        z.object({
+          conversationId: z.string(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "write");
+        return await agent.compactor.compact(input.conversationId);
+      }),
+
     /**
      * Get conversation statistics
      */
@@ -210,8 +674,9 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           conversationId: z.string(),
         })
       )
-      .query(async ({ input }: any) => {
+      .query(async ({ input, ctx }: any) => {
         const agent = await getOrchestrator();
+        await agent.conversationManager.authorizeConversation(ctx, input.conversationId, "read");
         return await agent.conversationManager.getConversationStats(input.conversationId);
       }),
 
@@ -315,7 +780,9 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
     // ============================================================
 
     /**
-     * List all knowledge base entries with optional filtering
+     * List knowledge base entries with optional filtering; only approved
+     * entries unless `status` is given. With `search`, entries are ranked by
+     * relevance and carry a `score`.
      */
     listKnowledge: protectedProcedure
       .input(
@@ -323,11 +790,28 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           category: z.string().optional(),
           search: z.string().optional(),
           confidence: z.string().optional(),
+          status: z.enum(KNOWLEDGE_STATUSES).optional(),
           limit: z.number().optional().default(50),
           offset: z.number().optional().default(0),
         })
       )
       .query(async ({ input }: any) => {
+        if (input.search) {
+          const agent = await getOrchestrator();
+          const { results, total } = await agent.knowledgeRetriever.search({
+            query: input.search,
+            category: input.category,
+            confidence: input.confidence,
+            statuses: [input.status ?? "approved"],
+            limit: input.limit,
+            offset: input.offset,
+          });
+          return {
+            entries: results.map((result) => ({ ...result.entry, score: result.score })),
+            total,
+          };
+        }
+
         const db = await getDb();
 
         const conditions: any[] = [];
@@ -337,13 +821,9 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
         if (input.confidence) {
           conditions.push(eq(agentKnowledgeBase.confidence, input.confidence));
         }
-        if (input.search) {
-          conditions.push(
-            sql`(LOWER(${agentKnowledgeBase.topic}) LIKE ${`%${input.search.toLowerCase()}%`} OR LOWER(${agentKnowledgeBase.content}) LIKE ${`%${input.search.toLowerCase()}%`})`
-          );
-        }
+        conditions.push(eq(agentKnowledgeBase.status, input.status ?? "approved"));
 
-        const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+        const whereClause = and(...conditions);
 
         const entries = await db
           .select()
@@ -382,7 +862,8 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
       }),
 
     /**
-     * Create a new knowledge base entry
+     * Create a new knowledge base entry, approved right away only if the
+     * user may review knowledge
      */
     createKnowledge: protectedProcedure
       .input(
@@ -396,9 +877,11 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           applicability: z.array(z.string()).optional(),
         })
       )
-      .mutation(async ({ input }: any) => {
+      .mutation(async ({ input, ctx }: any) => {
         const db = await getDb();
 
+        // A reviewer's own entry needs no second review
+        const approved = !canReviewKnowledge || (await canReviewKnowledge(ctx.user.id));
         const id = uuidv4();
         await db.insert(agentKnowledgeBase).values({
           id,
@@ -407,18 +890,28 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           content: input.content,
           confidence: input.confidence,
           sourceCount: 1,
+          status: approved ? "approved" : "proposed",
+          reviewedBy: approved ? ctx.user.id : null,
+          reviewedAt: approved ? new Date() : null,
           metadata: {
             tags: input.tags || [],
             relatedTopics: input.relatedTopics || [],
             applicability: input.applicability || [],
           },
         });
+        await new KnowledgeHistory(db).record({
+          knowledgeId: id,
+          action: "create",
+          before: null,
+          actor: { type: "user", userId: ctx.user.id },
+        });
 
-        return { id, success: true };
+        return { id, success: true, status: approved ? "approved" : "proposed" };
       }),
 
     /**
-     * Update a knowledge base entry
+     * Update a knowledge base entry. A changed topic or content is proposed
+     * for review again.
      */
     updateKnowledge: protectedProcedure
       .input(
@@ -431,12 +924,19 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           tags: z.array(z.string()).optional(),
           relatedTopics: z.array(z.string()).optional(),
           applicability: z.array(z.string()).optional(),
+          reason: z.string().max(2000).optional(),
         })
       )
-      .mutation(async ({ input }: any) => {
+      .mutation(async ({ input, ctx }: any) => {
         const db = await getDb();
 
-        const { id, tags, relatedTopics, applicability, ...fields } = input;
+        const { id, tags, relatedTopics, applicability, reason, ...fields } = input;
+
+        const [existing] = await db
+          .select()
+          .from(agentKnowledgeBase)
+          .where(eq(agentKnowledgeBase.id, id));
+        if (!existing) throw new Error("Knowledge entry not found");
 
         const updates: any = {};
         if (fields.category) updates.category = fields.category;
@@ -444,13 +944,18 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
         if (fields.content) updates.content = fields.content;
         if (fields.confidence) updates.confidence = fields.confidence;
 
-        if (tags || relatedTopics || applicability) {
-          const [existing] = await db
-            .select({ metadata: agentKnowledgeBase.metadata })
-            .from(agentKnowledgeBase)
-            .where(eq(agentKnowledgeBase.id, id));
+        // Changed text must not reach system prompts before it is reviewed
+        if (
+          (updates.topic && updates.topic !== existing.topic) ||
+          (updates.content && updates.content !== existing.content)
+        ) {
+          updates.status = "proposed";
+          updates.reviewedBy = null;
+          updates.reviewedAt = null;
+        }
 
-          const existingMeta = (existing?.metadata || {}) as any;
+        if (tags || relatedTopics || applicability) {
+          const existingMeta = (existing.metadata || {}) as any;
           updates.metadata = {
             tags: tags || existingMeta.tags || [],
             relatedTopics: relatedTopics || existingMeta.relatedTopics || [],
@@ -462,25 +967,133 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
           .update(agentKnowledgeBase)
           .set(updates)
           .where(eq(agentKnowledgeBase.id, id));
+        await new KnowledgeHistory(db).record({
+          knowledgeId: id,
+          action: "update",
+          before: existing,
+          actor: { type: "user", userId: ctx.user.id },
+          reason,
+        });
 
         return { success: true };
       }),
 
     /**
-     * Delete a knowledge base entry
+     * Delete a knowledge base entry (it stays in the history and can be restored)
      */
     deleteKnowledge: protectedProcedure
-      .input(z.object({ id: z.string() }))
-      .mutation(async ({ input }: any) => {
+      .input(
+        z.object({
+          id: z.string(),
+          reason: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
         const db = await getDb();
 
+        const [existing] = await db
+          .select()
+          .from(agentKnowledgeBase)
+          .where(eq(agentKnowledgeBase.id, input.id));
+        if (!existing) throw new Error("Knowledge entry not found");
+
         await db
           .delete(agentKnowledgeBase)
           .where(eq(agentKnowledgeBase.id, input.id));
 
+        const agent = await getOrchestrator();
+        await agent.knowledgeRetriever.removeEntries([input.id]);
+        await new KnowledgeHistory(db).record({
+          knowledgeId: input.id,
+          action: "delete",
+          before: existing,
+          actor: { type: "user", userId: ctx.user.id },
+          reason: input.reason,
+        });
+
         return { success: true };
       }),
 
+    /**
+     * Knowledge entries waiting for review (or with another status), oldest first
+     */
+    getKnowledgeReviewQueue: protectedProcedure
+      .input(
+        z.object({
+          status: z.enum(KNOWLEDGE_STATUSES).optional().default("proposed"),
+          category: z.string().optional(),
+          limit: z.number().optional().default(50),
+          offset: z.number().optional().default(0),
+        })
+      )
+      .query(async ({ input }: any) => {
+        const db = await getDb();
+        return await new KnowledgeReviewManager(db).getQueue(input);
+      }),
+
+    /**
+     * Approve, reject or deprecate a knowledge entry
+     */
+    reviewKnowledge: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          decision: z.enum(["approve", "reject", "deprecate"]),
+          note: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        if (canReviewKnowledge && !(await canReviewKnowledge(ctx.user.id))) {
+          throw new TRPCError({ code: "FORBIDDEN", message: `User ${ctx.user.id} may not review knowledge entries` });
+        }
+
+        const db = await getDb();
+        const entry = await new KnowledgeReviewManager(db).review(input.id, {
+          decision: input.decision,
+          reviewerId: ctx.user.id,
+          note: input.note,
+        });
+        return { entry };
+      }),
+
+    /**
+     * Versions of a knowledge entry, newest first — also for deleted entries
+     */
+    getKnowledgeHistory: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input }: any) => {
+        const db = await getDb();
+        const history = await new KnowledgeHistory(db).getHistory(input.id);
+        return { history };
+      }),
+
+    /**
+     * Restore a knowledge entry to an earlier version, recreating it if it
+     * was deleted
+     */
+    restoreKnowledge: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          historyId: z.string(),
+          reason: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }: any) => {
+        if (canReviewKnowledge && !(await canReviewKnowledge(ctx.user.id))) {
+          throw new TRPCError({ code: "FORBIDDEN", message: `User ${ctx.user.id} may not restore knowledge entries` });
+        }
+
+        const db = await getDb();
+        const entry = await new KnowledgeHistory(db).restore(
+          input.id,
+          input.historyId,
+          { type: "user", userId: ctx.user.id },
+          input.reason
+        );
+        return { entry };
+      }),
+
     /**
      * Seed the knowledge base with foundational data
      */
@@ -515,6 +1128,7 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
         const byCategory: Record<string, number> = {};
         const byConfidence: Record<string, number> = {};
         let totalSourceCount = 0;
+        const byStatus = await new KnowledgeReviewManager(db).getStatusCounts();
 
         for (const entry of allKnowledge) {
           byCategory[entry.category] = (byCategory[entry.category] || 0) + 1;
@@ -580,6 +1194,7 @@ export function createAgentRouter(deps: AgentRouterDependencies) {
             totalEntries: allKnowledge.length,
             byCategory,
             byConfidence,
+            byStatus,
             averageSourceCount: allKnowledge.length > 0 ? totalSourceCount / allKnowledge.length : 0,
             recentEntries: recentKnowledge,
             topEntries: topKnowledge,
@@ -7,21 +7,138 @@
 
 // Core Components
 export { AgentOrchestrator } from './agent-orchestrator';
-export type { AgentRequest, AgentResponse } from './agent-orchestrator';
+export type {
+  AgentRequest,
+  AgentResponse,
+  AgentStreamEvent,
+  AgentOrchestratorOptions,
+  PendingActionSummary
+} from './agent-orchestrator';
+
+export { ApprovalManager } from './approval-manager';
+export type {
+  PendingActionStatus,
+  CreatePendingActionParams,
+  DecidePendingActionParams
+} from './approval-manager';
 
-export { ConversationManager } from './conversation-manager';
+export {
+  ConversationManager,
+  DEFAULT_CONTEXT_TOKENS,
+  DEFAULT_TOOL_RESULT_TOKENS,
+  estimateTokens,
+  estimateMessagesTokens
+} from './conversation-manager';
 export type { 
   ConversationContext, 
   CreateConversationParams, 
-  AddMessageParams 
+  AddMessageParams,
+  LLMContextOptions,
+  ConversationManagerOptions,
+  SharePermission,
+  ShareTarget,
+  ShareConversationParams
 } from './conversation-manager';
 
-export { ToolExecutor } from './tool-executor';
+export { AccessDeniedError, ownerOnly, toConversationResource, userContext } from './access-control';
+export type {
+  AccessAction,
+  AccessResource,
+  ConversationResource,
+  AccessContext,
+  AuthorizeFn,
+  ProjectResource,
+  ProjectAccessMode,
+  CanAccessProjectFn
+} from './access-control';
+
+export { ConversationCompactor } from './conversation-compactor';
+export type { CompactorOptions, CompactionResult } from './conversation-compactor';
+
+export { ConversationExporter, TRANSCRIPT_SCHEMA_VERSION } from './conversation-exporter';
+export type {
+  TranscriptFormat,
+  ConversationTranscript,
+  TranscriptMessage,
+  TranscriptToolCall,
+  ExportedConversation
+} from './conversation-exporter';
+
+export { ConversationImporter } from './conversation-importer';
+export type { ImportConversationParams, ImportedConversation } from './conversation-importer';
+
+export { ConversationTitler, CONVERSATION_TOPICS } from './conversation-titler';
+export type { ConversationTopic, TitleResult } from './conversation-titler';
+
+export { ConversationSearch } from './conversation-search';
+export type {
+  SearchMode,
+  ConversationSearchOptions,
+  SearchConversationsParams,
+  ConversationSearchHit
+} from './conversation-search';
+
+export { KnowledgeRetriever, rankBm25, tokenize } from './knowledge-retrieval';
+export type {
+  EmbeddingProvider,
+  KnowledgeRetrieverOptions,
+  KnowledgeSearchParams,
+  KnowledgeSearchResult,
+  KnowledgeSearchResponse,
+  Bm25Document,
+  Bm25Options
+} from './knowledge-retrieval';
+
+export { KnowledgeInjector, loadProjectProfile, formatKnowledgeEntry } from './knowledge-injector';
+export type {
+  KnowledgeInjectorOptions,
+  ProjectProfile,
+  SelectKnowledgeParams,
+  InjectedKnowledge,
+  KnowledgeSelection
+} from './knowledge-injector';
+
+export { KnowledgeReviewManager, KNOWLEDGE_STATUSES } from './knowledge-review';
+export type {
+  KnowledgeStatus,
+  KnowledgeReviewDecision,
+  ReviewKnowledgeParams,
+  KnowledgeReviewQueueParams
+} from './knowledge-review';
+
+export { KnowledgeHistory } from './knowledge-history';
+export type {
+  KnowledgeHistoryAction,
+  KnowledgeActor,
+  RecordKnowledgeChangeParams
+} from './knowledge-history';
+
+export { RetentionManager, PURGED_TOOL_RESULT } from './retention';
+export type {
+  RetentionPolicySettings,
+  RunRetentionOptions,
+  RetentionCounts,
+  RetentionScopeReport,
+  RetentionReport
+} from './retention';
+
+export { ToolExecutor, DEFAULT_TOOL_CONCURRENCY } from './tool-executor';
 export type { 
   ToolDefinition, 
   ToolExecutionContext, 
-  ToolExecutionResult 
+  ToolExecutionResult,
+  ToolRiskLevel,
+  ExecuteToolsOptions,
+  JsonSchema
 } from './tool-executor';
+export {
+  defineTool,
+  coerceArguments,
+  validateJsonSchema,
+  validateToolArguments,
+  formatValidationIssues,
+} from './tool-schema';
+export type { ToolValidationIssue, ToolValidationResult, ZodToolConfig } from './tool-schema';
 
 export { LearningEngine } from './learning-engine';
 export type { 
@@ -38,6 +155,11 @@ export {
   agentStyleModels,
   agentKnowledgeBase,
   agentGeneratedContent,
+  agentPendingActions,
+  agentConversationShares,
+  agentRetentionPolicies,
+  agentKnowledgeEmbeddings,
+  agentKnowledgeBaseHistory,
 } from './schema';
 
 export type {
@@ -48,6 +170,11 @@ export type {
   AgentStyleModel,
   AgentKnowledgeBase,
   AgentGeneratedContent,
+  AgentPendingAction,
+  AgentConversationShare,
+  AgentRetentionPolicy,
+  AgentKnowledgeEmbedding,
+  AgentKnowledgeBaseHistory,
   InsertAgentConversation,
   InsertAgentMessage,
   InsertAgentAction,
@@ -55,6 +182,10 @@ export type {
   InsertAgentStyleModel,
   InsertAgentKnowledgeBase,
   InsertAgentGeneratedContent,
+  InsertAgentPendingAction,
+  InsertAgentConversationShare,
+  InsertAgentRetentionPolicy,
+  InsertAgentKnowledgeEmbedding,
 } from './schema';
 
 // Tools
@@ -67,7 +198,7 @@ export { knowledgeBaseTools } from './tools/knowledge-base-tools';
 
 // Knowledge System
 export { KnowledgeExtractor } from './knowledge-extractor';
-export type { ConversationSummary } from './knowledge-extractor';
+export type { ConversationSummary, ExtractedInsight, KnowledgeMergeOutcome } from './knowledge-extractor';
 export { seedKnowledgeBase, getSeedEntryCount } from './seed-knowledge-base';
 
 // tRPC Router Factory (optional - for direct integration)
@@ -75,6 +206,96 @@ export { createAgentRouter } from './create-agent-router';
 export type { AgentRouterDependencies } from './create-agent-router';
 
 // LLM and Database Types
-export type { Message, Tool, ToolCall, Role } from './llm';
-export { invokeLLM } from './llm';
+export type { Message, Tool, ToolCall, Role, InvokeParams, InvokeResult } from './llm';
+export { invokeLLM, streamLLM } from './llm';
+export {
+  OpenAICompatibleProvider,
+  AzureOpenAIProvider,
+  OllamaProvider,
+  AnthropicProvider,
+  createLLMProvider,
+  resolveLLMProvider,
+  resolveLLMConfigFromEnv,
+} from './llm-providers';
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderConfig,
+  LLMConfig,
+  LLMRequest,
+  LLMHttpRequest,
+  LLMStreamDelta,
+  LLMStreamParser,
+  ServerSentEvent,
+} from './llm-providers';
+export {
+  DefaultLLMClient,
+  MockLLMClient,
+  FixtureLLMClient,
+  createLLMClient,
+  hashLLMRequest,
+} from './llm-client';
+export type {
+  LLMClient,
+  MockLLMReply,
+  MockLLMStep,
+  MockLLMClientOptions,
+  FixtureMode,
+  FixtureLLMClientOptions,
+  LLMFixture,
+} from './llm-client';
 export { ProjectDbPool, ProjectDbConnection, wrapPool, wrapConnection } from './project-db-wrapper';
+export type { ProjectDb, ProjectDbOptions } from './project-db-wrapper';
+export { ProjectRepository, getProjectRepository, normalizeSeverity } from './project-repository';
+export type {
+  Fact,
+  FactDataType,
+  FactField,
+  FactTextMatch,
+  FactQuery,
+  FactInput,
+  FactChanges,
+  FactGroupCount,
+  Document,
+  DocumentQuery,
+  DocumentStatusCounts,
+  DocumentChunk,
+  DocumentChunkQuery,
+  RedFlag,
+  RedFlagSeverity,
+  RedFlagQuery,
+  RedFlagInput,
+  RedFlagChanges,
+} from './project-repository';
+export {
+  select,
+  where,
+  insertInto,
+  update,
+  deleteFrom,
+  quoteIdentifier,
+  escapeLike,
+  boundedInteger,
+  Conditions,
+  SelectQuery,
+  NOW,
+  MAX_LIMIT,
+} from './sql-builder';
+export type { SqlQuery, SortDirection, LimitOptions, SqlBuilderOptions } from './sql-builder';
+export { prefixTableNames, DEFAULT_PROJECT_TABLES } from './sql-table-prefixer';
+export type { TablePrefixOptions } from './sql-table-prefixer';
+export {
+  SqliteProjectDb,
+  createSqliteProjectDb,
+  createProjectTables,
+  loadProjectFixture,
+} from './sqlite-project-db';
+export type {
+  SqliteDatabase,
+  SqliteStatement,
+  ProjectFixture,
+  FactFixture,
+  DocumentFixture,
+  DocumentChunkFixture,
+  RedFlagFixture,
+} from './sqlite-project-db';
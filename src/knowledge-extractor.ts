@@ -1,8 +1,10 @@
 import { v4 as uuidv4 } from "uuid";
-import { eq, like, sql, desc } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import type { MySql2Database } from "drizzle-orm/mysql2";
-import { invokeLLM } from "./llm";
-import { agentKnowledgeBase } from "./schema";
+import { createLLMClient, type LLMClient } from "./llm-client";
+import { KnowledgeRetriever, tokenize } from "./knowledge-retrieval";
+import { KnowledgeHistory, type KnowledgeActor } from "./knowledge-history";
+import { agentKnowledgeBase, type AgentKnowledgeBase, type InsertAgentKnowledgeBase } from "./schema";
 
 /**
  * Knowledge Extractor
@@ -13,10 +15,19 @@ import { agentKnowledgeBase } from "./schema";
  * This runs asynchronously after each conversation to avoid blocking responses.
  * It uses the LLM to identify generalizable patterns, benchmarks, and lessons
  * that would be useful across projects.
+ *
+ * New and merged entries are proposed for review (see KnowledgeReviewManager).
+ * Insights that repeat or extend an existing entry are merged into it, and
+ * count towards its confidence once per project; insights that contradict
+ * an entry are recorded on it as conflicts instead of being stored. Every
+ * change is recorded in the entry's history as made by the agent.
  */
 
 export interface ConversationSummary {
   projectId?: number;
+  /** User and conversation the insights came from, for the knowledge history */
+  userId?: number;
+  conversationId?: string;
   userMessage: string;
   agentResponse: string;
   toolResults: Array<{
@@ -25,18 +36,71 @@ export interface ConversationSummary {
   }>;
 }
 
+export interface ExtractedInsight {
+  category?: string;
+  topic: string;
+  content: string;
+  confidence?: string;
+  tags?: string[];
+  applicability?: string[];
+}
+
+/**
+ * What happened to an extracted insight:
+ * - added: stored as a new entry
+ * - confirmed: an existing entry says the same; its project was counted
+ * - merged: an existing entry was confirmed and extended with the insight
+ * - conflict: the insight contradicts an entry and was recorded on it
+ * - skipped: it resembles a rejected entry, or couldn't be compared with a
+ *   similar entry (LLM failure)
+ */
+export interface KnowledgeMergeOutcome {
+  action: "added" | "confirmed" | "merged" | "conflict" | "skipped";
+  entryId: string;
+  topic: string;
+  /** Similarity to the existing entry, 0-1 */
+  similarity?: number;
+  /** Whether the insight's project was new to the entry (and raised its source count) */
+  independentSource?: boolean;
+  /** Why the insight conflicts with the entry */
+  reason?: string;
+}
+
+type MergedInsight = Pick<ExtractedInsight, "content" | "tags" | "applicability"> & { topic?: string };
+
+interface InsightComparison {
+  relation: "same" | "complementary" | "conflict" | "distinct";
+  reason: string;
+  merged?: MergedInsight;
+}
+
+// Similarity from which an insight is taken as a repeat of an entry without asking the LLM
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+// Similarity from which the LLM compares the insight with the entry
+const RELATED_SIMILARITY = 0.35;
+// Share of the topic in the similarity (the rest is the content)
+const TOPIC_WEIGHT = 0.4;
+// Most similar entries considered per insight
+const SIMILARITY_CANDIDATES = 5;
+// Conflicts kept per entry
+const MAX_CONFLICTS = 10;
+
 export class KnowledgeExtractor {
-  constructor(private db: MySql2Database<any>) {}
+  constructor(
+    private db: MySql2Database<any>,
+    private llm: LLMClient = createLLMClient(),
+    private retriever: KnowledgeRetriever = new KnowledgeRetriever(db)
+  ) {}
 
   /**
    * Extract and store insights from a completed conversation turn.
    * This runs asynchronously — fire and forget — so it doesn't block the response.
    */
-  async extractFromConversation(summary: ConversationSummary): Promise<void> {
+  async extractFromConversation(summary: ConversationSummary): Promise<KnowledgeMergeOutcome[]> {
     try {
       // Only extract if there were meaningful tool results
       if (summary.toolResults.length === 0) {
-        return;
+        return [];
       }
 
       // Build a condensed summary of what happened
@@ -50,7 +114,7 @@ export class KnowledgeExtractor {
       }).join("\n\n");
 
       // Ask the LLM to extract generalizable insights
-      const response = await invokeLLM({
+      const response = await this.llm.invoke({
         messages: [
           {
             role: "system",
@@ -99,109 +163,322 @@ Extract any generalizable insights (benchmarks, patterns, best practices, regula
       });
 
       const content = response?.choices?.[0]?.message?.content;
-      if (!content) return;
+      if (!content) return [];
 
       const parsed = JSON.parse(typeof content === "string" ? content : JSON.stringify(content));
       const insights = parsed.insights || [];
 
       if (insights.length === 0) {
         console.log("[KNOWLEDGE EXTRACTOR] No generalizable insights found in this conversation.");
-        return;
+        return [];
       }
 
-      // For each insight, check if similar knowledge already exists
+      // Store each insight: new entry, confirmation or merge of an existing
+      // one, or a conflict with it
+      const outcomes: KnowledgeMergeOutcome[] = [];
       for (const insight of insights) {
-        const isDuplicate = await this.checkForDuplicate(insight.topic, insight.content);
-        
-        if (isDuplicate.exists) {
-          // Strengthen existing knowledge by incrementing source count
-          console.log(`[KNOWLEDGE EXTRACTOR] Strengthening existing knowledge: "${isDuplicate.existingTopic}" (source count +1)`);
-          await this.db
-            .update(agentKnowledgeBase)
-            .set({
-              sourceCount: sql`${agentKnowledgeBase.sourceCount} + 1`,
-              // Upgrade confidence if we keep seeing the same pattern
-              confidence: isDuplicate.currentSourceCount >= 3 ? "high" 
-                : isDuplicate.currentSourceCount >= 1 ? "medium" 
-                : insight.confidence,
-            })
-            .where(eq(agentKnowledgeBase.id, isDuplicate.existingId!));
-        } else {
-          // Add new knowledge
-          const id = uuidv4();
-          await this.db.insert(agentKnowledgeBase).values({
-            id,
-            category: insight.category || "pattern",
-            topic: insight.topic,
-            content: insight.content,
-            confidence: insight.confidence || "medium",
-            sourceCount: 1,
-            metadata: {
-              tags: insight.tags || [],
-              relatedTopics: [],
-              applicability: insight.applicability || [],
-            },
-          });
-          console.log(`[KNOWLEDGE EXTRACTOR] New knowledge added: "${insight.topic}" (${insight.category})`);
-        }
+        if (!insight?.topic || !insight?.content) continue;
+        outcomes.push(await this.storeInsight(insight, summary.projectId, {
+          type: "agent",
+          userId: summary.userId,
+          conversationId: summary.conversationId,
+        }));
       }
 
       console.log(`[KNOWLEDGE EXTRACTOR] Processed ${insights.length} insights from conversation.`);
+      return outcomes;
     } catch (error) {
       // Never let extraction errors affect the main flow
       console.error("[KNOWLEDGE EXTRACTOR] Error extracting knowledge:", error);
+      return [];
     }
   }
 
   /**
-   * Check if similar knowledge already exists in the knowledge base.
-   * Uses keyword matching on topic and content to find duplicates.
+   * Compare an insight with the most similar entries and store it:
+   * - no similar entry: added as a new entry
+   * - near-identical entry: the entry is confirmed (source project added)
+   * - related entry: the LLM decides whether the insight says the same thing
+   *   (entry confirmed), adds to it (entry confirmed and merged), contradicts
+   *   it (conflict recorded on the entry, nothing else changes) or is about
+   *   something else (added)
    */
-  private async checkForDuplicate(
-    topic: string,
-    content: string
-  ): Promise<{
-    exists: boolean;
-    existingId?: string;
-    existingTopic?: string;
-    currentSourceCount: number;
-  }> {
-    // Extract key terms from the topic
-    const keywords = topic.toLowerCase()
-      .split(/\s+/)
-      .filter(w => w.length > 3)
-      .slice(0, 4);
-
-    if (keywords.length === 0) {
-      return { exists: false, currentSourceCount: 0 };
+  async storeInsight(
+    insight: ExtractedInsight,
+    projectId?: number,
+    actor: KnowledgeActor = { type: "agent" }
+  ): Promise<KnowledgeMergeOutcome> {
+    const match = await this.findSimilar(insight);
+
+    if (!match || match.similarity < RELATED_SIMILARITY) {
+      return await this.addEntry(insight, projectId, actor);
     }
 
-    // Search for entries with matching keywords in topic
-    const conditions = keywords.map(
-      kw => sql`LOWER(${agentKnowledgeBase.topic}) LIKE ${`%${kw}%`}`
-    );
+    if (match.entry.status === "rejected") {
+      console.log(`[KNOWLEDGE EXTRACTOR] "${insight.topic}" resembles rejected entry "${match.entry.topic}", skipped`);
+      return { action: "skipped", entryId: match.entry.id, topic: insight.topic, similarity: match.similarity };
+    }
 
-    const matches = await this.db
-      .select({
-        id: agentKnowledgeBase.id,
-        topic: agentKnowledgeBase.topic,
-        sourceCount: agentKnowledgeBase.sourceCount,
-      })
-      .from(agentKnowledgeBase)
-      .where(sql`(${sql.join(conditions, sql` AND `)})`)
-      .limit(5);
-
-    if (matches.length > 0) {
-      // Return the best match (most keywords matched)
-      return {
-        exists: true,
-        existingId: matches[0].id,
-        existingTopic: matches[0].topic,
-        currentSourceCount: matches[0].sourceCount || 1,
+    if (match.similarity >= NEAR_DUPLICATE_SIMILARITY) {
+      return await this.confirmEntry(match.entry, projectId, match.similarity, actor);
+    }
+
+    let comparison: InsightComparison;
+    try {
+      comparison = await this.compare(match.entry, insight);
+    } catch (error) {
+      // Without a verdict, neither count it as a confirmation nor risk a duplicate
+      console.warn(`[KNOWLEDGE EXTRACTOR] Could not compare "${insight.topic}" with "${match.entry.topic}", skipped:`, (error as Error).message);
+      return { action: "skipped", entryId: match.entry.id, topic: insight.topic, similarity: match.similarity };
+    }
+
+    switch (comparison.relation) {
+      case "same":
+        // Nothing to rewrite; only the project is counted
+        return await this.confirmEntry(match.entry, projectId, match.similarity, actor);
+      case "complementary":
+        return await this.confirmEntry(match.entry, projectId, match.similarity, actor, comparison.merged);
+      case "conflict":
+        return await this.recordConflict(match.entry, insight, comparison.reason, projectId, match.similarity, actor);
+      default:
+        return await this.addEntry(insight, projectId, actor);
+    }
+  }
+
+  /**
+   * The existing entry most similar to the insight (topic and content)
+   */
+  private async findSimilar(
+    insight: ExtractedInsight
+  ): Promise<{ entry: AgentKnowledgeBase; similarity: number } | null> {
+    // Rejected entries are compared too, so rejected insights aren't proposed again
+    const { results } = await this.retriever.search({
+      query: `${insight.topic}\n${insight.content}`,
+      statuses: ["approved", "proposed", "rejected"],
+      limit: SIMILARITY_CANDIDATES,
+    });
+
+    let best: { entry: AgentKnowledgeBase; similarity: number } | null = null;
+    for (const { entry } of results) {
+      const similarity = TOPIC_WEIGHT * textSimilarity(insight.topic, entry.topic) +
+        (1 - TOPIC_WEIGHT) * textSimilarity(insight.content, entry.content);
+      if (!best || similarity > best.similarity) {
+        best = { entry, similarity };
+      }
+    }
+    return best;
+  }
+
+  private async addEntry(
+    insight: ExtractedInsight,
+    projectId: number | undefined,
+    actor: KnowledgeActor
+  ): Promise<KnowledgeMergeOutcome> {
+    const id = uuidv4();
+    await this.db.insert(agentKnowledgeBase).values({
+      id,
+      category: insight.category || "pattern",
+      topic: insight.topic,
+      content: insight.content,
+      confidence: insight.confidence || "medium",
+      sourceCount: 1,
+      sourceProjects: projectId !== undefined ? [projectId] : [],
+      status: "proposed",
+      metadata: {
+        tags: insight.tags || [],
+        relatedTopics: [],
+        applicability: insight.applicability || [],
+      },
+    });
+    await new KnowledgeHistory(this.db).record({
+      knowledgeId: id,
+      action: "create",
+      before: null,
+      actor,
+      reason: "Extracted from a conversation",
+    });
+    console.log(`[KNOWLEDGE EXTRACTOR] New knowledge added: "${insight.topic}" (${insight.category || "pattern"})`);
+    return { action: "added", entryId: id, topic: insight.topic };
+  }
+
+  /**
+   * Count the insight's project as a source of the entry — once per project,
+   * and not at all for conversations without a project — and merge in the
+   * combined content when there is one. Only a change to the topic or content
+   * sends the entry back for review.
+   */
+  private async confirmEntry(
+    entry: AgentKnowledgeBase,
+    projectId: number | undefined,
+    similarity: number,
+    actor: KnowledgeActor,
+    merged?: MergedInsight
+  ): Promise<KnowledgeMergeOutcome> {
+    const sourceProjects = entry.sourceProjects || [];
+    const independent = projectId !== undefined && !sourceProjects.includes(projectId);
+    const updates: Partial<InsertAgentKnowledgeBase> = {};
+
+    if (independent) {
+      const sourceCount = (entry.sourceCount || 1) + 1;
+      updates.sourceCount = sourceCount;
+      updates.sourceProjects = [...sourceProjects, projectId];
+      updates.confidence = upgradedConfidence(entry.confidence, sourceCount);
+    }
+
+    const topic = merged?.topic || entry.topic;
+    const content = merged?.content || entry.content;
+    const rewritten = topic !== entry.topic || content !== entry.content;
+
+    if (merged) {
+      const metadata = entry.metadata || {};
+      if (rewritten) {
+        updates.topic = topic;
+        updates.content = content;
+        // Rewritten content needs review again before it is used
+        updates.status = "proposed";
+      }
+      updates.metadata = {
+        ...metadata,
+        tags: unique([...(metadata.tags || []), ...(merged.tags || [])]),
+        applicability: unique([...(metadata.applicability || []), ...(merged.applicability || [])]),
       };
     }
 
-    return { exists: false, currentSourceCount: 0 };
+    if (Object.keys(updates).length > 0) {
+      await this.db
+        .update(agentKnowledgeBase)
+        .set(updates)
+        .where(eq(agentKnowledgeBase.id, entry.id));
+      await new KnowledgeHistory(this.db).record({
+        knowledgeId: entry.id,
+        action: "update",
+        before: entry,
+        actor,
+        reason: rewritten ? "Merged with a similar extracted insight" : "Confirmed by another project",
+      });
+    }
+
+    console.log(
+      `[KNOWLEDGE EXTRACTOR] ${rewritten ? "Merged into" : "Confirmed"} "${entry.topic}"` +
+      (independent ? ` (source count ${updates.sourceCount})` : " (same project, source count unchanged)")
+    );
+    return {
+      action: rewritten ? "merged" : "confirmed",
+      entryId: entry.id,
+      topic: updates.topic || entry.topic,
+      similarity,
+      independentSource: independent,
+    };
+  }
+
+  private async recordConflict(
+    entry: AgentKnowledgeBase,
+    insight: ExtractedInsight,
+    reason: string,
+    projectId: number | undefined,
+    similarity: number,
+    actor: KnowledgeActor
+  ): Promise<KnowledgeMergeOutcome> {
+    const metadata = entry.metadata || {};
+    const conflicts = [
+      ...(metadata.conflicts || []),
+      {
+        topic: insight.topic,
+        content: insight.content,
+        reason,
+        projectId,
+        detectedAt: new Date().toISOString(),
+      },
+    ].slice(-MAX_CONFLICTS);
+
+    await this.db
+      .update(agentKnowledgeBase)
+      .set({ metadata: { ...metadata, conflicts } })
+      .where(eq(agentKnowledgeBase.id, entry.id));
+    await new KnowledgeHistory(this.db).record({
+      knowledgeId: entry.id,
+      action: "update",
+      before: entry,
+      actor,
+      reason: `Conflicting insight: ${reason}`,
+    });
+
+    console.log(`[KNOWLEDGE EXTRACTOR] Conflict with "${entry.topic}": ${reason}`);
+    return { action: "conflict", entryId: entry.id, topic: insight.topic, similarity, reason };
+  }
+
+  /**
+   * Ask the LLM how the insight relates to the entry, and for the combined
+   * entry when they agree
+   */
+  private async compare(entry: AgentKnowledgeBase, insight: ExtractedInsight): Promise<InsightComparison> {
+    const response = await this.llm.invoke({
+      messages: [
+        {
+          role: "system",
+          content: `You maintain the knowledge base of a renewable energy due diligence platform. Compare a NEW insight with an EXISTING knowledge base entry.
+
+Return JSON:
+{
+  "relation": "same|complementary|conflict|distinct",
+  "reason": "One sentence explaining the relation",
+  "merged": { "topic": "...", "content": "...", "tags": ["..."], "applicability": ["..."] }
+}
+
+- same: both say the same thing
+- complementary: same subject, and the new insight adds compatible detail
+- conflict: same subject, but the new insight contradicts the existing entry (different ranges or values, opposite recommendation)
+- distinct: different subjects
+- merged: required for "complementary" only: one entry combining both, keeping every compatible detail. Keep it de-identified (no project names or confidential values). Omit it otherwise.`,
+        },
+        {
+          role: "user",
+          content: `EXISTING ENTRY
+Topic: ${entry.topic}
+Content: ${entry.content}
+
+NEW INSIGHT
+Topic: ${insight.topic}
+Content: ${insight.content}`,
+        },
+      ],
+      responseFormat: { type: "json_object" },
+      maxTokens: 1000,
+    });
+
+    const content = response?.choices?.[0]?.message?.content;
+    const text = typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content.map((part: any) => typeof part === "string" ? part : part?.text || "").join("")
+        : "";
+
+    let parsed: { relation?: unknown; reason?: unknown; merged?: any };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("Insight comparison returned invalid JSON");
+    }
+
+    const relation = parsed.relation;
+    if (relation !== "same" && relation !== "complementary" && relation !== "conflict" && relation !== "distinct") {
+      throw new Error(`Insight comparison returned an unknown relation: ${String(relation)}`);
+    }
+
+    const merged = parsed.merged && typeof parsed.merged.content === "string"
+      ? {
+        topic: typeof parsed.merged.topic === "string" ? parsed.merged.topic.substring(0, 255) : undefined,
+        content: parsed.merged.content,
+        tags: Array.isArray(parsed.merged.tags) ? parsed.merged.tags.map(String) : undefined,
+        applicability: Array.isArray(parsed.merged.applicability) ? parsed.merged.applicability.map(String) : undefined,
+      }
+      : undefined;
+
+    return {
+      relation,
+      reason: typeof parsed.reason === "string" ? parsed.reason : "",
+      merged: relation === "complementary" ? merged : undefined,
+    };
   }
 
   /**
@@ -239,3 +516,36 @@ Extract any generalizable insights (benchmarks, patterns, best practices, regula
     };
   }
 }
+
+/**
+ * Cosine similarity of the word counts of two texts, 0-1
+ */
+function textSimilarity(a: string, b: string): number {
+  const counts = (text: string) => {
+    const map = new Map<string, number>();
+    for (const token of tokenize(text)) map.set(token, (map.get(token) ?? 0) + 1);
+    return map;
+  };
+  const countsA = counts(a);
+  const countsB = counts(b);
+
+  let dot = 0;
+  for (const [token, count] of countsA) dot += count * (countsB.get(token) ?? 0);
+  const norm = (map: Map<string, number>) => Math.sqrt(Array.from(map.values()).reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(countsA) * norm(countsB);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * Confidence after confirmation by `sourceCount` independent projects;
+ * never lowered
+ */
+function upgradedConfidence(current: string | null, sourceCount: number): string {
+  const levels = ["low", "medium", "high"];
+  const earned = sourceCount >= 3 ? "high" : sourceCount >= 2 ? "medium" : "low";
+  return levels.indexOf(earned) > levels.indexOf(current || "medium") ? earned : current || "medium";
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+}
@@ -0,0 +1,214 @@
+import { v4 as uuidv4 } from "uuid";
+import { eq, desc, and } from "drizzle-orm";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import {
+  agentKnowledgeBase,
+  agentKnowledgeBaseHistory,
+  type AgentKnowledgeBase,
+  type AgentKnowledgeBaseHistory,
+  type InsertAgentKnowledgeBase,
+} from "./schema";
+
+/**
+ * Knowledge History
+ *
+ * Records every change to a knowledge base entry — who made it (a user, the
+ * agent on behalf of a user, or the system), what changed and why — with a
+ * snapshot of the entry, so an earlier version can be restored, including
+ * after the entry was deleted.
+ */
+
+export type KnowledgeHistoryAction = "create" | "update" | "review" | "delete" | "restore";
+
+export type KnowledgeActor =
+  | { type: "user"; userId: number }
+  | { type: "agent"; userId?: number; conversationId?: string }
+  | { type: "system" };
+
+export interface RecordKnowledgeChangeParams {
+  knowledgeId: string;
+  action: KnowledgeHistoryAction;
+  /** The entry before the change; null for creations */
+  before: AgentKnowledgeBase | null;
+  actor: KnowledgeActor;
+  reason?: string;
+}
+
+// Entry fields kept in snapshots and compared for the diff
+const TRACKED_FIELDS = [
+  "category",
+  "topic",
+  "content",
+  "confidence",
+  "sourceCount",
+  "sourceProjects",
+  "status",
+  "reviewedBy",
+  "reviewedAt",
+  "reviewNote",
+  "metadata",
+] as const;
+
+export class KnowledgeHistory {
+  constructor(private db: MySql2Database<any>) {}
+
+  /**
+   * Record a change after it was made. The entry's current state is read
+   * from the database (missing after a delete). Updates that changed nothing
+   * are not recorded.
+   */
+  async record(params: RecordKnowledgeChangeParams): Promise<AgentKnowledgeBaseHistory | null> {
+    const after = params.action === "delete" ? null : await this.getEntry(params.knowledgeId);
+    const current = after ?? params.before;
+    if (!current) {
+      throw new Error(`Knowledge entry ${params.knowledgeId} not found`);
+    }
+
+    const changes = diff(params.before ? snapshotOf(params.before) : null, after ? snapshotOf(after) : null);
+    if ((params.action === "update" || params.action === "review") && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const [latest] = await this.db
+      .select({ version: agentKnowledgeBaseHistory.version })
+      .from(agentKnowledgeBaseHistory)
+      .where(eq(agentKnowledgeBaseHistory.knowledgeId, params.knowledgeId))
+      .orderBy(desc(agentKnowledgeBaseHistory.version))
+      .limit(1);
+
+    const id = uuidv4();
+    await this.db.insert(agentKnowledgeBaseHistory).values({
+      id,
+      knowledgeId: params.knowledgeId,
+      version: (latest?.version ?? 0) + 1,
+      action: params.action,
+      snapshot: snapshotOf(current),
+      changes,
+      reason: params.reason ?? null,
+      actorType: params.actor.type,
+      actorUserId: params.actor.type === "system" ? null : params.actor.userId ?? null,
+      conversationId: params.actor.type === "agent" ? params.actor.conversationId ?? null : null,
+    });
+
+    const [recorded] = await this.db
+      .select()
+      .from(agentKnowledgeBaseHistory)
+      .where(eq(agentKnowledgeBaseHistory.id, id));
+    return recorded || null;
+  }
+
+  /**
+   * Versions of an entry, newest first
+   */
+  async getHistory(knowledgeId: string): Promise<AgentKnowledgeBaseHistory[]> {
+    return await this.db
+      .select()
+      .from(agentKnowledgeBaseHistory)
+      .where(eq(agentKnowledgeBaseHistory.knowledgeId, knowledgeId))
+      .orderBy(desc(agentKnowledgeBaseHistory.version));
+  }
+
+  /**
+   * Bring an entry back to an earlier version, recreating it if it was
+   * deleted. The restore is recorded as a new version.
+   */
+  async restore(
+    knowledgeId: string,
+    historyId: string,
+    actor: KnowledgeActor,
+    reason?: string
+  ): Promise<AgentKnowledgeBase> {
+    const [version] = await this.db
+      .select()
+      .from(agentKnowledgeBaseHistory)
+      .where(and(
+        eq(agentKnowledgeBaseHistory.id, historyId),
+        eq(agentKnowledgeBaseHistory.knowledgeId, knowledgeId)
+      ));
+    if (!version) {
+      throw new Error(`Version ${historyId} of knowledge entry ${knowledgeId} not found`);
+    }
+
+    const values = fromSnapshot(version.snapshot);
+    const before = await this.getEntry(knowledgeId);
+    if (before) {
+      await this.db
+        .update(agentKnowledgeBase)
+        .set(values)
+        .where(eq(agentKnowledgeBase.id, knowledgeId));
+    } else {
+      await this.db.insert(agentKnowledgeBase).values({
+        ...values,
+        id: knowledgeId,
+        category: values.category!,
+        topic: values.topic!,
+        content: values.content!,
+      });
+    }
+
+    await this.record({
+      knowledgeId,
+      action: "restore",
+      before,
+      actor,
+      reason: reason ?? `Restored version ${version.version}`,
+    });
+
+    const restored = await this.getEntry(knowledgeId);
+    if (!restored) {
+      throw new Error(`Failed to restore knowledge entry ${knowledgeId}`);
+    }
+
+    console.log(`[KNOWLEDGE HISTORY] "${restored.topic}" restored to version ${version.version}`);
+    return restored;
+  }
+
+  private async getEntry(knowledgeId: string): Promise<AgentKnowledgeBase | null> {
+    const [entry] = await this.db
+      .select()
+      .from(agentKnowledgeBase)
+      .where(eq(agentKnowledgeBase.id, knowledgeId));
+
+    return entry || null;
+  }
+}
+
+function snapshotOf(entry: AgentKnowledgeBase): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of TRACKED_FIELDS) {
+    const value = entry[field];
+    snapshot[field] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return snapshot;
+}
+
+function fromSnapshot(snapshot: Record<string, unknown>): Partial<InsertAgentKnowledgeBase> {
+  const values: Record<string, unknown> = {};
+  for (const field of TRACKED_FIELDS) {
+    if (field in snapshot) {
+      values[field] = snapshot[field];
+    }
+  }
+  if (typeof values.reviewedAt === "string") {
+    values.reviewedAt = new Date(values.reviewedAt);
+  }
+  return values as Partial<InsertAgentKnowledgeBase>;
+}
+
+/**
+ * Changed fields between two snapshots
+ */
+function diff(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of TRACKED_FIELDS) {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
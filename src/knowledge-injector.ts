@@ -0,0 +1,194 @@
+import type { KnowledgeRetriever, KnowledgeSearchResult } from "./knowledge-retrieval";
+import type { ProjectRepository } from "./project-repository";
+import { estimateTokens } from "./conversation-manager";
+
+/**
+ * Knowledge Injector
+ *
+ * Picks the knowledge base entries that go into the system prompt for a
+ * turn. Entries are retrieved for the current message and the user's
+ * previous few messages, boosted when their `applicability` tags match the
+ * project's region and technology (read from the project facts), and added
+ * best first until the token budget is spent. Entries that don't match the
+ * question are left out; the agent can still search for them.
+ */
+
+export interface KnowledgeInjectorOptions {
+  /** Prompt tokens available for knowledge entries (default 1500) */
+  tokenBudget?: number;
+  /** Most entries injected per turn (default 8) */
+  maxEntries?: number;
+  /**
+   * Minimum BM25 score for an entry to count as relevant (default 1.0).
+   * Entries below it are only injected on vector similarity.
+   */
+  minBm25Score?: number;
+  /** Minimum vector similarity, when an embedding provider is set (default 0.5) */
+  minVectorScore?: number;
+}
+
+/** Where and what the project is, as lowercase terms matched against `applicability` */
+export interface ProjectProfile {
+  region: string[];
+  technology: string[];
+}
+
+export interface SelectKnowledgeParams {
+  /** User messages of the conversation, oldest first; the last is the current one */
+  userMessages: string[];
+  profile?: ProjectProfile | null;
+}
+
+/** Entry injected into a system prompt, as recorded in message metadata */
+export interface InjectedKnowledge {
+  id: string;
+  topic: string;
+  score: number;
+}
+
+export interface KnowledgeSelection {
+  results: KnowledgeSearchResult[];
+  injected: InjectedKnowledge[];
+  tokens: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = 1500;
+const DEFAULT_MAX_ENTRIES = 8;
+const DEFAULT_MIN_BM25_SCORE = 1.0;
+const DEFAULT_MIN_VECTOR_SCORE = 0.5;
+// Earlier user messages added to the retrieval query
+const CONTEXT_MESSAGES = 2;
+// Entries retrieved before the applicability boost and the budget are applied
+const CANDIDATES = 30;
+// Score multiplier per matching applicability tag (region, technology)
+const APPLICABILITY_BOOST = 0.25;
+
+/**
+ * Countries grouped under the region tags used in `applicability`
+ */
+const REGION_GROUPS: Record<string, string[]> = {
+  mena: [
+    "oman", "uae", "united arab emirates", "saudi arabia", "qatar", "kuwait", "bahrain",
+    "egypt", "jordan", "morocco", "tunisia", "algeria", "iraq", "israel", "lebanon",
+  ],
+  europe: [
+    "spain", "portugal", "italy", "france", "germany", "greece", "netherlands", "poland",
+    "romania", "united kingdom", "uk", "ireland", "belgium", "denmark", "sweden",
+  ],
+  africa: ["south africa", "kenya", "nigeria", "ghana", "namibia", "senegal", "zambia"],
+  asia: ["india", "china", "japan", "vietnam", "philippines", "thailand", "indonesia", "pakistan"],
+  americas: ["united states", "usa", "mexico", "chile", "brazil", "peru", "colombia", "canada"],
+};
+
+const TECHNOLOGY_TERMS = ["solar", "pv", "wind", "bess", "storage", "hybrid", "tracker", "bifacial", "hydrogen"];
+
+// Fact keys (or categories) that hold the project location and technology
+const LOCATION_TERMS = ["country", "location", "region"];
+const TECHNOLOGY_FACT_TERMS = ["technology", "tracker", "module_type", "project_type"];
+
+export class KnowledgeInjector {
+  private tokenBudget: number;
+  private maxEntries: number;
+  private minBm25Score: number;
+  private minVectorScore: number;
+
+  constructor(private retriever: KnowledgeRetriever, options: KnowledgeInjectorOptions = {}) {
+    this.tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.minBm25Score = options.minBm25Score ?? DEFAULT_MIN_BM25_SCORE;
+    this.minVectorScore = options.minVectorScore ?? DEFAULT_MIN_VECTOR_SCORE;
+  }
+
+  /**
+   * Choose the entries for this turn, best first, within the token budget
+   */
+  async select(params: SelectKnowledgeParams): Promise<KnowledgeSelection> {
+    const query = params.userMessages.slice(-(CONTEXT_MESSAGES + 1)).join("\n");
+    if (!query.trim()) {
+      return { results: [], injected: [], tokens: 0 };
+    }
+
+    const { results } = await this.retriever.search({ query, limit: CANDIDATES });
+    const profileTerms = params.profile
+      ? [...params.profile.region, ...params.profile.technology]
+      : [];
+
+    const ranked = results
+      .filter((result) =>
+        result.bm25Score >= this.minBm25Score ||
+        (result.vectorScore !== null && result.vectorScore >= this.minVectorScore)
+      )
+      .map((result) => {
+        const applicability = (result.entry.metadata?.applicability || []).map((tag) => tag.toLowerCase());
+        const matches = profileTerms.filter((term) => applicability.includes(term)).length;
+        return { ...result, score: result.score * (1 + APPLICABILITY_BOOST * matches) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const selected: KnowledgeSearchResult[] = [];
+    let tokens = 0;
+    for (const result of ranked) {
+      if (selected.length >= this.maxEntries) break;
+      const entryTokens = estimateTokens(formatKnowledgeEntry(result));
+      if (tokens + entryTokens > this.tokenBudget) continue;
+      selected.push(result);
+      tokens += entryTokens;
+    }
+
+    return {
+      results: selected,
+      injected: selected.map((result) => ({
+        id: result.entry.id,
+        topic: result.entry.topic,
+        score: Math.round(result.score * 1000) / 1000,
+      })),
+      tokens,
+    };
+  }
+}
+
+/**
+ * Region and technology of a project, from its location and technology facts
+ */
+export async function loadProjectProfile(repository: ProjectRepository): Promise<ProjectProfile> {
+  const facts = await repository.findFacts({
+    text: [...LOCATION_TERMS, ...TECHNOLOGY_FACT_TERMS].map((term) => ({ term, fields: ["category", "key"] })),
+    matchMode: "any",
+    limit: 100,
+  });
+
+  const valuesOf = (terms: string[]) => facts
+    .filter((fact) => terms.some((term) => `${fact.category} ${fact.key}`.toLowerCase().includes(term)))
+    .map((fact) => fact.value || "")
+    .join(" ")
+    .toLowerCase();
+  const locationText = valuesOf(LOCATION_TERMS);
+  const technologyText = valuesOf(TECHNOLOGY_FACT_TERMS);
+
+  const region = new Set<string>();
+  for (const [group, countries] of Object.entries(REGION_GROUPS)) {
+    for (const country of countries) {
+      if (containsWord(locationText, country)) {
+        region.add(country);
+        region.add(group);
+      }
+    }
+  }
+
+  const technology = new Set(TECHNOLOGY_TERMS.filter((term) => containsWord(technologyText, term)));
+  if (technology.has("pv")) technology.add("solar");
+
+  return { region: Array.from(region), technology: Array.from(technology) };
+}
+
+/**
+ * How an entry appears in the system prompt
+ */
+export function formatKnowledgeEntry(result: KnowledgeSearchResult): string {
+  const { entry } = result;
+  return `**${entry.topic}** (${entry.category}, ${entry.confidence} confidence, ${entry.sourceCount} source(s)):\n${entry.content}\n\n`;
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(^|[^a-z])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^a-z])`).test(text);
+}
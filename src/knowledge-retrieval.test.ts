@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { getTableName } from "drizzle-orm";
+import { KnowledgeRetriever, rankBm25, tokenize, type EmbeddingProvider } from "./knowledge-retrieval";
+import type { AgentKnowledgeBase } from "./schema";
+
+function entry(id: string, topic: string, content: string, tags: string[] = []): AgentKnowledgeBase {
+  return {
+    id,
+    category: "technical_benchmark",
+    topic,
+    content,
+    confidence: "medium",
+    sourceCount: 1,
+    sourceProjects: [],
+    status: "approved",
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNote: null,
+    metadata: { tags, relatedTopics: [], applicability: [] },
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-01-01"),
+  } as AgentKnowledgeBase;
+}
+
+const ENTRIES = [
+  entry("clipping", "Inverter clipping losses", "High DC/AC ratios cause clipping losses at midday.", ["inverter"]),
+  entry("soiling", "Soiling losses in desert sites", "Dust causes soiling loss of 3-6% without cleaning."),
+  entry("cable", "DC cable losses", "Cable loss is usually around 1.5% of DC energy."),
+  entry("ppa", "PPA tariff benchmarks", "Recent MENA solar tariffs are below 20 USD/MWh."),
+];
+
+// Knowledge base rows come from memory; embeddings are never stored
+function memoryDb(entries: AgentKnowledgeBase[]): any {
+  return {
+    select: () => ({
+      from: (table: any) => ({
+        where: async () => (getTableName(table) === "agentKnowledgeBase" ? entries : []),
+      }),
+    }),
+    insert: () => ({ values: async () => {} }),
+    update: () => ({ set: () => ({ where: async () => {} }) }),
+  };
+}
+
+describe("tokenize", () => {
+  it("lowercases, drops stop words and stems", () => {
+    expect(tokenize("The Clipping Losses of inverters")).toEqual(["clip", "loss", "inverter"]);
+  });
+
+  it("keeps numbers and unicode letters", () => {
+    expect(tokenize("132 kV Übertragung")).toEqual(["132", "kv", "übertragung"]);
+  });
+});
+
+describe("rankBm25", () => {
+  const documents = ENTRIES.map((e) => ({ id: e.id, text: `${e.topic}\n${e.content}` }));
+
+  it("ranks rare query terms above common ones", () => {
+    const ranked = rankBm25("clipping loss", documents);
+
+    expect(ranked[0].id).toBe("clipping");
+    expect(ranked.map((r) => r.id)).toEqual(expect.arrayContaining(["soiling", "cable"]));
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it("leaves out documents without any query term", () => {
+    expect(rankBm25("clipping loss", documents).map((r) => r.id)).not.toContain("ppa");
+  });
+
+  it("is deterministic", () => {
+    expect(rankBm25("soiling cleaning", documents)).toEqual(rankBm25("soiling cleaning", documents));
+  });
+
+  it("returns nothing for a query of stop words only", () => {
+    expect(rankBm25("what is the", documents)).toEqual([]);
+  });
+});
+
+describe("KnowledgeRetriever", () => {
+  it("ranks by BM25 without an embedding provider", async () => {
+    const retriever = new KnowledgeRetriever(memoryDb(ENTRIES));
+
+    const response = await retriever.search({ query: "inverter clipping" });
+
+    expect(response.method).toBe("bm25");
+    expect(response.results.map((r) => r.entry.id)).toEqual(["clipping"]);
+    expect(response.results[0]).toMatchObject({ score: 1, vectorScore: null });
+  });
+
+  it("falls back to BM25 when the embedding provider fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const provider: EmbeddingProvider = {
+      model: "broken",
+      embed: async () => { throw new Error("embedding service down"); },
+    };
+    const retriever = new KnowledgeRetriever(memoryDb(ENTRIES), { embeddingProvider: provider });
+
+    const response = await retriever.search({ query: "soiling" });
+
+    expect(response.method).toBe("bm25");
+    expect(response.results.map((r) => r.entry.id)).toEqual(["soiling"]);
+  });
+
+  it("blends in vector similarity with an embedding provider", async () => {
+    // One dimension per entry; the query is closest to the tariff entry
+    const vectors: Record<string, number[]> = {
+      query: [0, 0, 0, 1],
+      clipping: [1, 0, 0, 0],
+      soiling: [0, 1, 0, 0],
+      cable: [0, 0, 1, 0],
+      ppa: [0, 0, 0.2, 1],
+    };
+    const provider: EmbeddingProvider = {
+      model: "test",
+      embed: async (texts) => texts.map((text) => {
+        const match = ENTRIES.find((e) => text.startsWith(e.topic));
+        return vectors[match ? match.id : "query"];
+      }),
+    };
+    const retriever = new KnowledgeRetriever(memoryDb(ENTRIES), { embeddingProvider: provider });
+
+    const response = await retriever.search({ query: "electricity price" });
+
+    expect(response.method).toBe("hybrid");
+    expect(response.results.map((r) => r.entry.id)).toEqual(["ppa"]);
+    expect(response.results[0].bm25Score).toBe(0);
+    expect(response.results[0].vectorScore).toBeGreaterThan(0.9);
+  });
+});
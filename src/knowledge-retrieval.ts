@@ -0,0 +1,389 @@
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { eq, and, inArray, type SQL } from "drizzle-orm";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import { agentKnowledgeBase, agentKnowledgeEmbeddings, type AgentKnowledgeBase } from "./schema";
+import type { KnowledgeStatus } from "./knowledge-review";
+
+/**
+ * Knowledge Retrieval
+ *
+ * Ranked search over the knowledge base. Entries are scored with BM25,
+ * computed locally from the topic (weighted double), content, tags and
+ * related topics, so rare query terms such as "clipping" outweigh common
+ * ones such as "loss". With an embedding provider, the BM25 score is blended
+ * with the cosine similarity of the query and entry vectors, which are kept
+ * in agentKnowledgeEmbeddings and re-embedded when an entry changes.
+ *
+ * Only approved entries are searched unless other review statuses are
+ * requested. Ranking runs in memory over the entries that pass the filters,
+ * which suits knowledge bases of up to a few thousand entries.
+ */
+
+/**
+ * Turns text into vectors. `model` identifies the vector space: vectors are
+ * only compared with vectors from the same model.
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface KnowledgeRetrieverOptions {
+  /** Adds vector similarity to the ranking (default: BM25 only) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Share of the vector similarity in the blended score, 0-1 (default 0.5) */
+  vectorWeight?: number;
+  /**
+   * Entries without a matching term are returned when their vector
+   * similarity reaches this value (default 0.35)
+   */
+  minVectorScore?: number;
+}
+
+export interface KnowledgeSearchParams {
+  query: string;
+  category?: string;
+  confidence?: string;
+  /** Review statuses to include (default: approved only) */
+  statuses?: KnowledgeStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface KnowledgeSearchResult {
+  entry: AgentKnowledgeBase;
+  /** Relevance, 0-1, comparable within one search */
+  score: number;
+  bm25Score: number;
+  /** Cosine similarity to the query; null without an embedding provider */
+  vectorScore: number | null;
+}
+
+export interface KnowledgeSearchResponse {
+  results: KnowledgeSearchResult[];
+  /** Matching entries before limit and offset */
+  total: number;
+  method: "bm25" | "hybrid";
+}
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Document length normalization (default 0.75) */
+  b?: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_VECTOR_WEIGHT = 0.5;
+const DEFAULT_MIN_VECTOR_SCORE = 0.35;
+// Texts per embedding request when indexing
+const EMBED_BATCH_SIZE = 64;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "how", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "which", "with",
+]);
+
+export class KnowledgeRetriever {
+  private embeddingProvider?: EmbeddingProvider;
+  private vectorWeight: number;
+  private minVectorScore: number;
+
+  constructor(private db: MySql2Database<any>, options: KnowledgeRetrieverOptions = {}) {
+    this.embeddingProvider = options.embeddingProvider;
+    this.vectorWeight = Math.min(Math.max(options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT, 0), 1);
+    this.minVectorScore = options.minVectorScore ?? DEFAULT_MIN_VECTOR_SCORE;
+  }
+
+  /**
+   * Search the knowledge base, most relevant entries first
+   */
+  async search(params: KnowledgeSearchParams): Promise<KnowledgeSearchResponse> {
+    const limit = params.limit ?? DEFAULT_LIMIT;
+    const offset = params.offset ?? 0;
+
+    const conditions: SQL[] = [inArray(agentKnowledgeBase.status, params.statuses ?? ["approved"])];
+    if (params.category) {
+      conditions.push(eq(agentKnowledgeBase.category, params.category));
+    }
+    if (params.confidence) {
+      conditions.push(eq(agentKnowledgeBase.confidence, params.confidence));
+    }
+
+    const entries = await this.db
+      .select()
+      .from(agentKnowledgeBase)
+      .where(and(...conditions));
+
+    const bm25 = new Map(
+      rankBm25(params.query, entries.map((entry) => ({ id: entry.id, text: knowledgeText(entry) })))
+        .map((ranked) => [ranked.id, ranked.score])
+    );
+    const vectors = await this.vectorScores(params.query, entries);
+    const maxBm25 = Math.max(0, ...Array.from(bm25.values()));
+
+    const results: KnowledgeSearchResult[] = [];
+    for (const entry of entries) {
+      const bm25Score = bm25.get(entry.id) ?? 0;
+      const normalized = maxBm25 > 0 ? bm25Score / maxBm25 : 0;
+
+      if (!vectors) {
+        if (bm25Score > 0) {
+          results.push({ entry, score: normalized, bm25Score, vectorScore: null });
+        }
+        continue;
+      }
+
+      const vectorScore = vectors.get(entry.id) ?? 0;
+      if (bm25Score > 0 || vectorScore >= this.minVectorScore) {
+        const score = (1 - this.vectorWeight) * normalized + this.vectorWeight * Math.max(vectorScore, 0);
+        results.push({ entry, score, bm25Score, vectorScore });
+      }
+    }
+
+    results.sort((a, b) =>
+      b.score - a.score || b.entry.updatedAt.getTime() - a.entry.updatedAt.getTime()
+    );
+
+    return {
+      results: results.slice(offset, offset + limit),
+      total: results.length,
+      method: vectors ? "hybrid" : "bm25",
+    };
+  }
+
+  /**
+   * Embed entries that have no vector for the provider's model yet, or whose
+   * text changed since they were embedded. Searches do this lazily; call it
+   * after bulk imports to keep the first search fast.
+   */
+  async indexEntries(ids?: string[]): Promise<{ indexed: number }> {
+    if (!this.embeddingProvider) {
+      return { indexed: 0 };
+    }
+    if (ids && ids.length === 0) {
+      return { indexed: 0 };
+    }
+
+    const entries = await this.db
+      .select()
+      .from(agentKnowledgeBase)
+      .where(ids ? inArray(agentKnowledgeBase.id, ids) : undefined);
+
+    const vectors = await this.loadVectors(entries);
+    return { indexed: vectors.embedded };
+  }
+
+  /**
+   * Remove the vectors of deleted entries
+   */
+  async removeEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db
+      .delete(agentKnowledgeEmbeddings)
+      .where(inArray(agentKnowledgeEmbeddings.knowledgeId, ids));
+  }
+
+  /**
+   * Cosine similarity of each entry to the query, or null when there is no
+   * embedding provider or it fails (the search then ranks by BM25 only)
+   */
+  private async vectorScores(query: string, entries: AgentKnowledgeBase[]): Promise<Map<string, number> | null> {
+    if (!this.embeddingProvider || entries.length === 0) {
+      return null;
+    }
+
+    try {
+      const [queryVector] = await this.embeddingProvider.embed([query]);
+      const { vectors } = await this.loadVectors(entries);
+
+      const scores = new Map<string, number>();
+      for (const [id, vector] of vectors) {
+        scores.set(id, cosineSimilarity(queryVector, vector));
+      }
+      return scores;
+    } catch (error) {
+      console.warn("[KNOWLEDGE] Embedding search unavailable, ranking by BM25 only:", (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Stored vectors of the entries, embedding the missing and stale ones
+   */
+  private async loadVectors(entries: AgentKnowledgeBase[]): Promise<{ vectors: Map<string, number[]>; embedded: number }> {
+    const provider = this.embeddingProvider!;
+    const vectors = new Map<string, number[]>();
+    if (entries.length === 0) {
+      return { vectors, embedded: 0 };
+    }
+
+    const stored = await this.db
+      .select()
+      .from(agentKnowledgeEmbeddings)
+      .where(eq(agentKnowledgeEmbeddings.model, provider.model));
+    const storedByEntry = new Map(stored.map((row) => [row.knowledgeId, row]));
+
+    const stale: Array<{ entry: AgentKnowledgeBase; text: string; hash: string }> = [];
+    for (const entry of entries) {
+      const text = knowledgeText(entry);
+      const hash = contentHash(text);
+      const row = storedByEntry.get(entry.id);
+      if (row && row.contentHash === hash) {
+        vectors.set(entry.id, row.embedding);
+      } else {
+        stale.push({ entry, text, hash });
+      }
+    }
+
+    for (let start = 0; start < stale.length; start += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(start, start + EMBED_BATCH_SIZE);
+      const embeddings = await provider.embed(batch.map((item) => item.text));
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Embedding provider returned ${embeddings.length} vectors for ${batch.length} texts`);
+      }
+
+      for (let i = 0; i < batch.length; i++) {
+        const { entry, hash } = batch[i];
+        const embedding = embeddings[i];
+        const values = { contentHash: hash, dimensions: embedding.length, embedding };
+
+        const existing = storedByEntry.get(entry.id);
+        if (existing) {
+          await this.db
+            .update(agentKnowledgeEmbeddings)
+            .set(values)
+            .where(eq(agentKnowledgeEmbeddings.id, existing.id));
+        } else {
+          await this.db.insert(agentKnowledgeEmbeddings).values({
+            id: uuidv4(),
+            knowledgeId: entry.id,
+            model: provider.model,
+            ...values,
+          });
+        }
+        vectors.set(entry.id, embedding);
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log(`[KNOWLEDGE] Embedded ${stale.length} knowledge entr${stale.length === 1 ? "y" : "ies"} with ${provider.model}`);
+    }
+    return { vectors, embedded: stale.length };
+  }
+}
+
+/**
+ * BM25 scores of the documents for the query, best first. Documents without
+ * any query term are left out.
+ */
+export function rankBm25(
+  query: string,
+  documents: Bm25Document[],
+  options: Bm25Options = {}
+): Array<{ id: string; score: number }> {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return [];
+  }
+
+  const termCounts = documents.map((document) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(document.text);
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return { id: document.id, counts, length: tokens.length };
+  });
+  const averageLength = termCounts.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const containing = termCounts.filter((doc) => doc.counts.has(term)).length;
+    idf.set(term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)));
+  }
+
+  const ranked: Array<{ id: string; score: number }> = [];
+  for (const doc of termCounts) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = doc.counts.get(term);
+      if (!frequency) continue;
+      score += idf.get(term)! * (frequency * (k1 + 1)) /
+        (frequency + k1 * (1 - b + b * doc.length / averageLength));
+    }
+    if (score > 0) {
+      ranked.push({ id: doc.id, score });
+    }
+  }
+
+  return ranked.sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Lowercased, stemmed words without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Light suffix stripping, so "losses", "clipping" and "clipped" match
+ * "loss" and "clip"
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ing") && word.length > 5) return undouble(word.slice(0, -3));
+  if (word.endsWith("ed") && word.length > 4) return undouble(word.slice(0, -2));
+  if (word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) return word.slice(0, -1);
+  return word;
+}
+
+function undouble(word: string): string {
+  return /([^aeiouls])\1$/.test(word) ? word.slice(0, -1) : word;
+}
+
+/**
+ * The text an entry is ranked and embedded by; the topic counts twice
+ */
+function knowledgeText(entry: AgentKnowledgeBase): string {
+  const metadata = entry.metadata || {};
+  return [
+    entry.topic,
+    entry.topic,
+    entry.content,
+    (metadata.tags || []).join(" "),
+    (metadata.relatedTopics || []).join(" "),
+  ].join("\n");
+}
+
+function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
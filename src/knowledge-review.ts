@@ -0,0 +1,142 @@
+import { eq, and, asc, count, type SQL } from "drizzle-orm";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import { agentKnowledgeBase, type AgentKnowledgeBase } from "./schema";
+import { KnowledgeHistory } from "./knowledge-history";
+
+/**
+ * Knowledge Review
+ *
+ * Knowledge the agent produces itself — extracted from conversations or
+ * added with the add_knowledge tool — starts as "proposed" and is only used
+ * in system prompts and knowledge searches once a reviewer approves it.
+ *
+ * - proposed → approved or rejected
+ * - approved → deprecated (retired)
+ * - rejected or deprecated → approved (reinstated)
+ *
+ * Rejected entries are kept, so the extractor doesn't propose the same
+ * insight again. Every decision is recorded in the entry's history.
+ */
+
+export const KNOWLEDGE_STATUSES = ["proposed", "approved", "rejected", "deprecated"] as const;
+
+export type KnowledgeStatus = typeof KNOWLEDGE_STATUSES[number];
+
+export type KnowledgeReviewDecision = "approve" | "reject" | "deprecate";
+
+export interface ReviewKnowledgeParams {
+  decision: KnowledgeReviewDecision;
+  reviewerId: number;
+  note?: string;
+}
+
+export interface KnowledgeReviewQueueParams {
+  /** Default: "proposed" */
+  status?: KnowledgeStatus;
+  category?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const TRANSITIONS: Record<KnowledgeReviewDecision, { from: KnowledgeStatus[]; to: KnowledgeStatus }> = {
+  approve: { from: ["proposed", "rejected", "deprecated"], to: "approved" },
+  reject: { from: ["proposed"], to: "rejected" },
+  deprecate: { from: ["approved"], to: "deprecated" },
+};
+
+export class KnowledgeReviewManager {
+  constructor(private db: MySql2Database<any>) {}
+
+  /**
+   * Entries with a status (default: proposed), oldest first
+   */
+  async getQueue(params: KnowledgeReviewQueueParams = {}): Promise<{ entries: AgentKnowledgeBase[]; total: number }> {
+    const conditions: SQL[] = [eq(agentKnowledgeBase.status, params.status ?? "proposed")];
+    if (params.category) {
+      conditions.push(eq(agentKnowledgeBase.category, params.category));
+    }
+
+    const entries = await this.db
+      .select()
+      .from(agentKnowledgeBase)
+      .where(and(...conditions))
+      .orderBy(asc(agentKnowledgeBase.createdAt))
+      .limit(params.limit ?? 50)
+      .offset(params.offset ?? 0);
+
+    const [countResult] = await this.db
+      .select({ total: count() })
+      .from(agentKnowledgeBase)
+      .where(and(...conditions));
+
+    return { entries, total: countResult?.total || 0 };
+  }
+
+  /**
+   * Number of entries per status
+   */
+  async getStatusCounts(): Promise<Record<KnowledgeStatus, number>> {
+    const rows = await this.db
+      .select({ status: agentKnowledgeBase.status, total: count() })
+      .from(agentKnowledgeBase)
+      .groupBy(agentKnowledgeBase.status);
+
+    const counts: Record<KnowledgeStatus, number> = { proposed: 0, approved: 0, rejected: 0, deprecated: 0 };
+    for (const row of rows) {
+      if (row.status in counts) {
+        counts[row.status as KnowledgeStatus] = Number(row.total);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Approve, reject or deprecate an entry
+   */
+  async review(entryId: string, params: ReviewKnowledgeParams): Promise<AgentKnowledgeBase> {
+    const entry = await this.getEntry(entryId);
+    if (!entry) {
+      throw new Error(`Knowledge entry ${entryId} not found`);
+    }
+
+    const transition = TRANSITIONS[params.decision];
+    if (!transition.from.includes(entry.status as KnowledgeStatus)) {
+      throw new Error(`Cannot ${params.decision} a knowledge entry that is ${entry.status}`);
+    }
+
+    await this.db
+      .update(agentKnowledgeBase)
+      .set({
+        status: transition.to,
+        reviewedBy: params.reviewerId,
+        reviewedAt: new Date(),
+        reviewNote: params.note ?? null,
+      })
+      .where(eq(agentKnowledgeBase.id, entryId));
+
+    await new KnowledgeHistory(this.db).record({
+      knowledgeId: entryId,
+      action: "review",
+      before: entry,
+      actor: { type: "user", userId: params.reviewerId },
+      reason: params.note,
+    });
+
+    console.log(`[KNOWLEDGE REVIEW] "${entry.topic}" ${entry.status} → ${transition.to} by user ${params.reviewerId}`);
+
+    const reviewed = await this.getEntry(entryId);
+    if (!reviewed) {
+      throw new Error(`Knowledge entry ${entryId} not found`);
+    }
+    return reviewed;
+  }
+
+  private async getEntry(entryId: string): Promise<AgentKnowledgeBase | null> {
+    const [entry] = await this.db
+      .select()
+      .from(agentKnowledgeBase)
+      .where(eq(agentKnowledgeBase.id, entryId));
+
+    return entry || null;
+  }
+}
@@ -1,7 +1,7 @@
 import { v4 as uuidv4 } from "uuid";
 import { eq, and, desc, sql } from "drizzle-orm";
 import type { MySql2Database } from "drizzle-orm/mysql2";
-import { invokeLLM } from "./llm";
+import { createLLMClient, type LLMClient } from "./llm-client";
 import {
   agentLearningSamples,
   agentStyleModels,
@@ -34,7 +34,10 @@ export interface StylePatterns {
 }
 
 export class LearningEngine {
-  constructor(private db: MySql2Database<any>) {}
+  constructor(
+    private db: MySql2Database<any>,
+    private llm: LLMClient = createLLMClient()
+  ) {}
 
   /**
    * Submit user edit for learning
@@ -80,6 +83,7 @@ export class LearningEngine {
       id: sampleId,
       userId: generated.userId,
       projectId: generated.projectId,
+      contentId: generated.id,
       contentType: generated.contentType,
       draftContent: generated.content,
       finalContent,
@@ -121,7 +125,7 @@ ${finalContent}
 Provide your analysis in JSON format.`;
 
     try {
-      const response = await invokeLLM({
+      const response = await this.llm.invoke({
         messages: [
           {
             role: "system",
@@ -298,7 +302,7 @@ Extract:
 Provide your analysis in JSON format.`;
 
     try {
-      const response = await invokeLLM({
+      const response = await this.llm.invoke({
         messages: [
           {
             role: "system",
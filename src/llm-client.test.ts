@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FixtureLLMClient, MockLLMClient, hashLLMRequest, type LLMFixture } from "./llm-client";
+import type { InvokeParams } from "./llm";
+
+const question: InvokeParams = {
+  messages: [
+    { role: "system", content: "You are a due diligence assistant." },
+    { role: "user", content: "What is the DC/AC ratio?" },
+  ],
+  maxTokens: 500,
+};
+
+describe("hashLLMRequest", () => {
+  it("is stable across object key order", () => {
+    const reordered: InvokeParams = {
+      maxTokens: 500,
+      messages: question.messages.map((msg) => ({ content: msg.content, role: msg.role })),
+    };
+
+    expect(hashLLMRequest(reordered)).toBe(hashLLMRequest(question));
+  });
+
+  it("ignores undefined fields but not array order", () => {
+    expect(hashLLMRequest({ ...question, tools: undefined })).toBe(hashLLMRequest(question));
+    expect(hashLLMRequest({ ...question, messages: [...question.messages].reverse() }))
+      .not.toBe(hashLLMRequest(question));
+  });
+});
+
+describe("FixtureLLMClient", () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), "llm-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it("records once in auto mode and replays afterwards", async () => {
+    const mock = new MockLLMClient([{ content: "The ratio is 1.2." }]);
+    const client = new FixtureLLMClient({ fixturesDir, mode: "auto", client: mock });
+
+    const recorded = await client.invoke(question);
+    const replayed = await client.invoke(question);
+
+    expect(mock.calls).toHaveLength(1);
+    expect(replayed).toEqual(recorded);
+    expect(replayed.choices[0].message.content).toBe("The ratio is 1.2.");
+
+    const fixture: LLMFixture = JSON.parse(await fs.readFile(client.fixturePath(question), "utf8"));
+    expect(fixture).toMatchObject({ version: 1, hash: hashLLMRequest(question), request: question });
+  });
+
+  it("replays a recorded fixture without calling a client", async () => {
+    const mock = new MockLLMClient([{ content: "The ratio is 1.2." }]);
+    await new FixtureLLMClient({ fixturesDir, mode: "record", client: mock }).invoke(question);
+
+    const untouched = new MockLLMClient();
+    const replay = new FixtureLLMClient({ fixturesDir, mode: "replay", client: untouched });
+
+    expect((await replay.invoke(question)).choices[0].message.content).toBe("The ratio is 1.2.");
+    expect(untouched.calls).toHaveLength(0);
+  });
+
+  it("throws in replay mode when no fixture was recorded", async () => {
+    const mock = new MockLLMClient([{ content: "Never used." }]);
+    const client = new FixtureLLMClient({ fixturesDir, mode: "replay", client: mock });
+
+    await expect(client.invoke(question)).rejects.toThrow(
+      `No LLM fixture recorded for request ${hashLLMRequest(question)}`
+    );
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it("records again in record mode even when a fixture exists", async () => {
+    const mock = new MockLLMClient([{ content: "First." }, { content: "Second." }]);
+    const client = new FixtureLLMClient({ fixturesDir, mode: "record", client: mock });
+
+    await client.invoke(question);
+    const second = await client.invoke(question);
+
+    expect(mock.calls).toHaveLength(2);
+    expect(second.choices[0].message.content).toBe("Second.");
+    const fixture: LLMFixture = JSON.parse(await fs.readFile(client.fixturePath(question), "utf8"));
+    expect(fixture.response.choices[0].message.content).toBe("Second.");
+  });
+
+  it("matches requests that differ only in what normalize strips", async () => {
+    // Drop the generated conversation ID from the system prompt before hashing
+    const normalize = (params: InvokeParams) => ({
+      ...params,
+      messages: params.messages.map((msg) => ({
+        ...msg,
+        content: typeof msg.content === "string" ? msg.content.replace(/conv-[\w-]+/g, "conv-*") : msg.content,
+      })),
+    });
+    const withConversation = (id: string): InvokeParams => ({
+      messages: [{ role: "system", content: `Conversation ${id}` }, { role: "user", content: "Hi" }],
+    });
+    const mock = new MockLLMClient([{ content: "Hello." }]);
+    const client = new FixtureLLMClient({ fixturesDir, mode: "auto", client: mock, normalize });
+
+    await client.invoke(withConversation("conv-1a2b"));
+    const replayed = await client.invoke(withConversation("conv-9f8e"));
+
+    expect(mock.calls).toHaveLength(1);
+    expect(replayed.choices[0].message.content).toBe("Hello.");
+    expect(client.fixturePath(withConversation("conv-1a2b"))).toBe(client.fixturePath(withConversation("conv-9f8e")));
+    // Without normalize the two requests have different fixtures
+    expect(hashLLMRequest(withConversation("conv-1a2b"))).not.toBe(hashLLMRequest(withConversation("conv-9f8e")));
+  });
+});
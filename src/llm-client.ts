@@ -0,0 +1,312 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { invokeLLM, streamLLM, type InvokeParams, type InvokeResult } from "./llm";
+import type { LLMConfig, LLMStreamDelta } from "./llm-providers";
+
+/**
+ * LLM Clients
+ *
+ * Every component that talks to the model goes through an `LLMClient`, so it
+ * can be swapped out without touching the calling code:
+ * - `DefaultLLMClient` calls the configured provider over HTTP
+ * - `MockLLMClient` returns scripted responses, for tests with no network
+ * - `FixtureLLMClient` records real responses to JSON files and replays them
+ *   by request hash, for regression tests against realistic model output
+ */
+
+export interface LLMClient {
+  invoke(params: InvokeParams): Promise<InvokeResult>;
+  stream(params: InvokeParams): AsyncGenerator<LLMStreamDelta, InvokeResult>;
+}
+
+/**
+ * Client backed by a real provider (resolved from environment variables when
+ * no config is given)
+ */
+export class DefaultLLMClient implements LLMClient {
+  constructor(private config?: LLMConfig) {}
+
+  invoke(params: InvokeParams): Promise<InvokeResult> {
+    return invokeLLM(params, this.config);
+  }
+
+  stream(params: InvokeParams): AsyncGenerator<LLMStreamDelta, InvokeResult> {
+    return streamLLM(params, this.config);
+  }
+}
+
+/**
+ * Create a client for a provider configuration
+ */
+export function createLLMClient(config?: LLMConfig): LLMClient {
+  return new DefaultLLMClient(config);
+}
+
+/**
+ * Replay a complete result as stream deltas, for clients that do not stream
+ */
+async function* streamFromResult(
+  result: InvokeResult
+): AsyncGenerator<LLMStreamDelta, InvokeResult> {
+  const message = result.choices?.[0]?.message;
+  if (typeof message?.content === "string") {
+    // Split on word boundaries so consumers see more than one delta
+    for (const piece of message.content.match(/\S+\s*|\s+/g) || []) {
+      yield { type: "text_delta", text: piece };
+    }
+  }
+  for (const [index, toolCall] of (message?.tool_calls || []).entries()) {
+    yield {
+      type: "tool_call_delta",
+      index,
+      id: toolCall.id,
+      name: toolCall.function.name,
+      argumentsDelta: toolCall.function.arguments,
+    };
+  }
+  return result;
+}
+
+// ============================================================
+// SCRIPTED MOCK
+// ============================================================
+
+/**
+ * Shorthand for a scripted assistant turn
+ */
+export interface MockLLMReply {
+  content?: string;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    arguments?: Record<string, unknown>;
+  }>;
+  model?: string;
+  usage?: InvokeResult["usage"];
+}
+
+/**
+ * One scripted response: a full result, a reply shorthand, or a function
+ * computing either from the request
+ */
+export type MockLLMStep =
+  | InvokeResult
+  | MockLLMReply
+  | ((params: InvokeParams, callIndex: number) => InvokeResult | MockLLMReply);
+
+export interface MockLLMClientOptions {
+  /** Response used once the queue is empty (default: throw) */
+  fallback?: MockLLMStep;
+}
+
+/**
+ * Deterministic client that answers from a queue of scripted responses.
+ * A copy of every request is kept in `calls`, so tests can assert on what
+ * was sent in each round even though the agent keeps appending to its
+ * message list.
+ *
+ * @example
+ * ```typescript
+ * const llm = new MockLLMClient([
+ *   { toolCalls: [{ name: "query_facts", arguments: { category: "Technical_Design" } }] },
+ *   { content: "The project has 300 MWp DC capacity." },
+ * ]);
+ * const agent = new AgentOrchestrator(db, getProjectDb, { llmClient: llm });
+ * ```
+ */
+export class MockLLMClient implements LLMClient {
+  readonly calls: InvokeParams[] = [];
+  private queue: MockLLMStep[];
+  private fallback?: MockLLMStep;
+
+  constructor(steps: MockLLMStep[] = [], options: MockLLMClientOptions = {}) {
+    this.queue = [...steps];
+    this.fallback = options.fallback;
+  }
+
+  /**
+   * Append responses to the script
+   */
+  enqueue(...steps: MockLLMStep[]): this {
+    this.queue.push(...steps);
+    return this;
+  }
+
+  /**
+   * Number of scripted responses not yet consumed
+   */
+  get remaining(): number {
+    return this.queue.length;
+  }
+
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const callIndex = this.calls.length;
+    this.calls.push(structuredClone(params));
+
+    const step = this.queue.length > 0 ? this.queue.shift() : this.fallback;
+    if (!step) {
+      throw new Error(`MockLLMClient: no scripted response left for call #${callIndex + 1}`);
+    }
+
+    const resolved = typeof step === "function" ? step(params, callIndex) : step;
+    return "choices" in resolved ? resolved : this.toResult(resolved, callIndex);
+  }
+
+  stream(params: InvokeParams): AsyncGenerator<LLMStreamDelta, InvokeResult> {
+    const client = this;
+    return (async function* () {
+      return yield* streamFromResult(await client.invoke(params));
+    })();
+  }
+
+  private toResult(reply: MockLLMReply, callIndex: number): InvokeResult {
+    const toolCalls = (reply.toolCalls || []).map((toolCall, index) => ({
+      id: toolCall.id || `call_mock_${callIndex + 1}_${index + 1}`,
+      type: "function" as const,
+      function: {
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.arguments || {}),
+      },
+    }));
+
+    return {
+      id: `mock-${callIndex + 1}`,
+      created: 0,
+      model: reply.model || "mock",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: reply.content || "",
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+        },
+      ],
+      usage: reply.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  }
+}
+
+// ============================================================
+// RECORD / REPLAY FIXTURES
+// ============================================================
+
+/**
+ * - `record`: always call the wrapped client and (over)write the fixture
+ * - `replay`: only read fixtures; a missing fixture is an error
+ * - `auto`: replay when a fixture exists, record otherwise
+ */
+export type FixtureMode = "record" | "replay" | "auto";
+
+export interface FixtureLLMClientOptions {
+  /** Directory holding one `<hash>.json` file per request */
+  fixturesDir: string;
+  mode?: FixtureMode;
+  /** Client used when recording (default: provider from environment variables) */
+  client?: LLMClient;
+  /**
+   * Map a request to the value that is hashed. Use this to strip volatile
+   * parts (generated IDs, dates) so replays still match.
+   */
+  normalize?: (params: InvokeParams) => unknown;
+}
+
+export interface LLMFixture {
+  version: 1;
+  hash: string;
+  request: InvokeParams;
+  response: InvokeResult;
+}
+
+/**
+ * Serialize with sorted object keys so equal requests hash identically
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+const hashValue = (value: unknown): string =>
+  createHash("sha256").update(stableStringify(value)).digest("hex").slice(0, 32);
+
+/**
+ * Hash of a request, used as the fixture file name
+ */
+export function hashLLMRequest(params: InvokeParams): string {
+  return hashValue(params);
+}
+
+/**
+ * Client that records real responses to JSON fixtures and replays them
+ */
+export class FixtureLLMClient implements LLMClient {
+  private mode: FixtureMode;
+  private client?: LLMClient;
+
+  constructor(private options: FixtureLLMClientOptions) {
+    this.mode = options.mode || "replay";
+    this.client = options.client;
+  }
+
+  /**
+   * Fixture file for a request
+   */
+  fixturePath(params: InvokeParams): string {
+    return path.join(this.options.fixturesDir, `${this.hash(params)}.json`);
+  }
+
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const hash = this.hash(params);
+    const file = path.join(this.options.fixturesDir, `${hash}.json`);
+
+    if (this.mode !== "record") {
+      const fixture = await this.readFixture(file);
+      if (fixture) return fixture.response;
+      if (this.mode === "replay") {
+        throw new Error(`No LLM fixture recorded for request ${hash} (expected ${file})`);
+      }
+    }
+
+    const client = this.client || (this.client = createLLMClient());
+    const response = await client.invoke(params);
+
+    const fixture: LLMFixture = { version: 1, hash, request: params, response };
+    await fs.mkdir(this.options.fixturesDir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+    console.log(`[LLM FIXTURE] Recorded ${hash}`);
+
+    return response;
+  }
+
+  stream(params: InvokeParams): AsyncGenerator<LLMStreamDelta, InvokeResult> {
+    const client = this;
+    return (async function* () {
+      return yield* streamFromResult(await client.invoke(params));
+    })();
+  }
+
+  private hash(params: InvokeParams): string {
+    return hashValue(this.options.normalize ? this.options.normalize(params) : params);
+  }
+
+  private async readFixture(file: string): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as LLMFixture;
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { invokeLLM, streamLLM } from "./llm";
+import { AnthropicProvider, type LLMProvider } from "./llm-providers";
+
+function sseResponse(events: Array<Record<string, unknown>>): Response {
+  const body = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join("");
+  return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+}
+
+async function drain<T, R>(stream: AsyncGenerator<T, R>): Promise<{ deltas: T[]; result: R }> {
+  const deltas: T[] = [];
+  let step = await stream.next();
+  while (!step.done) {
+    deltas.push(step.value);
+    step = await stream.next();
+  }
+  return { deltas, result: step.value };
+}
+
+// Provider that sends the request as is and rejects every response shape
+const strictProvider: LLMProvider = {
+  name: "strict",
+  model: "strict-1",
+  buildRequest: (request) => ({ url: "https://llm.test/v1", headers: {}, body: { ...request } }),
+  parseResponse: () => { throw new Error("Unexpected response shape: missing choices"); },
+};
+
+describe("Anthropic stream parser", () => {
+  const provider = new AnthropicProvider({ provider: "anthropic", apiKey: "test", model: "claude-test" });
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function toolStream(partialJson: string[]) {
+    return sseResponse([
+      { type: "message_start", message: { id: "msg_1", model: "claude-test", usage: { input_tokens: 5 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "query_facts", input: {} } },
+      ...partialJson.map((json) => ({
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json: json },
+      })),
+      { type: "content_block_stop", index: 0 },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 7 } },
+      { type: "message_stop" },
+    ]);
+  }
+
+  it("assembles streamed tool input", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => toolStream(['{"category": ', '"Financial"}'])));
+
+    const { result } = await drain(streamLLM({ messages: [{ role: "user", content: "Hi" }] }, provider));
+
+    expect(result.choices[0].message.tool_calls?.[0].function).toEqual({
+      name: "query_facts",
+      arguments: '{"category":"Financial"}',
+    });
+  });
+
+  it("passes truncated tool input on as raw text instead of failing the stream", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => toolStream(['{"category": "Fin'])));
+
+    const { result } = await drain(streamLLM({ messages: [{ role: "user", content: "Hi" }] }, provider));
+
+    const toolCall = result.choices[0].message.tool_calls?.[0];
+    expect(toolCall?.function.arguments).toBe('{"category": "Fin');
+    expect(() => JSON.parse(toolCall!.function.arguments)).toThrow();
+    expect(result.choices[0].finish_reason).toBe("tool_calls");
+  });
+});
+
+describe("invokeLLM retries", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("does not retry errors from parsing the response shape", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ unexpected: true }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(invokeLLM({ messages: [{ role: "user", content: "Hi" }] }, strictProvider))
+      .rejects.toThrow(/Unexpected response shape/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a response body that is not valid JSON", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn(async () => new Response("{\"choices\": [", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = invokeLLM({ messages: [{ role: "user", content: "Hi" }] }, strictProvider);
+    const assertion = expect(result).rejects.toThrow(/Failed to parse LLM response as JSON/);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
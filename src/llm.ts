@@ -1,8 +1,11 @@
-// Environment variables accessed directly for npm package portability
-const ENV = {
-  forgeApiUrl: process.env.FORGE_API_URL || process.env.LLM_API_URL || '',
-  forgeApiKey: process.env.FORGE_API_KEY || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
-};
+import {
+  resolveLLMProvider,
+  type LLMConfig,
+  type LLMHttpRequest,
+  type LLMProvider,
+  type LLMStreamDelta,
+  type ServerSentEvent,
+} from "./llm-providers";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -245,23 +248,6 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () => {
-  // Use OpenAI if custom key provided
-  if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.startsWith('sk-')) {
-    return "https://api.openai.com/v1/chat/completions";
-  }
-  // Otherwise use Manus Forge API
-  return ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
-    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
-    : "https://forge.manus.im/v1/chat/completions";
-};
-
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
-
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -312,76 +298,69 @@ const RETRY_DELAY_MS = 1000;
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
-
+// Transport failures and unparseable response bodies. Errors from
+// `provider.parseResponse` (unexpected response shapes) are not retried.
+const isRetryableError = (error: Error) =>
+  error.message.includes('HTML instead of JSON') ||
+  error.message.includes('Failed to parse LLM response as JSON') ||
+  error.message.includes('502') ||
+  error.message.includes('503') ||
+  error.message.includes('504') ||
+  error.message.includes('ECONNRESET') ||
+  error.message.includes('ETIMEDOUT');
+
+const buildProviderRequest = (
+  provider: LLMProvider,
+  params: InvokeParams,
+  stream: boolean
+): LLMHttpRequest => {
   const {
     messages,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
     outputSchema,
     output_schema,
     responseFormat,
     response_format,
   } = params;
 
-  // Choose model based on provider
-  const useOpenAI = process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.startsWith('sk-');
-  const model = useOpenAI ? "gpt-4o-mini" : "gemini-2.5-flash";
-  
-  const payload: Record<string, unknown> = {
-    model,
+  return provider.buildRequest({
     messages: messages.map(normalizeMessage),
-  };
-
-  if (tools && tools.length > 0) {
-    payload.tools = tools;
-  }
-
-  const normalizedToolChoice = normalizeToolChoice(
-    toolChoice || tool_choice,
-    tools
-  );
-  if (normalizedToolChoice) {
-    payload.tool_choice = normalizedToolChoice;
-  }
-
-  // Set max_tokens based on model - generous limits for rich analytical responses
-  payload.max_tokens = useOpenAI ? 16384 : 32768;
-  
-  // Only add thinking for Gemini models
-  if (!useOpenAI) {
-    payload.thinking = {
-      "budget_tokens": 2048
-    };
-  }
-
-  const normalizedResponseFormat = normalizeResponseFormat({
-    responseFormat,
-    response_format,
-    outputSchema,
-    output_schema,
+    tools,
+    toolChoice: normalizeToolChoice(toolChoice || tool_choice, tools),
+    maxTokens: maxTokens ?? max_tokens,
+    responseFormat: normalizeResponseFormat({
+      responseFormat,
+      response_format,
+      outputSchema,
+      output_schema,
+    }),
+    ...(stream ? { stream: true } : {}),
   });
+};
 
-  if (normalizedResponseFormat) {
-    payload.response_format = normalizedResponseFormat;
-  }
+/**
+ * Invoke the configured LLM provider.
+ * Without a config, the provider is resolved from environment variables.
+ */
+export async function invokeLLM(
+  params: InvokeParams,
+  config?: LLMConfig
+): Promise<InvokeResult> {
+  const provider = resolveLLMProvider(config);
+  const request = buildProviderRequest(provider, params, false);
 
-  // Choose API key based on provider
-  const apiKey = useOpenAI ? process.env.OPENAI_API_KEY! : ENV.forgeApiKey;
-  
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const response = await fetch(resolveApiUrl(), {
+      const response = await fetch(request.url, {
         method: "POST",
-        headers: {
-          "content-type": "application/json",
-          authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(payload),
+        headers: request.headers,
+        body: JSON.stringify(request.body),
       });
 
       if (!response.ok) {
@@ -402,27 +381,19 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
       }
       
       // Try to parse as JSON
+      let raw: unknown;
       try {
-        return JSON.parse(responseText) as InvokeResult;
+        raw = JSON.parse(responseText);
       } catch (parseError) {
         throw new Error(
           `Failed to parse LLM response as JSON: ${responseText.substring(0, 200)}`
         );
       }
+      return provider.parseResponse(raw);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
-      // Check if this is a retryable error
-      const isRetryable = 
-        lastError.message.includes('HTML instead of JSON') ||
-        lastError.message.includes('Failed to parse') ||
-        lastError.message.includes('502') ||
-        lastError.message.includes('503') ||
-        lastError.message.includes('504') ||
-        lastError.message.includes('ECONNRESET') ||
-        lastError.message.includes('ETIMEDOUT');
-      
-      if (isRetryable && attempt < MAX_RETRIES) {
+      if (isRetryableError(lastError) && attempt < MAX_RETRIES) {
         console.log(`[LLM] Attempt ${attempt} failed, retrying in ${RETRY_DELAY_MS * attempt}ms: ${lastError.message}`);
         await sleep(RETRY_DELAY_MS * attempt); // Exponential backoff
         continue;
@@ -434,3 +405,122 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   
   throw lastError || new Error('LLM invocation failed after all retries');
 }
+
+/**
+ * Split a server-sent event stream into individual events
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseEvent = (block: string): ServerSentEvent | null => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop() || "";
+
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event) yield event;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Stream a completion from the configured LLM provider.
+ *
+ * Yields text and tool call deltas as they arrive and returns the assembled
+ * result, which has the same shape `invokeLLM` would have returned. Retries
+ * only happen before the first event; once deltas have been yielded a failure
+ * is thrown to the caller. Providers without streaming support fall back to a
+ * single non-streaming call whose text is yielded as one delta.
+ */
+export async function* streamLLM(
+  params: InvokeParams,
+  config?: LLMConfig
+): AsyncGenerator<LLMStreamDelta, InvokeResult> {
+  const provider = resolveLLMProvider(config);
+
+  if (!provider.createStreamParser) {
+    const result = await invokeLLM(params, provider);
+    const content = result.choices?.[0]?.message?.content;
+    if (typeof content === "string" && content.length > 0) {
+      yield { type: "text_delta", text: content };
+    }
+    return result;
+  }
+
+  const request = buildProviderRequest(provider, params, true);
+
+  let response: Response | null = null;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      response = await fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `LLM stream failed: ${response.status} ${response.statusText} – ${errorText}`
+        );
+      }
+      if (!response.body) {
+        throw new Error("LLM stream failed: response has no body");
+      }
+      break;
+    } catch (error) {
+      response = null;
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      if (isRetryableError(lastError) && attempt < MAX_RETRIES) {
+        console.log(`[LLM] Stream attempt ${attempt} failed, retrying in ${RETRY_DELAY_MS * attempt}ms: ${lastError.message}`);
+        await sleep(RETRY_DELAY_MS * attempt);
+        continue;
+      }
+
+      throw lastError;
+    }
+  }
+
+  if (!response?.body) {
+    throw lastError || new Error('LLM stream failed after all retries');
+  }
+
+  const parser = provider.createStreamParser();
+  for await (const event of readServerSentEvents(response.body)) {
+    for (const delta of parser.push(event)) {
+      yield delta;
+    }
+  }
+
+  return parser.finish();
+}
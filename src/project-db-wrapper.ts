@@ -7,46 +7,42 @@
  */
 
 import mysql from 'mysql2/promise';
-// Default table names - can be extended by the consuming application
-// Note: All tables now use camelCase after migration
-const DEFAULT_TABLES = [
-  'extractedFacts',
-  'redFlags',
-  'documents',
-  'documentChunks',
-  'factSources',
-  'projects'
-];
+import { prefixTableNames, type TablePrefixOptions } from './sql-table-prefixer';
+
+/**
+ * Query surface the tools use to reach project tables.
+ * Implemented by the mysql2 wrappers below and by `SqliteProjectDb`.
+ */
+export interface ProjectDb {
+  execute(query: string, values?: any): Promise<[any, any]>;
+  query(query: string, values?: any): Promise<any>;
+}
+
+/**
+ * Options for the project-aware wrappers
+ */
+export type ProjectDbOptions = TablePrefixOptions;
 
 /**
  * Project-aware database connection
  * Automatically prefixes table names in queries
  */
-export class ProjectDbConnection {
+export class ProjectDbConnection implements ProjectDb {
   private connection: mysql.Connection;
   private projectId: number;
-  private tableNames: string[];
+  private options: ProjectDbOptions;
 
-  constructor(connection: mysql.Connection, projectId: number) {
+  constructor(connection: mysql.Connection, projectId: number, options: ProjectDbOptions = {}) {
     this.connection = connection;
     this.projectId = projectId;
-    this.tableNames = DEFAULT_TABLES;
+    this.options = options;
   }
 
   /**
    * Transform query to use prefixed table names
    */
   private transformQuery(query: string): string {
-    let transformed = query;
-    
-    // Replace each table name with prefixed version
-    // Use word boundaries to avoid partial matches
-    for (const tableName of this.tableNames) {
-      const regex = new RegExp(`\\b${tableName}\\b`, 'gi');
-      transformed = transformed.replace(regex, `proj_${this.projectId}_${tableName}`);
-    }
-    
-    return transformed;
+    return prefixTableNames(query, this.projectId, this.options);
   }
 
   /**
@@ -84,29 +80,22 @@ export class ProjectDbConnection {
  * Project-aware database pool
  * Automatically prefixes table names in queries
  */
-export class ProjectDbPool {
+export class ProjectDbPool implements ProjectDb {
   private pool: mysql.Pool;
   private projectId: number;
-  private tableNames: string[];
+  private options: ProjectDbOptions;
 
-  constructor(pool: mysql.Pool, projectId: number) {
+  constructor(pool: mysql.Pool, projectId: number, options: ProjectDbOptions = {}) {
     this.pool = pool;
     this.projectId = projectId;
-    this.tableNames = DEFAULT_TABLES;
+    this.options = options;
   }
 
   /**
    * Transform query to use prefixed table names
    */
   private transformQuery(query: string): string {
-    let transformed = query;
-    
-    for (const tableName of this.tableNames) {
-      const regex = new RegExp(`\\b${tableName}\\b`, 'gi');
-      transformed = transformed.replace(regex, `proj_${this.projectId}_${tableName}`);
-    }
-    
-    return transformed;
+    return prefixTableNames(query, this.projectId, this.options);
   }
 
   /**
@@ -143,13 +132,21 @@ export class ProjectDbPool {
 /**
  * Create a project-aware connection from a raw mysql2 connection
  */
-export function wrapConnection(connection: mysql.Connection, projectId: number): ProjectDbConnection {
-  return new ProjectDbConnection(connection, projectId);
+export function wrapConnection(
+  connection: mysql.Connection,
+  projectId: number,
+  options: ProjectDbOptions = {}
+): ProjectDbConnection {
+  return new ProjectDbConnection(connection, projectId, options);
 }
 
 /**
  * Create a project-aware pool from a raw mysql2 pool
  */
-export function wrapPool(pool: mysql.Pool, projectId: number): ProjectDbPool {
-  return new ProjectDbPool(pool, projectId);
+export function wrapPool(
+  pool: mysql.Pool,
+  projectId: number,
+  options: ProjectDbOptions = {}
+): ProjectDbPool {
+  return new ProjectDbPool(pool, projectId, options);
 }
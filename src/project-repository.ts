@@ -0,0 +1,708 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ProjectDb } from "./project-db-wrapper";
+import { NOW, deleteFrom, insertInto, select, update, where, type Conditions, type SqlQuery } from "./sql-builder";
+import type { ToolExecutionContext } from "./tool-executor";
+
+/**
+ * Project Repository
+ *
+ * Typed access to a project's tables (extractedFacts, documents,
+ * documentChunks, redFlags). Every tool reads and writes project data through
+ * this class, so they all agree on one schema — the one documented in
+ * DATABASE_SCHEMA_UPDATED.md:
+ * - extractedFacts keeps its snake_case columns and a varchar primary key
+ * - documents, documentChunks and redFlags use camelCase columns
+ * - red flags live in the redFlags table (severity High/Medium/Low)
+ *
+ * Queries are built with `sql-builder` (parameterized values, bounded
+ * limits) on bare table names; the `ProjectDb` wrapper adds the
+ * `proj_<id>_` prefix. Rows are mapped to camelCase models.
+ */
+
+// ============================================================
+// MODELS
+// ============================================================
+
+export type FactDataType = "string" | "number" | "date" | "boolean" | "json";
+
+export interface Fact {
+  id: string;
+  projectId: number | null;
+  category: string;
+  key: string;
+  value: string | null;
+  dataType: string | null;
+  confidence: string | number | null;
+  sourceDocumentId: string | null;
+  extractionMethod: string | null;
+  verified: boolean;
+  createdAt: Date | string | null;
+  updatedAt: Date | string | null;
+}
+
+export interface Document {
+  id: string;
+  fileName: string;
+  documentType: string | null;
+  status: string | null;
+  pageCount: number | null;
+  uploadDate: Date | string | null;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  pageNumber: number | null;
+}
+
+export type RedFlagSeverity = "High" | "Medium" | "Low";
+
+export interface RedFlag {
+  id: string;
+  category: string | null;
+  title: string;
+  description: string | null;
+  severity: string | null;
+  triggerFactId: string | null;
+  downstreamConsequences: string | null;
+  mitigated: boolean;
+  mitigationNotes: string | null;
+  createdAt: Date | string | null;
+  updatedAt: Date | string | null;
+}
+
+// ============================================================
+// QUERY AND INPUT TYPES
+// ============================================================
+
+export type FactField = "category" | "key" | "value";
+
+/**
+ * A partial-match search over one or more fact columns (matches when any
+ * of the fields contains the term)
+ */
+export interface FactTextMatch {
+  term: string;
+  fields: FactField[];
+}
+
+export interface FactQuery {
+  ids?: Array<string | number>;
+  /** Exact category */
+  category?: string;
+  excludeCategory?: string;
+  /** Exact key */
+  key?: string;
+  sourceDocumentId?: string | number;
+  excludeId?: string | number;
+  verified?: boolean;
+  /** Partial matches, combined according to `matchMode` */
+  text?: FactTextMatch[];
+  /** "all" (default) requires every text match, "any" at least one */
+  matchMode?: "all" | "any";
+  orderBy?: "createdAt" | "confidence" | "category" | "categoryKey";
+  limit?: number;
+  offset?: number;
+}
+
+export interface FactInput {
+  category: string;
+  key: string;
+  value: string | null;
+  dataType?: string | null;
+  confidence?: string | number | null;
+  sourceDocumentId?: string | number | null;
+  extractionMethod?: string | null;
+  verified?: boolean;
+}
+
+export type FactChanges = Partial<FactInput>;
+
+export interface FactGroupCount {
+  category: string;
+  key?: string;
+  count: number;
+}
+
+export interface DocumentQuery {
+  ids?: Array<string | number>;
+  documentType?: string;
+  status?: string | string[];
+  fileNameContains?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DocumentStatusCounts {
+  total: number;
+  byStatus: Record<string, number>;
+}
+
+export interface DocumentChunkQuery {
+  documentId?: string | number;
+  search?: string;
+  limit?: number;
+}
+
+export interface RedFlagQuery {
+  /** Partial match on title and description */
+  search?: string;
+  /** Accepts any case; "critical" is treated as High */
+  severity?: string | string[];
+  mitigated?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RedFlagInput {
+  title: string;
+  description?: string | null;
+  severity: string;
+  category?: string | null;
+  triggerFactId?: string | number | null;
+  downstreamConsequences?: string | null;
+}
+
+export interface RedFlagChanges extends Partial<RedFlagInput> {
+  mitigated?: boolean;
+  mitigationNotes?: string | null;
+}
+
+// Limit used when a caller passes a limit that is not a positive number
+const DEFAULT_LIMIT = 50;
+
+// Fact columns selected for the Fact model
+const FACT_COLUMNS = [
+  "id", "project_id", "category", "key", "value", "data_type", "confidence",
+  "source_document_id", "extraction_method", "verified", "created_at", "updated_at",
+];
+
+const FACT_ORDER_BY: Record<NonNullable<FactQuery["orderBy"]>, Array<[string, "ASC" | "DESC"]>> = {
+  createdAt: [["created_at", "DESC"]],
+  confidence: [["confidence", "DESC"]],
+  category: [["category", "ASC"], ["confidence", "DESC"]],
+  categoryKey: [["category", "ASC"], ["key", "ASC"]],
+};
+
+const DOCUMENT_COLUMNS = ["id", "fileName", "documentType", "status", "pageCount", "uploadDate"];
+
+const RED_FLAG_COLUMNS = [
+  "id", "category", "title", "description", "severity", "triggerFactId",
+  "downstreamConsequences", "mitigated", "mitigationNotes", "createdAt", "updatedAt",
+];
+
+const SEVERITY_RANKING: RedFlagSeverity[] = ["High", "Medium", "Low"];
+
+/**
+ * Map any severity spelling the agent uses (critical/high/medium/low, any
+ * case) to the redFlags enum
+ */
+export function normalizeSeverity(severity: string): RedFlagSeverity {
+  switch (severity.trim().toLowerCase()) {
+    case "critical":
+    case "high":
+      return "High";
+    case "medium":
+      return "Medium";
+    case "low":
+      return "Low";
+    default:
+      throw new Error(`Unknown red flag severity "${severity}" (expected High, Medium or Low)`);
+  }
+}
+
+const toBoolean = (value: unknown): boolean => Boolean(Number(value));
+
+const toIdString = (value: unknown): string | null =>
+  value === null || value === undefined || value === "" ? null : String(value);
+
+const optionalId = (value: string | number | undefined): string | undefined =>
+  value === undefined ? undefined : String(value);
+
+const optionalFlag = (value: boolean | undefined): number | undefined =>
+  value === undefined ? undefined : value ? 1 : 0;
+
+export class ProjectRepository {
+  constructor(
+    private projectDb: ProjectDb,
+    readonly projectId?: number
+  ) {}
+
+  private async rows({ sql, values }: SqlQuery): Promise<any[]> {
+    const result = await this.projectDb.execute(sql, values);
+    return result[0] as any[];
+  }
+
+  private async write({ sql, values }: SqlQuery): Promise<number> {
+    const result = await this.projectDb.execute(sql, values);
+    return Number((result[0] as any).affectedRows) || 0;
+  }
+
+  private async count(table: string, conditions: Conditions): Promise<number> {
+    const rows = await this.rows(select(table, []).count().where(conditions).build());
+    return Number(rows[0]?.count) || 0;
+  }
+
+  // ============================================================
+  // FACTS
+  // ============================================================
+
+  private mapFact(row: any): Fact {
+    return {
+      id: String(row.id),
+      projectId: row.project_id ?? null,
+      category: row.category,
+      key: row.key,
+      value: row.value ?? null,
+      dataType: row.data_type ?? null,
+      confidence: row.confidence ?? null,
+      sourceDocumentId: toIdString(row.source_document_id),
+      extractionMethod: row.extraction_method ?? null,
+      verified: toBoolean(row.verified),
+      createdAt: row.created_at ?? null,
+      updatedAt: row.updated_at ?? null,
+    };
+  }
+
+  /**
+   * Conditions for a fact query (soft-deleted facts are excluded)
+   */
+  private factConditions(query: FactQuery): Conditions {
+    const text = where(query.matchMode === "any" ? "any" : "all");
+    for (const match of query.text || []) {
+      text.contains(match.fields, match.term);
+    }
+
+    return where()
+      .isNull("deleted_at")
+      .in("id", query.ids?.map(String))
+      .eq("category", query.category)
+      .ne("category", query.excludeCategory)
+      .eq("key", query.key)
+      .eq("source_document_id", optionalId(query.sourceDocumentId))
+      .ne("id", optionalId(query.excludeId))
+      .eq("verified", optionalFlag(query.verified))
+      .group(text);
+  }
+
+  /**
+   * Find facts matching a query
+   */
+  async findFacts(query: FactQuery = {}): Promise<Fact[]> {
+    const statement = select("extractedFacts", FACT_COLUMNS).where(this.factConditions(query));
+    for (const [column, direction] of FACT_ORDER_BY[query.orderBy || "createdAt"]) {
+      statement.orderBy(column, direction);
+    }
+    if (query.limit !== undefined) {
+      statement.limit(query.limit, { defaultValue: DEFAULT_LIMIT }).offset(query.offset);
+    }
+
+    const rows = await this.rows(statement.build());
+    return rows.map(row => this.mapFact(row));
+  }
+
+  /**
+   * Get a single fact by ID
+   */
+  async getFact(id: string | number): Promise<Fact | null> {
+    const [fact] = await this.findFacts({ ids: [id] });
+    return fact ?? null;
+  }
+
+  /**
+   * Count facts matching a query
+   */
+  async countFacts(query: FactQuery = {}): Promise<number> {
+    return this.count("extractedFacts", this.factConditions(query));
+  }
+
+  /**
+   * Distinct fact categories
+   */
+  async listCategories(): Promise<string[]> {
+    const rows = await this.rows(
+      select("extractedFacts", ["category"])
+        .distinct()
+        .where(where().isNull("deleted_at"))
+        .orderBy("category")
+        .build()
+    );
+    return rows.map(row => row.category);
+  }
+
+  /**
+   * Fact counts grouped by category, or by category and key, largest first
+   */
+  async countBy(groupBy: "category" | "key", limit?: number): Promise<FactGroupCount[]> {
+    const columns = groupBy === "key" ? ["category", "key"] : ["category"];
+    const statement = select("extractedFacts", columns)
+      .count()
+      .where(where().isNull("deleted_at"))
+      .groupBy(...columns)
+      .orderBy("count", "DESC");
+    if (limit !== undefined) {
+      statement.limit(limit, { defaultValue: DEFAULT_LIMIT });
+    }
+
+    const rows = await this.rows(statement.build());
+    return rows.map(row => ({
+      category: row.category,
+      ...(groupBy === "key" ? { key: row.key } : {}),
+      count: Number(row.count) || 0,
+    }));
+  }
+
+  /**
+   * Insert a fact and return it
+   */
+  async createFact(input: FactInput): Promise<Fact> {
+    const id = uuidv4();
+    await this.write(insertInto("extractedFacts", {
+      id,
+      project_id: this.projectId ?? null,
+      category: input.category,
+      key: input.key,
+      value: input.value,
+      data_type: input.dataType ?? "string",
+      confidence: input.confidence ?? null,
+      source_document_id: toIdString(input.sourceDocumentId),
+      extraction_method: input.extractionMethod ?? null,
+      verified: input.verified ? 1 : 0,
+      created_at: NOW,
+      updated_at: NOW,
+    }));
+
+    const fact = await this.getFact(id);
+    if (!fact) throw new Error(`Fact ${id} was not found after insert`);
+    return fact;
+  }
+
+  /**
+   * Update the given fields of a fact. Returns false when the fact does not exist.
+   */
+  async updateFact(id: string | number, changes: FactChanges): Promise<boolean> {
+    const changed = (Object.keys(changes) as Array<keyof FactInput>).filter(field => changes[field] !== undefined);
+    if (changed.length === 0) {
+      throw new Error("No fields to update. Provide at least one field to update.");
+    }
+
+    const affectedRows = await this.write(update(
+      "extractedFacts",
+      {
+        category: changes.category,
+        key: changes.key,
+        value: changes.value,
+        data_type: changes.dataType,
+        confidence: changes.confidence,
+        source_document_id: changes.sourceDocumentId === undefined ? undefined : toIdString(changes.sourceDocumentId),
+        extraction_method: changes.extractionMethod,
+        verified: optionalFlag(changes.verified),
+        updated_at: NOW,
+      },
+      where().eq("id", String(id)).isNull("deleted_at")
+    ));
+    return affectedRows > 0;
+  }
+
+  /**
+   * Update the fact with the same category, key and source document, or
+   * insert a new one
+   */
+  async upsertFact(input: FactInput): Promise<{ fact: Fact; created: boolean }> {
+    const [existing] = await this.findFacts({
+      category: input.category,
+      key: input.key,
+      ...(input.sourceDocumentId != null ? { sourceDocumentId: input.sourceDocumentId } : {}),
+      limit: 1,
+    });
+
+    if (!existing) {
+      return { fact: await this.createFact(input), created: true };
+    }
+
+    await this.updateFact(existing.id, input);
+    return { fact: (await this.getFact(existing.id)) ?? existing, created: false };
+  }
+
+  /**
+   * Delete a fact. Returns the deleted fact, or null when it does not exist.
+   */
+  async deleteFact(id: string | number): Promise<Fact | null> {
+    const fact = await this.getFact(id);
+    if (!fact) return null;
+
+    await this.write(deleteFrom("extractedFacts", where().eq("id", fact.id)));
+    return fact;
+  }
+
+  // ============================================================
+  // DOCUMENTS
+  // ============================================================
+
+  private mapDocument(row: any): Document {
+    return {
+      id: String(row.id),
+      fileName: row.fileName,
+      documentType: row.documentType ?? null,
+      status: row.status ?? null,
+      pageCount: row.pageCount ?? null,
+      uploadDate: row.uploadDate ?? null,
+    };
+  }
+
+  private documentConditions(query: DocumentQuery): Conditions {
+    const statuses = query.status === undefined || Array.isArray(query.status)
+      ? query.status
+      : [query.status];
+
+    return where()
+      .isNull("deletedAt")
+      .in("id", query.ids?.map(String))
+      .eq("documentType", query.documentType)
+      .in("status", statuses)
+      .contains(["fileName"], query.fileNameContains);
+  }
+
+  /**
+   * Find documents, most recently uploaded first
+   */
+  async findDocuments(query: DocumentQuery = {}): Promise<Document[]> {
+    const statement = select("documents", DOCUMENT_COLUMNS)
+      .where(this.documentConditions(query))
+      .orderBy("uploadDate", "DESC");
+    if (query.limit !== undefined) {
+      statement.limit(query.limit, { defaultValue: DEFAULT_LIMIT }).offset(query.offset);
+    }
+
+    const rows = await this.rows(statement.build());
+    return rows.map(row => this.mapDocument(row));
+  }
+
+  /**
+   * Get a single document by ID
+   */
+  async getDocument(id: string | number): Promise<Document | null> {
+    const [document] = await this.findDocuments({ ids: [id] });
+    return document ?? null;
+  }
+
+  /**
+   * Get several documents by ID (unknown IDs are skipped)
+   */
+  async getDocuments(ids: Array<string | number>): Promise<Document[]> {
+    return this.findDocuments({ ids });
+  }
+
+  /**
+   * Count documents matching a query
+   */
+  async countDocuments(query: DocumentQuery = {}): Promise<number> {
+    return this.count("documents", this.documentConditions(query));
+  }
+
+  /**
+   * Document counts grouped by type
+   */
+  async countDocumentsByType(): Promise<Array<{ documentType: string | null; count: number }>> {
+    const rows = await this.rows(
+      select("documents", ["documentType"])
+        .count()
+        .where(where().isNull("deletedAt"))
+        .groupBy("documentType")
+        .orderBy("count", "DESC")
+        .build()
+    );
+    return rows.map(row => ({ documentType: row.documentType ?? null, count: Number(row.count) || 0 }));
+  }
+
+  /**
+   * Document counts grouped by processing status
+   */
+  async countDocumentsByStatus(): Promise<DocumentStatusCounts> {
+    const rows = await this.rows(
+      select("documents", ["status"]).count().where(where().isNull("deletedAt")).groupBy("status").build()
+    );
+
+    const byStatus: Record<string, number> = {};
+    let total = 0;
+    for (const row of rows) {
+      const count = Number(row.count) || 0;
+      byStatus[row.status ?? "unknown"] = count;
+      total += count;
+    }
+    return { total, byStatus };
+  }
+
+  // ============================================================
+  // DOCUMENT CHUNKS
+  // ============================================================
+
+  /**
+   * Find document chunks in document order
+   */
+  async findDocumentChunks(query: DocumentChunkQuery = {}): Promise<DocumentChunk[]> {
+    const statement = select("documentChunks", ["id", "documentId", "chunkIndex", "content", "pageNumber"])
+      .where(where().eq("documentId", optionalId(query.documentId)).contains(["content"], query.search))
+      .orderBy("documentId")
+      .orderBy("chunkIndex");
+    if (query.limit !== undefined) {
+      statement.limit(query.limit, { defaultValue: DEFAULT_LIMIT });
+    }
+
+    const rows = await this.rows(statement.build());
+    return rows.map(row => ({
+      id: String(row.id),
+      documentId: String(row.documentId),
+      chunkIndex: Number(row.chunkIndex) || 0,
+      content: row.content,
+      pageNumber: row.pageNumber ?? null,
+    }));
+  }
+
+  // ============================================================
+  // RED FLAGS
+  // ============================================================
+
+  private mapRedFlag(row: any): RedFlag {
+    return {
+      id: String(row.id),
+      category: row.category ?? null,
+      title: row.title,
+      description: row.description ?? null,
+      severity: row.severity ?? null,
+      triggerFactId: toIdString(row.triggerFactId),
+      downstreamConsequences: row.downstreamConsequences ?? null,
+      mitigated: toBoolean(row.mitigated),
+      mitigationNotes: row.mitigationNotes ?? null,
+      createdAt: row.createdAt ?? null,
+      updatedAt: row.updatedAt ?? null,
+    };
+  }
+
+  private redFlagConditions(query: RedFlagQuery): Conditions {
+    const severities = query.severity === undefined
+      ? undefined
+      : Array.from(new Set(
+        (Array.isArray(query.severity) ? query.severity : [query.severity]).map(normalizeSeverity)
+      ));
+
+    return where()
+      .contains(["title", "description"], query.search)
+      .in("severity", severities)
+      .eq("mitigated", optionalFlag(query.mitigated));
+  }
+
+  /**
+   * Find red flags, most severe first
+   */
+  async findRedFlags(query: RedFlagQuery = {}): Promise<RedFlag[]> {
+    const statement = select("redFlags", RED_FLAG_COLUMNS)
+      .where(this.redFlagConditions(query))
+      .orderByRank("severity", SEVERITY_RANKING)
+      .orderBy("createdAt", "DESC");
+    if (query.limit !== undefined) {
+      statement.limit(query.limit, { defaultValue: DEFAULT_LIMIT }).offset(query.offset);
+    }
+
+    const rows = await this.rows(statement.build());
+    return rows.map(row => this.mapRedFlag(row));
+  }
+
+  /**
+   * Get a single red flag by ID
+   */
+  async getRedFlag(id: string | number): Promise<RedFlag | null> {
+    const rows = await this.rows(
+      select("redFlags", RED_FLAG_COLUMNS).where(where().eq("id", String(id))).build()
+    );
+    return rows[0] ? this.mapRedFlag(rows[0]) : null;
+  }
+
+  /**
+   * Count red flags matching a query
+   */
+  async countRedFlags(query: RedFlagQuery = {}): Promise<number> {
+    return this.count("redFlags", this.redFlagConditions(query));
+  }
+
+  /**
+   * Insert a red flag and return it
+   */
+  async createRedFlag(input: RedFlagInput): Promise<RedFlag> {
+    const id = uuidv4();
+    await this.write(insertInto("redFlags", {
+      id,
+      category: input.category ?? "Other",
+      title: input.title,
+      description: input.description ?? null,
+      severity: normalizeSeverity(input.severity),
+      triggerFactId: toIdString(input.triggerFactId),
+      downstreamConsequences: input.downstreamConsequences ?? null,
+      mitigated: 0,
+      createdAt: NOW,
+      updatedAt: NOW,
+    }));
+
+    const redFlag = await this.getRedFlag(id);
+    if (!redFlag) throw new Error(`Red flag ${id} was not found after insert`);
+    return redFlag;
+  }
+
+  /**
+   * Update the given fields of a red flag. Returns false when it does not exist.
+   */
+  async updateRedFlag(id: string | number, changes: RedFlagChanges): Promise<boolean> {
+    const changed = (Object.keys(changes) as Array<keyof RedFlagChanges>).filter(field => changes[field] !== undefined);
+    if (changed.length === 0) {
+      throw new Error("No fields to update. Provide at least one field to update.");
+    }
+
+    const affectedRows = await this.write(update(
+      "redFlags",
+      {
+        title: changes.title,
+        description: changes.description,
+        severity: changes.severity === undefined ? undefined : normalizeSeverity(changes.severity),
+        category: changes.category,
+        triggerFactId: changes.triggerFactId === undefined ? undefined : toIdString(changes.triggerFactId),
+        downstreamConsequences: changes.downstreamConsequences,
+        mitigated: optionalFlag(changes.mitigated),
+        mitigationNotes: changes.mitigationNotes,
+        updatedAt: NOW,
+      },
+      where().eq("id", String(id))
+    ));
+    return affectedRows > 0;
+  }
+
+  /**
+   * Mark a red flag as mitigated. Returns false when it does not exist.
+   */
+  async resolveRedFlag(id: string | number, mitigationNotes: string): Promise<boolean> {
+    return this.updateRedFlag(id, { mitigated: true, mitigationNotes });
+  }
+
+  /**
+   * Delete a red flag. Returns the deleted red flag, or null when it does not exist.
+   */
+  async deleteRedFlag(id: string | number): Promise<RedFlag | null> {
+    const redFlag = await this.getRedFlag(id);
+    if (!redFlag) return null;
+
+    await this.write(deleteFrom("redFlags", where().eq("id", redFlag.id)));
+    return redFlag;
+  }
+}
+
+/**
+ * Repository for the project a tool runs against
+ */
+export function getProjectRepository(context: ToolExecutionContext): ProjectRepository {
+  if (context.projectRepository) return context.projectRepository;
+  if (!context.projectDb) {
+    throw new Error("Project database not available");
+  }
+  return new ProjectRepository(context.projectDb, context.projectId);
+}
@@ -0,0 +1,379 @@
+import { v4 as uuidv4 } from "uuid";
+import { eq, and, or, lt, ne, isNull, isNotNull, inArray, notInArray, count, sql, type SQL } from "drizzle-orm";
+import type { MySqlColumn, MySqlTable } from "drizzle-orm/mysql-core";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import {
+  agentActions,
+  agentConversations,
+  agentConversationShares,
+  agentGeneratedContent,
+  agentLearningSamples,
+  agentMessages,
+  agentPendingActions,
+  agentRetentionPolicies,
+  type AgentRetentionPolicy,
+} from "./schema";
+
+/**
+ * Retention
+ *
+ * Limits how long conversations and tool outputs (which contain confidential
+ * project facts) are kept. Policies are set globally or per project — a
+ * project policy replaces the global one for that project — and applied by
+ * `runRetention()`, meant to be called from a scheduled job:
+ *
+ * - archive conversations with no activity for `archiveAfterDays`
+ * - replace tool results older than `purgeToolResultsAfterDays` with a
+ *   placeholder (tool messages, agent action outputs, approved action results)
+ * - delete conversations with no activity for `deleteAfterDays`, with their
+ *   messages, shares, pending actions and generated content. Generated
+ *   content that learning samples were built from is kept.
+ */
+
+export interface RetentionPolicySettings {
+  /** Archive conversations after this many days without activity (null: never) */
+  archiveAfterDays?: number | null;
+  /** Purge tool results after this many days (null: keep them) */
+  purgeToolResultsAfterDays?: number | null;
+  /** Delete conversations after this many days without activity (null: never) */
+  deleteAfterDays?: number | null;
+}
+
+export interface RunRetentionOptions {
+  /** Report what would be archived, purged and deleted without changing anything */
+  dryRun?: boolean;
+  /** Reference time for the cutoffs (default: now) */
+  now?: Date;
+}
+
+export interface RetentionCounts {
+  archivedConversations: number;
+  /** Tool messages whose content was replaced */
+  purgedToolResults: number;
+  /** Agent action outputs and approved action results that were cleared */
+  purgedActionOutputs: number;
+  deletedConversations: number;
+  deletedMessages: number;
+  deletedActions: number;
+  deletedGeneratedContent: number;
+  /** Generated content of deleted conversations kept for learning samples */
+  keptGeneratedContent: number;
+}
+
+export interface RetentionScopeReport extends RetentionCounts {
+  /** Project the policy applies to; null for the global policy */
+  projectId: number | null;
+  policy: Required<RetentionPolicySettings>;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  ranAt: Date;
+  scopes: RetentionScopeReport[];
+  totals: RetentionCounts;
+}
+
+/** Content that replaces purged tool results */
+export const PURGED_TOOL_RESULT = JSON.stringify({
+  purged: true,
+  note: "This tool result was removed by the retention policy.",
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Conversations deleted per batch
+const DELETE_BATCH_SIZE = 500;
+
+const emptyCounts = (): RetentionCounts => ({
+  archivedConversations: 0,
+  purgedToolResults: 0,
+  purgedActionOutputs: 0,
+  deletedConversations: 0,
+  deletedMessages: 0,
+  deletedActions: 0,
+  deletedGeneratedContent: 0,
+  keptGeneratedContent: 0,
+});
+
+export class RetentionManager {
+  constructor(private db: MySql2Database<any>) {}
+
+  /**
+   * Get the policy of a project, or the global policy (projectId null)
+   */
+  async getPolicy(projectId: number | null): Promise<AgentRetentionPolicy | null> {
+    const [policy] = await this.db
+      .select()
+      .from(agentRetentionPolicies)
+      .where(projectId === null
+        ? isNull(agentRetentionPolicies.projectId)
+        : eq(agentRetentionPolicies.projectId, projectId));
+
+    return policy || null;
+  }
+
+  /**
+   * Get all policies, the global one first
+   */
+  async getPolicies(): Promise<AgentRetentionPolicy[]> {
+    const policies = await this.db.select().from(agentRetentionPolicies);
+    return policies.sort((a, b) =>
+      a.projectId === null ? -1 : b.projectId === null ? 1 : a.projectId - b.projectId
+    );
+  }
+
+  /**
+   * Create or replace the policy of a project, or the global policy (projectId null)
+   */
+  async setPolicy(
+    projectId: number | null,
+    settings: RetentionPolicySettings,
+    updatedBy?: number
+  ): Promise<AgentRetentionPolicy> {
+    for (const [name, days] of Object.entries(settings)) {
+      if (days != null && (!Number.isInteger(days) || days < 1)) {
+        throw new Error(`${name} must be a whole number of days (at least 1)`);
+      }
+    }
+
+    const values = {
+      archiveAfterDays: settings.archiveAfterDays ?? null,
+      purgeToolResultsAfterDays: settings.purgeToolResultsAfterDays ?? null,
+      deleteAfterDays: settings.deleteAfterDays ?? null,
+      updatedBy: updatedBy ?? null,
+    };
+
+    const existing = await this.getPolicy(projectId);
+    if (existing) {
+      await this.db
+        .update(agentRetentionPolicies)
+        .set(values)
+        .where(eq(agentRetentionPolicies.id, existing.id));
+    } else {
+      await this.db.insert(agentRetentionPolicies).values({ id: uuidv4(), projectId, ...values });
+    }
+
+    const policy = await this.getPolicy(projectId);
+    if (!policy) {
+      throw new Error("Failed to save retention policy");
+    }
+
+    console.log(`[RETENTION] Policy for ${projectId === null ? "all projects" : `project ${projectId}`} set:`, values);
+    return policy;
+  }
+
+  /**
+   * Remove the policy of a project (it falls back to the global policy), or
+   * the global policy (projectId null)
+   */
+  async deletePolicy(projectId: number | null): Promise<void> {
+    await this.db
+      .delete(agentRetentionPolicies)
+      .where(projectId === null
+        ? isNull(agentRetentionPolicies.projectId)
+        : eq(agentRetentionPolicies.projectId, projectId));
+  }
+
+  /**
+   * Apply every policy. With `dryRun`, nothing changes and the report shows
+   * what a real run would do.
+   */
+  async runRetention(options: RunRetentionOptions = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+    const now = options.now ?? new Date();
+    const policies = await this.getPolicies();
+    const projectIdsWithPolicy = policies
+      .map((policy) => policy.projectId)
+      .filter((projectId): projectId is number => projectId !== null);
+
+    const scopes: RetentionScopeReport[] = [];
+    for (const policy of policies) {
+      const scope = policy.projectId === null
+        ? (column: MySqlColumn) => projectIdsWithPolicy.length > 0
+          ? or(isNull(column), notInArray(column, projectIdsWithPolicy))
+          : undefined
+        : (column: MySqlColumn) => eq(column, policy.projectId!);
+
+      scopes.push(await this.applyPolicy(policy, scope, now, dryRun));
+    }
+
+    const totals = emptyCounts();
+    for (const scope of scopes) {
+      for (const key of Object.keys(totals) as Array<keyof RetentionCounts>) {
+        totals[key] += scope[key];
+      }
+    }
+
+    console.log(`[RETENTION] ${dryRun ? "Dry run" : "Run"} complete:`, totals);
+    return { dryRun, ranAt: now, scopes, totals };
+  }
+
+  /**
+   * Apply one policy: delete first, so nothing is purged or archived just
+   * before it is deleted
+   */
+  private async applyPolicy(
+    policy: AgentRetentionPolicy,
+    scope: (projectColumn: MySqlColumn) => SQL | undefined,
+    now: Date,
+    dryRun: boolean
+  ): Promise<RetentionScopeReport> {
+    const counts = emptyCounts();
+    const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+    if (policy.deleteAfterDays != null) {
+      await this.deleteConversations(scope, cutoff(policy.deleteAfterDays), dryRun, counts);
+    }
+    if (policy.purgeToolResultsAfterDays != null) {
+      await this.purgeToolResults(scope, cutoff(policy.purgeToolResultsAfterDays), dryRun, counts);
+    }
+    if (policy.archiveAfterDays != null) {
+      await this.archiveConversations(scope, cutoff(policy.archiveAfterDays), dryRun, counts);
+    }
+
+    return {
+      projectId: policy.projectId,
+      policy: {
+        archiveAfterDays: policy.archiveAfterDays,
+        purgeToolResultsAfterDays: policy.purgeToolResultsAfterDays,
+        deleteAfterDays: policy.deleteAfterDays,
+      },
+      ...counts,
+    };
+  }
+
+  private async deleteConversations(
+    scope: (projectColumn: MySqlColumn) => SQL | undefined,
+    cutoff: Date,
+    dryRun: boolean,
+    counts: RetentionCounts
+  ): Promise<void> {
+    const expired = await this.db
+      .select({ id: agentConversations.id })
+      .from(agentConversations)
+      .where(and(scope(agentConversations.projectId), lt(agentConversations.updatedAt, cutoff)));
+    const ids = expired.map((row) => row.id);
+
+    const learnedFrom = this.db
+      .select({ contentId: agentLearningSamples.contentId })
+      .from(agentLearningSamples)
+      .where(isNotNull(agentLearningSamples.contentId));
+
+    for (let start = 0; start < ids.length; start += DELETE_BATCH_SIZE) {
+      const batch = ids.slice(start, start + DELETE_BATCH_SIZE);
+
+      counts.keptGeneratedContent += await this.count(
+        agentGeneratedContent,
+        and(inArray(agentGeneratedContent.conversationId, batch), inArray(agentGeneratedContent.id, learnedFrom))
+      );
+
+      if (dryRun) {
+        counts.deletedMessages += await this.count(agentMessages, inArray(agentMessages.conversationId, batch));
+        counts.deletedGeneratedContent += await this.count(
+          agentGeneratedContent,
+          and(inArray(agentGeneratedContent.conversationId, batch), notInArray(agentGeneratedContent.id, learnedFrom))
+        );
+      } else {
+        counts.deletedMessages += affectedRows(
+          await this.db.delete(agentMessages).where(inArray(agentMessages.conversationId, batch))
+        );
+        counts.deletedGeneratedContent += affectedRows(
+          await this.db
+            .delete(agentGeneratedContent)
+            .where(and(
+              inArray(agentGeneratedContent.conversationId, batch),
+              notInArray(agentGeneratedContent.id, learnedFrom)
+            ))
+        );
+        await this.db.delete(agentConversationShares).where(inArray(agentConversationShares.conversationId, batch));
+        await this.db.delete(agentPendingActions).where(inArray(agentPendingActions.conversationId, batch));
+        await this.db.delete(agentConversations).where(inArray(agentConversations.id, batch));
+      }
+      counts.deletedConversations += batch.length;
+    }
+
+    // The audit log is kept for the same time as the conversations it describes
+    const expiredActions = and(scope(agentActions.projectId), lt(agentActions.createdAt, cutoff));
+    counts.deletedActions += dryRun
+      ? await this.count(agentActions, expiredActions)
+      : affectedRows(await this.db.delete(agentActions).where(expiredActions));
+  }
+
+  private async purgeToolResults(
+    scope: (projectColumn: MySqlColumn) => SQL | undefined,
+    cutoff: Date,
+    dryRun: boolean,
+    counts: RetentionCounts
+  ): Promise<void> {
+    const conversationsInScope = this.db
+      .select({ id: agentConversations.id })
+      .from(agentConversations)
+      .where(scope(agentConversations.projectId));
+
+    const toolMessages = and(
+      eq(agentMessages.role, "tool"),
+      lt(agentMessages.createdAt, cutoff),
+      ne(agentMessages.content, PURGED_TOOL_RESULT),
+      inArray(agentMessages.conversationId, conversationsInScope)
+    );
+    const actionOutputs = and(
+      scope(agentActions.projectId),
+      lt(agentActions.createdAt, cutoff),
+      isNotNull(agentActions.output)
+    );
+    const pendingResults = and(
+      scope(agentPendingActions.projectId),
+      lt(agentPendingActions.createdAt, cutoff),
+      isNotNull(agentPendingActions.result)
+    );
+
+    if (dryRun) {
+      counts.purgedToolResults += await this.count(agentMessages, toolMessages);
+      counts.purgedActionOutputs += await this.count(agentActions, actionOutputs);
+      counts.purgedActionOutputs += await this.count(agentPendingActions, pendingResults);
+      return;
+    }
+
+    counts.purgedToolResults += affectedRows(
+      await this.db.update(agentMessages).set({ content: PURGED_TOOL_RESULT }).where(toolMessages)
+    );
+    counts.purgedActionOutputs += affectedRows(
+      await this.db.update(agentActions).set({ output: null }).where(actionOutputs)
+    );
+    counts.purgedActionOutputs += affectedRows(
+      await this.db.update(agentPendingActions).set({ result: null }).where(pendingResults)
+    );
+  }
+
+  private async archiveConversations(
+    scope: (projectColumn: MySqlColumn) => SQL | undefined,
+    cutoff: Date,
+    dryRun: boolean,
+    counts: RetentionCounts
+  ): Promise<void> {
+    const inactive = and(
+      scope(agentConversations.projectId),
+      eq(agentConversations.status, "active"),
+      lt(agentConversations.updatedAt, cutoff)
+    );
+
+    counts.archivedConversations += dryRun
+      ? await this.count(agentConversations, inactive)
+      : affectedRows(
+        await this.db
+          .update(agentConversations)
+          // Keep updatedAt, which the delete policy measures inactivity by
+          .set({ status: "archived", updatedAt: sql`${agentConversations.updatedAt}` })
+          .where(inactive)
+      );
+  }
+
+  private async count(table: MySqlTable, where: SQL | undefined): Promise<number> {
+    const [row] = await this.db.select({ total: count() }).from(table).where(where);
+    return Number(row?.total ?? 0);
+  }
+}
+
+function affectedRows(result: unknown): number {
+  const [header] = result as [{ affectedRows?: number }];
+  return header?.affectedRows ?? 0;
+}
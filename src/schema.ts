@@ -15,6 +15,8 @@ export const agentConversations = mysqlTable("agentConversations", {
   userId: int("userId").notNull(),
   projectId: int("projectId"),  // Optional: null for global/non-project conversations
   title: varchar("title", { length: 255 }),
+  titleSource: varchar("titleSource", { length: 20 }).default("default"), // default, generated, user
+  tags: json("tags").$type<string[]>(), // Topic tags; null until the conversation has been tagged
   context: json("context").$type<{
     currentPage?: string;
     workflowStage?: string;
@@ -22,6 +24,10 @@ export const agentConversations = mysqlTable("agentConversations", {
     relevantFacts?: string[];
   }>(),
   status: varchar("status", { length: 20 }).default("active"), // active, archived
+  summary: text("summary"), // Running summary of the messages folded out of the LLM context
+  summaryThroughMessageId: varchar("summaryThroughMessageId", { length: 36 }), // Last message the summary covers
+  summaryUpdatedAt: timestamp("summaryUpdatedAt"),
+  activeLeafMessageId: varchar("activeLeafMessageId", { length: 36 }), // Last message of the active branch
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -33,6 +39,7 @@ export const agentMessages = mysqlTable("agentMessages", {
   id: varchar("id", { length: 36 }).primaryKey(),
   conversationId: varchar("conversationId", { length: 36 }).notNull(),
   role: varchar("role", { length: 20 }).notNull(), // user, assistant, system, tool
+  authorUserId: int("authorUserId"), // User who wrote a user message (differs from the owner in shared conversations)
   content: text("content"),
   toolCalls: json("toolCalls").$type<Array<{
     id: string;
@@ -41,11 +48,14 @@ export const agentMessages = mysqlTable("agentMessages", {
     result?: unknown;
   }>>(),
   toolCallId: varchar("toolCallId", { length: 255 }),
+  toolCallText: text("toolCallText"), // Tool call names and arguments as plain text, for full-text search
+  parentMessageId: varchar("parentMessageId", { length: 36 }), // Previous message on the same branch (null for the first)
   metadata: json("metadata").$type<{
     tokens?: number;
     model?: string;
     latency?: number;
     error?: string;
+    knowledgeInjected?: Array<{ id: string; topic: string; score: number }>; // Knowledge base entries in the system prompt
   }>(),
   createdAt: timestamp("createdAt").defaultNow(),
 });
@@ -99,6 +109,7 @@ export const agentLearningSamples = mysqlTable("agentLearningSamples", {
   id: varchar("id", { length: 36 }).primaryKey(),
   userId: int("userId").notNull(),
   projectId: int("projectId").notNull(),
+  contentId: varchar("contentId", { length: 36 }), // agentGeneratedContent row the draft came from
   contentType: varchar("contentType", { length: 50 }).notNull(), // risk_narrative, report, specification
   draftContent: text("draftContent").notNull(),
   finalContent: text("finalContent").notNull(),
@@ -123,10 +134,23 @@ export const agentKnowledgeBase = mysqlTable("agentKnowledgeBase", {
   content: text("content").notNull(),
   confidence: varchar("confidence", { length: 20 }).default("medium"), // low, medium, high
   sourceCount: int("sourceCount").default(1), // Number of projects this was derived from
+  sourceProjects: json("sourceProjects").$type<number[]>(), // Projects that confirmed it, so each project counts once
+  status: varchar("status", { length: 20 }).notNull().default("approved"), // proposed, approved, rejected, deprecated
+  reviewedBy: int("reviewedBy"),
+  reviewedAt: timestamp("reviewedAt"),
+  reviewNote: text("reviewNote"),
   metadata: json("metadata").$type<{
     tags?: string[];
     relatedTopics?: string[];
     applicability?: string[];
+    // Extracted insights that contradicted this entry, kept for review
+    conflicts?: Array<{
+      topic: string;
+      content: string;
+      reason: string;
+      projectId?: number;
+      detectedAt: string;
+    }>;
   }>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -151,6 +175,92 @@ export const agentGeneratedContent = mysqlTable("agentGeneratedContent", {
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
+/**
+ * Pending actions - risky tool calls waiting for a human to approve or reject them
+ */
+export const agentPendingActions = mysqlTable("agentPendingActions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  conversationId: varchar("conversationId", { length: 36 }).notNull(),
+  userId: int("userId").notNull(), // User whose request produced the tool call
+  projectId: int("projectId"),
+  toolCallId: varchar("toolCallId", { length: 255 }).notNull(),
+  toolName: varchar("toolName", { length: 100 }).notNull(),
+  arguments: json("arguments").$type<Record<string, unknown>>(),
+  riskLevel: varchar("riskLevel", { length: 20 }).notNull(), // write, destructive
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, approved, rejected
+  decidedBy: int("decidedBy"),
+  decisionNote: text("decisionNote"),
+  decidedAt: timestamp("decidedAt"),
+  answeredAt: timestamp("answeredAt"), // When the decision was added to the conversation as the tool result
+  resumedAt: timestamp("resumedAt"), // When the agent was resumed after this action's round
+  result: json("result").$type<{
+    success: boolean;
+    result?: unknown;
+    error?: string;
+  }>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Conversation shares - other users or a whole project team given access to a conversation
+ */
+export const agentConversationShares = mysqlTable("agentConversationShares", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  conversationId: varchar("conversationId", { length: 36 }).notNull(),
+  sharedWithUserId: int("sharedWithUserId"), // Set for a share with one user
+  sharedWithProjectId: int("sharedWithProjectId"), // Set for a share with everyone on the project
+  permission: varchar("permission", { length: 20 }).notNull().default("read"), // read, continue
+  sharedBy: int("sharedBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Retention policies - how long conversations and tool outputs are kept, per project or globally
+ */
+export const agentRetentionPolicies = mysqlTable("agentRetentionPolicies", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  projectId: int("projectId"), // null for the global policy
+  archiveAfterDays: int("archiveAfterDays"), // null: never archive
+  purgeToolResultsAfterDays: int("purgeToolResultsAfterDays"), // null: keep tool results
+  deleteAfterDays: int("deleteAfterDays"), // null: never delete
+  updatedBy: int("updatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Knowledge embeddings - vector index of the knowledge base, one row per entry and embedding model
+ */
+export const agentKnowledgeEmbeddings = mysqlTable("agentKnowledgeEmbeddings", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  knowledgeId: varchar("knowledgeId", { length: 36 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  contentHash: varchar("contentHash", { length: 64 }).notNull(), // Hash of the embedded text, to detect stale vectors
+  dimensions: int("dimensions").notNull(),
+  embedding: json("embedding").$type<number[]>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Knowledge base history - every change to a knowledge entry, with who made it and why
+ */
+export const agentKnowledgeBaseHistory = mysqlTable("agentKnowledgeBaseHistory", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  knowledgeId: varchar("knowledgeId", { length: 36 }).notNull(),
+  version: int("version").notNull(), // 1 for the creation, +1 per change
+  action: varchar("action", { length: 20 }).notNull(), // create, update, review, delete, restore
+  snapshot: json("snapshot").$type<Record<string, unknown>>().notNull(), // Entry after the change (before it, for deletes)
+  changes: json("changes").$type<Record<string, { from: unknown; to: unknown }>>(),
+  reason: text("reason"),
+  actorType: varchar("actorType", { length: 20 }).notNull(), // user, agent, system
+  actorUserId: int("actorUserId"), // Reviewer or editor; for the agent, the user it was working for
+  conversationId: varchar("conversationId", { length: 36 }), // Set for changes made by the agent
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
 // Type exports for TypeScript
 export type AgentConversation = typeof agentConversations.$inferSelect;
 export type InsertAgentConversation = typeof agentConversations.$inferInsert;
@@ -166,3 +276,13 @@ export type AgentKnowledgeBase = typeof agentKnowledgeBase.$inferSelect;
 export type InsertAgentKnowledgeBase = typeof agentKnowledgeBase.$inferInsert;
 export type AgentGeneratedContent = typeof agentGeneratedContent.$inferSelect;
 export type InsertAgentGeneratedContent = typeof agentGeneratedContent.$inferInsert;
+export type AgentPendingAction = typeof agentPendingActions.$inferSelect;
+export type InsertAgentPendingAction = typeof agentPendingActions.$inferInsert;
+export type AgentConversationShare = typeof agentConversationShares.$inferSelect;
+export type InsertAgentConversationShare = typeof agentConversationShares.$inferInsert;
+export type AgentRetentionPolicy = typeof agentRetentionPolicies.$inferSelect;
+export type InsertAgentRetentionPolicy = typeof agentRetentionPolicies.$inferInsert;
+export type AgentKnowledgeEmbedding = typeof agentKnowledgeEmbeddings.$inferSelect;
+export type InsertAgentKnowledgeEmbedding = typeof agentKnowledgeEmbeddings.$inferInsert;
+export type AgentKnowledgeBaseHistory = typeof agentKnowledgeBaseHistory.$inferSelect;
+export type InsertAgentKnowledgeBaseHistory = typeof agentKnowledgeBaseHistory.$inferInsert;
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from "uuid";
 import type { MySql2Database } from "drizzle-orm/mysql2";
 import { agentKnowledgeBase } from "./schema";
+import { KnowledgeHistory } from "./knowledge-history";
 
 /**
  * Seed Knowledge Base
@@ -203,6 +204,7 @@ export async function seedKnowledgeBase(db: MySql2Database<any>): Promise<{
 }> {
   let added = 0;
   let skipped = 0;
+  const history = new KnowledgeHistory(db);
 
   for (const entry of SEED_DATA) {
     // Check if similar entry already exists
@@ -232,6 +234,7 @@ export async function seedKnowledgeBase(db: MySql2Database<any>): Promise<{
         applicability: entry.applicability,
       },
     });
+    await history.record({ knowledgeId: id, action: "create", before: null, actor: { type: "system" }, reason: "Seed data" });
     added++;
   }
 
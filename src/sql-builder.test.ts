@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { ProjectRepository } from "./project-repository";
+import { select, where, escapeLike, boundedInteger, quoteIdentifier, MAX_LIMIT } from "./sql-builder";
+import type { ProjectDb } from "./project-db-wrapper";
+
+/**
+ * Adversarial tool arguments: whatever the LLM passes must reach the
+ * database as bound `?` parameters, never as SQL text.
+ */
+
+const HOSTILE_STRINGS = [
+  "' OR '1'='1",
+  "x'; DROP TABLE documents; --",
+  "\" OR \"\"=\"",
+  "1 /* comment */ OR 1=1",
+  "abc` FROM users; --",
+  "\\'; DELETE FROM extractedFacts; #",
+  "Robert'); DROP TABLE redFlags;--",
+];
+
+// Fragments that must never appear in generated SQL text
+const INJECTED_FRAGMENTS = ["DROP", "DELETE FROM", "--", "/*", "#", "'1'='1", "OR 1=1"];
+
+function recordingDb(): ProjectDb & { queries: Array<{ sql: string; values: unknown[] }> } {
+  const queries: Array<{ sql: string; values: unknown[] }> = [];
+  return {
+    queries,
+    async execute(sql: string, values?: any) {
+      queries.push({ sql, values: values ?? [] });
+      return [[], []];
+    },
+  };
+}
+
+function expectNoInjection(sql: string) {
+  for (const fragment of INJECTED_FRAGMENTS) {
+    expect(sql).not.toContain(fragment);
+  }
+  // Only the LIKE escape character is ever quoted in the SQL text
+  expect(sql.replace(/ESCAPE '!'/g, "")).not.toMatch(/['"]/);
+}
+
+describe("ProjectRepository with hostile arguments", () => {
+  it.each(HOSTILE_STRINGS)("binds document status %j as a parameter", async (status) => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findDocuments({ status, limit: 10 });
+
+    const [{ sql, values }] = db.queries;
+    expectNoInjection(sql);
+    expect(sql).toContain("`status` IN (?)");
+    expect(values).toContain(status);
+  });
+
+  it.each(HOSTILE_STRINGS)("binds file name search %j as an escaped LIKE pattern", async (searchTerm) => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findDocuments({ fileNameContains: searchTerm });
+
+    const [{ sql, values }] = db.queries;
+    expectNoInjection(sql);
+    expect(sql).toContain("`fileName` LIKE ? ESCAPE '!'");
+    expect(values).toContain(`%${escapeLike(searchTerm)}%`);
+  });
+
+  it.each(HOSTILE_STRINGS)("binds fact search %j in every searched field", async (term) => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findFacts({
+      text: [{ term, fields: ["value", "category", "key"] }],
+      category: term,
+    });
+
+    const [{ sql, values }] = db.queries;
+    expectNoInjection(sql);
+    expect(values.filter((value) => value === `%${escapeLike(term)}%`)).toHaveLength(3);
+    expect(values).toContain(term);
+  });
+
+  it.each(HOSTILE_STRINGS)("binds red flag search %j", async (search) => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findRedFlags({ search, limit: 5 });
+
+    const [{ sql }] = db.queries;
+    expectNoInjection(sql);
+  });
+
+  it.each(["5; DROP TABLE x", "1e9", "-1", "Infinity", "NaN", "0x10", "10 OR 1=1", {}, [], true])(
+    "never writes limit/offset %j into SQL",
+    async (value) => {
+      const db = recordingDb();
+      await new ProjectRepository(db, 1).findDocuments({ limit: value as any, offset: value as any });
+
+      const [{ sql }] = db.queries;
+      expectNoInjection(sql);
+      const limit = sql.match(/LIMIT (\d+)/);
+      expect(limit).not.toBeNull();
+      expect(Number(limit![1])).toBeLessThanOrEqual(MAX_LIMIT);
+      expect(sql).toMatch(/LIMIT \d+( OFFSET \d+)?$/);
+    }
+  );
+
+  it("caps a huge limit and keeps a numeric string offset", async () => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findDocuments({ limit: "1e9" as any, offset: "20" as any });
+
+    expect(db.queries[0].sql).toMatch(/LIMIT 1000 OFFSET 20$/);
+  });
+
+  it("falls back to the default limit for an injected limit", async () => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findDocuments({ limit: "5; DROP TABLE x" as any });
+
+    expect(db.queries[0].sql).toMatch(/LIMIT 50$/);
+  });
+});
+
+describe("LIKE escaping", () => {
+  it.each([
+    ["100%", "100!%"],
+    ["file_name", "file!_name"],
+    ["wow!", "wow!!"],
+    ["!%_", "!!!%!_"],
+  ])("escapes %j as %j", (term, escaped) => {
+    expect(escapeLike(term)).toBe(escaped);
+  });
+
+  it("binds the escaped term for chunk searches", async () => {
+    const db = recordingDb();
+    await new ProjectRepository(db, 1).findDocumentChunks({ search: "50%_off!" });
+
+    expect(db.queries[0].values).toEqual(["%50!%!_off!!%"]);
+  });
+});
+
+describe("identifiers", () => {
+  it.each([
+    "status; DROP TABLE x",
+    "status`",
+    "`status`",
+    "a b",
+    "1abc",
+    "",
+    "status--",
+    "documents.status",
+  ])("rejects %j", (name) => {
+    expect(() => quoteIdentifier(name)).toThrow(/Invalid SQL identifier/);
+    expect(() => where().eq(name, "x")).toThrow(/Invalid SQL identifier/);
+    expect(() => select("documents", [name]).build()).toThrow(/Invalid SQL identifier/);
+  });
+
+  it("rejects tables that are not project tables", () => {
+    expect(() => select("users", ["id"]).build()).toThrow(/Unknown project table/);
+    expect(() => select("documents; DROP TABLE x", ["id"]).build()).toThrow(/Unknown project table/);
+  });
+
+  it("rejects an injected sort direction", () => {
+    expect(() => select("documents", ["id"]).orderBy("id", "DESC; DROP TABLE x" as any)).toThrow(/Invalid sort direction/);
+  });
+});
+
+describe("boundedInteger", () => {
+  it.each([
+    [10, 10],
+    ["10", 10],
+    [10.9, 10],
+    ["1e9", MAX_LIMIT],
+    [1e9, MAX_LIMIT],
+    ["5; DROP TABLE x", 50],
+    [-5, 50],
+    [0, 50],
+    [Infinity, 50],
+    [null, 50],
+    [undefined, 50],
+    [{}, 50],
+  ])("coerces %j to %j", (value, expected) => {
+    expect(boundedInteger(value, 50, MAX_LIMIT)).toBe(expected);
+  });
+
+  it("returns undefined without a fallback", () => {
+    expect(boundedInteger("abc", undefined, MAX_LIMIT)).toBeUndefined();
+  });
+});
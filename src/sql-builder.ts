@@ -0,0 +1,365 @@
+/**
+ * SQL Builder
+ *
+ * Small query builder for project tables. Tool arguments come from the LLM
+ * and are untrusted, so nothing they contain is ever spliced into SQL text:
+ * - values always travel as `?` parameters
+ * - identifiers (tables, columns) must be plain names and are backtick-quoted;
+ *   tables must be registered project tables
+ * - LIMIT/OFFSET are coerced to bounded integers before they are written
+ * - LIKE terms are escaped, so `%` and `_` in a search term match literally
+ *
+ * @example
+ * ```typescript
+ * const { sql, values } = select('documents', ['id', 'fileName'])
+ *   .where(where().eq('status', args.status).contains(['fileName'], args.searchTerm))
+ *   .orderBy('uploadDate', 'DESC')
+ *   .limit(args.limit, { defaultValue: 50 })
+ *   .build();
+ * const [rows] = await projectDb.execute(sql, values);
+ * ```
+ */
+
+import { DEFAULT_PROJECT_TABLES } from './sql-table-prefixer';
+
+export interface SqlQuery {
+  sql: string;
+  values: unknown[];
+}
+
+/**
+ * Value placeholder rendered as the database's current timestamp
+ */
+export const NOW: unique symbol = Symbol('NOW');
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface LimitOptions {
+  /** Used when the value is missing or not a positive number (default: no LIMIT) */
+  defaultValue?: number;
+  /** Upper bound (default: MAX_LIMIT) */
+  max?: number;
+}
+
+export interface SqlBuilderOptions {
+  /** Tables the query may use, on top of `DEFAULT_PROJECT_TABLES` */
+  tables?: string[];
+}
+
+/** Largest LIMIT a query may use unless a lower `max` is given */
+export const MAX_LIMIT = 1000;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Escape character for LIKE patterns; `!` works in both MySQL and SQLite
+const LIKE_ESCAPE = '!';
+
+/**
+ * Quote a column or table name, rejecting anything that is not a plain name
+ */
+export function quoteIdentifier(name: string): string {
+  if (typeof name !== 'string' || !IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid SQL identifier: ${JSON.stringify(name)}`);
+  }
+  return `\`${name}\``;
+}
+
+/**
+ * Escape LIKE wildcards so the term matches literally
+ */
+export function escapeLike(term: string): string {
+  return term.replace(/[!%_]/g, (char) => `${LIKE_ESCAPE}${char}`);
+}
+
+/**
+ * Coerce an untrusted LIMIT/OFFSET-style value to an integer in [0, max].
+ * Returns `fallback` for missing, non-numeric, negative or zero values.
+ */
+export function boundedInteger(
+  value: unknown,
+  fallback: number | undefined,
+  max: number
+): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number <= 0) {
+    return fallback === undefined ? undefined : Math.min(Math.floor(fallback), max);
+  }
+  return Math.min(Math.floor(number), max);
+}
+
+const renderValue = (value: unknown, values: unknown[]): string => {
+  if (value === NOW) return 'NOW()';
+  values.push(value === undefined ? null : value);
+  return '?';
+};
+
+const checkTable = (table: string, options: SqlBuilderOptions): string => {
+  const tables = [...DEFAULT_PROJECT_TABLES, ...(options.tables || [])];
+  if (!tables.includes(table)) {
+    throw new Error(`Unknown project table: ${JSON.stringify(table)}`);
+  }
+  return quoteIdentifier(table);
+};
+
+// ============================================================
+// CONDITIONS
+// ============================================================
+
+/**
+ * A list of conditions joined with AND (or OR for `where('any')`).
+ * Methods that receive `undefined` add nothing, so optional tool arguments
+ * can be passed straight through.
+ */
+export class Conditions {
+  private clauses: string[] = [];
+  private values: unknown[] = [];
+
+  constructor(private mode: 'all' | 'any' = 'all') {}
+
+  get isEmpty(): boolean {
+    return this.clauses.length === 0;
+  }
+
+  private add(clause: string, values: unknown[] = []): this {
+    this.clauses.push(clause);
+    this.values.push(...values);
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    if (value === undefined) return this;
+    if (value === null) return this.isNull(column);
+    return this.add(`${quoteIdentifier(column)} = ?`, [value]);
+  }
+
+  ne(column: string, value: unknown): this {
+    if (value === undefined) return this;
+    if (value === null) return this.isNotNull(column);
+    return this.add(`${quoteIdentifier(column)} != ?`, [value]);
+  }
+
+  /**
+   * Column is one of the values (an empty list matches nothing)
+   */
+  in(column: string, values: unknown[] | undefined): this {
+    if (values === undefined) return this;
+    if (values.length === 0) return this.add('1 = 0');
+    return this.add(`${quoteIdentifier(column)} IN (${values.map(() => '?').join(', ')})`, values);
+  }
+
+  isNull(column: string): this {
+    return this.add(`${quoteIdentifier(column)} IS NULL`);
+  }
+
+  isNotNull(column: string): this {
+    return this.add(`${quoteIdentifier(column)} IS NOT NULL`);
+  }
+
+  /**
+   * Any of the columns contains the term (case sensitivity follows the column collation)
+   */
+  contains(columns: string[], term: string | undefined): this {
+    if (term === undefined || term === '' || columns.length === 0) return this;
+    const pattern = `%${escapeLike(String(term))}%`;
+    const clause = columns
+      .map((column) => `${quoteIdentifier(column)} LIKE ? ESCAPE '${LIKE_ESCAPE}'`)
+      .join(' OR ');
+    return this.add(`(${clause})`, columns.map(() => pattern));
+  }
+
+  /**
+   * Nest another condition list (e.g. an OR group inside an AND list)
+   */
+  group(conditions: Conditions): this {
+    if (conditions.isEmpty) return this;
+    const { sql, values } = conditions.build();
+    return this.add(`(${sql})`, values);
+  }
+
+  build(): SqlQuery {
+    return {
+      sql: this.clauses.join(this.mode === 'any' ? ' OR ' : ' AND '),
+      values: [...this.values],
+    };
+  }
+}
+
+/**
+ * Start a condition list; `'any'` joins the conditions with OR
+ */
+export function where(mode: 'all' | 'any' = 'all'): Conditions {
+  return new Conditions(mode);
+}
+
+const renderWhere = (conditions: Conditions | undefined, values: unknown[]): string => {
+  if (!conditions || conditions.isEmpty) return '';
+  const built = conditions.build();
+  values.push(...built.values);
+  return ` WHERE ${built.sql}`;
+};
+
+// ============================================================
+// SELECT
+// ============================================================
+
+export class SelectQuery {
+  private conditions?: Conditions;
+  private isDistinct = false;
+  private countAlias?: string;
+  private groupColumns: string[] = [];
+  private order: Array<{ sql: string; values: unknown[] }> = [];
+  private limitValue?: number;
+  private offsetValue?: number;
+
+  constructor(
+    private table: string,
+    private columns: string[],
+    private options: SqlBuilderOptions = {}
+  ) {}
+
+  distinct(): this {
+    this.isDistinct = true;
+    return this;
+  }
+
+  /**
+   * Add `COUNT(*) AS <alias>` to the selected columns
+   */
+  count(alias = 'count'): this {
+    quoteIdentifier(alias);
+    this.countAlias = alias;
+    return this;
+  }
+
+  where(conditions: Conditions): this {
+    this.conditions = conditions;
+    return this;
+  }
+
+  groupBy(...columns: string[]): this {
+    columns.forEach(quoteIdentifier);
+    this.groupColumns.push(...columns);
+    return this;
+  }
+
+  orderBy(column: string, direction: SortDirection = 'ASC'): this {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new Error(`Invalid sort direction: ${JSON.stringify(direction)}`);
+    }
+    this.order.push({ sql: `${quoteIdentifier(column)} ${direction}`, values: [] });
+    return this;
+  }
+
+  /**
+   * Order by the position of the column's value in `ranking`; other values sort last
+   */
+  orderByRank(column: string, ranking: unknown[]): this {
+    const cases = ranking.map((_, index) => `WHEN ? THEN ${index + 1}`).join(' ');
+    this.order.push({
+      sql: `CASE ${quoteIdentifier(column)} ${cases} ELSE ${ranking.length + 1} END`,
+      values: [...ranking],
+    });
+    return this;
+  }
+
+  /**
+   * Bounded LIMIT; invalid values fall back to `defaultValue` (or no LIMIT)
+   */
+  limit(value: unknown, options: LimitOptions = {}): this {
+    this.limitValue = boundedInteger(value, options.defaultValue, options.max ?? MAX_LIMIT);
+    return this;
+  }
+
+  /**
+   * Bounded OFFSET; invalid values mean no offset
+   */
+  offset(value: unknown, max = Number.MAX_SAFE_INTEGER): this {
+    this.offsetValue = boundedInteger(value, undefined, max);
+    return this;
+  }
+
+  build(): SqlQuery {
+    const values: unknown[] = [];
+    const columns = this.columns.map(quoteIdentifier);
+    if (this.countAlias) columns.push(`COUNT(*) AS ${quoteIdentifier(this.countAlias)}`);
+    if (columns.length === 0) throw new Error('SELECT needs at least one column');
+
+    let sql = `SELECT ${this.isDistinct ? 'DISTINCT ' : ''}${columns.join(', ')} FROM ${checkTable(this.table, this.options)}`;
+    sql += renderWhere(this.conditions, values);
+    if (this.groupColumns.length > 0) {
+      sql += ` GROUP BY ${this.groupColumns.map(quoteIdentifier).join(', ')}`;
+    }
+    if (this.order.length > 0) {
+      sql += ` ORDER BY ${this.order.map((entry) => entry.sql).join(', ')}`;
+      this.order.forEach((entry) => values.push(...entry.values));
+    }
+    if (this.limitValue !== undefined) {
+      sql += ` LIMIT ${this.limitValue}`;
+      if (this.offsetValue !== undefined) sql += ` OFFSET ${this.offsetValue}`;
+    }
+
+    return { sql, values };
+  }
+}
+
+export function select(table: string, columns: string[], options: SqlBuilderOptions = {}): SelectQuery {
+  return new SelectQuery(table, columns, options);
+}
+
+// ============================================================
+// INSERT / UPDATE / DELETE
+// ============================================================
+
+/**
+ * INSERT of one row; `undefined` values are left out
+ */
+export function insertInto(
+  table: string,
+  row: Record<string, unknown>,
+  options: SqlBuilderOptions = {}
+): SqlQuery {
+  const columns = Object.keys(row).filter((column) => row[column] !== undefined);
+  if (columns.length === 0) throw new Error('INSERT needs at least one column');
+
+  const values: unknown[] = [];
+  const placeholders = columns.map((column) => renderValue(row[column], values));
+  return {
+    sql: `INSERT INTO ${checkTable(table, options)} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${placeholders.join(', ')})`,
+    values,
+  };
+}
+
+/**
+ * UPDATE of the given columns; `undefined` values are left out. Refuses to
+ * run without conditions so a bad argument can't update the whole table.
+ */
+export function update(
+  table: string,
+  changes: Record<string, unknown>,
+  conditions: Conditions,
+  options: SqlBuilderOptions = {}
+): SqlQuery {
+  const columns = Object.keys(changes).filter((column) => changes[column] !== undefined);
+  if (columns.length === 0) throw new Error('No fields to update. Provide at least one field to update.');
+  if (conditions.isEmpty) throw new Error('UPDATE without conditions is not allowed');
+
+  const values: unknown[] = [];
+  const assignments = columns.map((column) => `${quoteIdentifier(column)} = ${renderValue(changes[column], values)}`);
+  const sql = `UPDATE ${checkTable(table, options)} SET ${assignments.join(', ')}${renderWhere(conditions, values)}`;
+  return { sql, values };
+}
+
+/**
+ * DELETE matching rows. Refuses to run without conditions.
+ */
+export function deleteFrom(
+  table: string,
+  conditions: Conditions,
+  options: SqlBuilderOptions = {}
+): SqlQuery {
+  if (conditions.isEmpty) throw new Error('DELETE without conditions is not allowed');
+
+  const values: unknown[] = [];
+  const sql = `DELETE FROM ${checkTable(table, options)}${renderWhere(conditions, values)}`;
+  return { sql, values };
+}
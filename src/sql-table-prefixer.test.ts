@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { prefixTableNames } from "./sql-table-prefixer";
+
+const prefix = (query: string) => prefixTableNames(query, 7);
+const strict = (query: string) => prefixTableNames(query, 7, { strict: true });
+
+describe("prefixTableNames", () => {
+  it.each([
+    ["SELECT * FROM extractedFacts WHERE id = ?", "SELECT * FROM proj_7_extractedFacts WHERE id = ?"],
+    ["INSERT INTO redFlags (title) VALUES (?)", "INSERT INTO proj_7_redFlags (title) VALUES (?)"],
+    ["UPDATE IGNORE documents SET status = ?", "UPDATE IGNORE proj_7_documents SET status = ?"],
+    ["DELETE FROM factSources WHERE factId = ?", "DELETE FROM proj_7_factSources WHERE factId = ?"],
+  ])("prefixes %j", (query, expected) => {
+    expect(prefix(query)).toBe(expected);
+  });
+
+  it("prefixes joined tables but not aliases or columns", () => {
+    expect(prefix(
+      "SELECT f.documents FROM extractedFacts f LEFT JOIN factSources s ON s.factId = f.id"
+    )).toBe(
+      "SELECT f.documents FROM proj_7_extractedFacts f LEFT JOIN proj_7_factSources s ON s.factId = f.id"
+    );
+  });
+
+  it("prefixes every table of a comma join", () => {
+    expect(prefix("SELECT * FROM extractedFacts f, redFlags r, documents WHERE 1"))
+      .toBe("SELECT * FROM proj_7_extractedFacts f, proj_7_redFlags r, proj_7_documents WHERE 1");
+  });
+
+  it("prefixes tables in subqueries", () => {
+    expect(prefix(
+      "SELECT * FROM documents WHERE id IN (SELECT documentId FROM documentChunks WHERE content LIKE ?)"
+    )).toBe(
+      "SELECT * FROM proj_7_documents WHERE id IN (SELECT documentId FROM proj_7_documentChunks WHERE content LIKE ?)"
+    );
+  });
+
+  it("keeps prefixing a comma join after a derived table", () => {
+    expect(prefix("SELECT * FROM (SELECT id FROM extractedFacts) d, redFlags r"))
+      .toBe("SELECT * FROM (SELECT id FROM proj_7_extractedFacts) d, proj_7_redFlags r");
+  });
+
+  it("keeps prefixing a comma join after a joined derived table", () => {
+    expect(prefix("SELECT * FROM documents JOIN (SELECT 1) x ON 1=1, redFlags"))
+      .toBe("SELECT * FROM proj_7_documents JOIN (SELECT 1) x ON 1=1, proj_7_redFlags");
+  });
+
+  it("does not treat select list or ON DUPLICATE KEY UPDATE commas as tables", () => {
+    expect(prefix("SELECT a, b FROM documents WHERE x IN (1, 2) ORDER BY a, b"))
+      .toBe("SELECT a, b FROM proj_7_documents WHERE x IN (1, 2) ORDER BY a, b");
+    expect(prefix(
+      "INSERT INTO redFlags SELECT * FROM documents, factSources ON DUPLICATE KEY UPDATE title = 1, status = 2"
+    )).toBe(
+      "INSERT INTO proj_7_redFlags SELECT * FROM proj_7_documents, proj_7_factSources ON DUPLICATE KEY UPDATE title = 1, status = 2"
+    );
+  });
+
+  it("prefixes tables inside CTEs and leaves CTE names alone", () => {
+    expect(prefix(
+      "WITH recent AS (SELECT * FROM documents), `flags` (n) AS (SELECT COUNT(*) FROM redFlags) " +
+      "SELECT * FROM recent, flags"
+    )).toBe(
+      "WITH recent AS (SELECT * FROM proj_7_documents), `flags` (n) AS (SELECT COUNT(*) FROM proj_7_redFlags) " +
+      "SELECT * FROM recent, flags"
+    );
+  });
+
+  it("leaves a CTE that shadows a project table unprefixed", () => {
+    expect(prefix("WITH documents AS (SELECT 1 AS id) SELECT * FROM documents"))
+      .toBe("WITH documents AS (SELECT 1 AS id) SELECT * FROM documents");
+  });
+
+  it("prefixes quoted identifiers inside the quotes", () => {
+    expect(prefix("SELECT * FROM `extractedFacts` JOIN `factSources` ON 1"))
+      .toBe("SELECT * FROM `proj_7_extractedFacts` JOIN `proj_7_factSources` ON 1");
+  });
+
+  it("leaves strings, comments, FROM functions and schema-qualified names alone", () => {
+    const query =
+      "SELECT EXTRACT(YEAR FROM createdAt), 'FROM documents' -- FROM redFlags\n" +
+      "FROM other.documents /* JOIN redFlags */ WHERE note = \"FROM extractedFacts\"";
+    expect(prefix(query)).toBe(query);
+  });
+
+  it("does not prefix twice", () => {
+    expect(prefix("SELECT * FROM proj_7_documents")).toBe("SELECT * FROM proj_7_documents");
+  });
+
+  it("prefixes registered extra tables", () => {
+    expect(prefixTableNames("SELECT * FROM scenarios", 7, { tables: ["scenarios"] }))
+      .toBe("SELECT * FROM proj_7_scenarios");
+  });
+});
+
+describe("prefixTableNames in strict mode", () => {
+  it.each([
+    "SELECT * FROM users",
+    "SELECT * FROM documents, users",
+    "SELECT * FROM (SELECT id FROM extractedFacts) d, users",
+    "SELECT * FROM documents JOIN (SELECT 1) x ON 1=1, users",
+    "SELECT * FROM documents WHERE id IN (SELECT id FROM users)",
+    "WITH recent AS (SELECT * FROM users) SELECT * FROM recent",
+    "SELECT * FROM `users`",
+  ])("rejects the unknown table in %j", (query) => {
+    expect(() => strict(query)).toThrow(/unknown project table "users"/);
+  });
+
+  it("rejects a table of another project", () => {
+    expect(() => strict("SELECT * FROM proj_8_documents"))
+      .toThrow(/accesses table "proj_8_documents" of another project/);
+    expect(() => strict("SELECT * FROM documents, proj_8_redFlags"))
+      .toThrow(/of another project/);
+  });
+
+  it("accepts project tables, own prefixed tables and CTE names", () => {
+    expect(strict("WITH recent AS (SELECT * FROM documents) SELECT * FROM recent, proj_7_redFlags"))
+      .toBe("WITH recent AS (SELECT * FROM proj_7_documents) SELECT * FROM recent, proj_7_redFlags");
+  });
+});
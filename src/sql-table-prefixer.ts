@@ -0,0 +1,274 @@
+/**
+ * SQL Table Prefixer
+ *
+ * Rewrites bare project table names (`extractedFacts`) to their per-project
+ * form (`proj_<id>_extractedFacts`). The query is tokenized first, so only
+ * identifiers in table position (after FROM, JOIN, INTO, UPDATE and in
+ * comma-separated FROM lists) are touched — string literals, comments,
+ * column names, aliases, common table expression names and names that are
+ * already prefixed pass through unchanged.
+ */
+
+// Default table names - can be extended per connection with `tables`
+// Note: All tables now use camelCase after migration
+export const DEFAULT_PROJECT_TABLES = [
+  'extractedFacts',
+  'redFlags',
+  'documents',
+  'documentChunks',
+  'factSources',
+  'projects',
+];
+
+export interface TablePrefixOptions {
+  /** Additional project table names, on top of `DEFAULT_PROJECT_TABLES` */
+  tables?: string[];
+  /**
+   * Throw when a query reads or writes a table that is neither a registered
+   * project table nor already prefixed for this project (including tables
+   * prefixed for a different project)
+   */
+  strict?: boolean;
+}
+
+type TokenType = 'space' | 'comment' | 'string' | 'quoted' | 'word' | 'punct';
+
+interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// Keywords after which a table name follows
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE']);
+
+// Functions whose arguments use FROM (EXTRACT(YEAR FROM d), TRIM(x FROM y), ...)
+const FROM_FUNCTIONS = new Set(['EXTRACT', 'TRIM', 'SUBSTRING', 'SUBSTR']);
+
+// Modifiers that may sit between a table keyword and the table name
+const MODIFIER_KEYWORDS = new Set(['IGNORE', 'LOW_PRIORITY', 'LATERAL']);
+
+// Joins continue a comma-separated table list (FROM a JOIN b ON ..., c)
+const JOIN_KEYWORDS = new Set([
+  'ON', 'USING', 'INNER', 'LEFT', 'RIGHT', 'CROSS', 'NATURAL', 'STRAIGHT_JOIN', 'JOIN',
+]);
+
+// Keywords that end a comma-separated table list, unless they are joins
+const CLAUSE_KEYWORDS = new Set([
+  'WHERE', 'SET', 'ON', 'USING', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'UNION',
+  'VALUES', 'VALUE', 'SELECT', 'WINDOW', 'FOR', 'LOCK', 'INNER', 'LEFT', 'RIGHT',
+  'CROSS', 'NATURAL', 'STRAIGHT_JOIN', 'JOIN', 'PARTITION', 'RETURNING', 'DUPLICATE',
+]);
+
+/**
+ * Split a MySQL query into tokens, keeping every character so the query can
+ * be reassembled exactly
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (quote: string): string => {
+    let j = i + 1;
+    while (j < query.length) {
+      if (query[j] === '\\' && quote !== '`') {
+        j += 2;
+        continue;
+      }
+      if (query[j] === quote) {
+        // A doubled quote is an escaped quote
+        if (query[j + 1] === quote) {
+          j += 2;
+          continue;
+        }
+        return query.slice(i, j + 1);
+      }
+      j++;
+    }
+    return query.slice(i);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const rest = query.slice(i);
+    let token: Token;
+
+    if (/\s/.test(char)) {
+      token = { type: 'space', text: rest.match(/^\s+/)![0] };
+    } else if (rest.startsWith('--') || char === '#') {
+      const end = query.indexOf('\n', i);
+      token = { type: 'comment', text: end === -1 ? rest : query.slice(i, end) };
+    } else if (rest.startsWith('/*')) {
+      const end = query.indexOf('*/', i + 2);
+      token = { type: 'comment', text: end === -1 ? rest : query.slice(i, end + 2) };
+    } else if (char === "'" || char === '"') {
+      token = { type: 'string', text: readQuoted(char) };
+    } else if (char === '`') {
+      token = { type: 'quoted', text: readQuoted('`') };
+    } else if (/[A-Za-z0-9_$]/.test(char)) {
+      token = { type: 'word', text: rest.match(/^[A-Za-z0-9_$]+/)![0] };
+    } else {
+      token = { type: 'punct', text: char };
+    }
+
+    tokens.push(token);
+    i += token.text.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Names defined by WITH name [(columns)] AS (...), name2 AS (...), which
+ * refer to the query's own results rather than tables
+ */
+function collectCteNames(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  const significant = tokens.filter((token) => token.type !== 'space' && token.type !== 'comment');
+
+  for (let i = 1; i < significant.length; i++) {
+    const token = significant[i];
+    if (token.type !== 'word' && token.type !== 'quoted') continue;
+
+    const before = significant[i - 1];
+    const beforeWord = before.type === 'word' ? before.text.toUpperCase() : '';
+    if (beforeWord !== 'WITH' && beforeWord !== 'RECURSIVE' && before.text !== ',') continue;
+
+    let j = i + 1;
+    // Optional column list
+    if (significant[j]?.text === '(') {
+      let depth = 0;
+      for (; j < significant.length; j++) {
+        if (significant[j].text === '(') depth++;
+        else if (significant[j].text === ')' && --depth === 0) break;
+      }
+      j++;
+    }
+    if (significant[j]?.text.toUpperCase() === 'AS' && significant[j + 1]?.text === '(') {
+      const name = token.type === 'quoted' ? token.text.slice(1, -1) : token.text;
+      names.add(name.toLowerCase());
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Rewrite bare project table names in a query to `proj_<projectId>_<table>`
+ */
+export function prefixTableNames(
+  query: string,
+  projectId: number,
+  options: TablePrefixOptions = {}
+): string {
+  const tables = new Map<string, string>();
+  for (const table of [...DEFAULT_PROJECT_TABLES, ...(options.tables || [])]) {
+    tables.set(table.toLowerCase(), table);
+  }
+  const ownPrefix = `proj_${projectId}_`;
+
+  const tokens = tokenize(query);
+  const cteNames = collectCteNames(tokens);
+
+  // Index of the next token that is not whitespace or a comment
+  const nextSignificant = (from: number): number => {
+    let j = from;
+    while (j < tokens.length && (tokens[j].type === 'space' || tokens[j].type === 'comment')) j++;
+    return j;
+  };
+
+  const rewriteTable = (name: string): string => {
+    if (cteNames.has(name.toLowerCase())) return name;
+
+    const registered = tables.get(name.toLowerCase());
+    if (registered) return `${ownPrefix}${registered}`;
+
+    const prefixed = name.match(/^proj_(\d+)_/);
+    if (prefixed) {
+      if (options.strict && Number(prefixed[1]) !== projectId) {
+        throw new Error(`Query for project ${projectId} accesses table "${name}" of another project`);
+      }
+      return name;
+    }
+
+    if (options.strict) {
+      throw new Error(`Query accesses unknown project table "${name}" (register it with the "tables" option)`);
+    }
+    return name;
+  };
+
+  let expectTable = false;
+  // One entry per paren depth: true while a comma-separated table list
+  // (FROM a, b) is open at that depth, so a subquery's list doesn't end it
+  const lists: boolean[] = [false];
+  // One entry per open paren: true when it belongs to a FROM_FUNCTIONS call
+  const parens: boolean[] = [];
+  let previousWord = '';
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'space' || token.type === 'comment' || token.type === 'string') continue;
+
+    if (token.type === 'punct') {
+      if (token.text === '(') {
+        // FROM (SELECT ...) — a derived table, not a table name
+        expectTable = false;
+        parens.push(FROM_FUNCTIONS.has(previousWord));
+        lists.push(false);
+      } else if (token.text === ')') {
+        if (parens.length > 0) {
+          parens.pop();
+          lists.pop();
+        }
+      } else if (token.text === ',' && lists[parens.length]) {
+        expectTable = true;
+      } else if (token.text === ';') {
+        expectTable = false;
+        lists[parens.length] = false;
+      }
+      previousWord = '';
+      continue;
+    }
+
+    const word = token.type === 'word' ? token.text.toUpperCase() : '';
+    const wordBefore = previousWord;
+    previousWord = word;
+
+    if (expectTable) {
+      expectTable = false;
+
+      // Schema-qualified names (db.table) are left as written
+      const next = nextSignificant(i + 1);
+      if (tokens[next]?.text === '.') continue;
+
+      if (token.type === 'quoted') {
+        const name = token.text.slice(1, -1);
+        token.text = `\`${rewriteTable(name)}\``;
+        continue;
+      }
+      if (!TABLE_KEYWORDS.has(word) && !CLAUSE_KEYWORDS.has(word) && !MODIFIER_KEYWORDS.has(word) && word !== 'DUAL') {
+        token.text = rewriteTable(token.text);
+        continue;
+      }
+    }
+
+    const inFromFunction = parens.length > 0 && parens[parens.length - 1];
+    // ON DUPLICATE KEY UPDATE is followed by columns, not a table
+    const isDuplicateKeyUpdate = word === 'UPDATE' && wordBefore === 'KEY';
+
+    if (TABLE_KEYWORDS.has(word) && !inFromFunction && !isDuplicateKeyUpdate) {
+      expectTable = true;
+      if (word === 'FROM' || word === 'UPDATE') {
+        lists[parens.length] = true;
+      } else if (word === 'INTO') {
+        lists[parens.length] = false;
+      }
+    } else if (MODIFIER_KEYWORDS.has(word) && TABLE_KEYWORDS.has(wordBefore)) {
+      // UPDATE IGNORE t / JOIN LATERAL (...) — keep waiting for the table
+      expectTable = true;
+    } else if (CLAUSE_KEYWORDS.has(word) && !JOIN_KEYWORDS.has(word)) {
+      lists[parens.length] = false;
+    }
+  }
+
+  return tokens.map((token) => token.text).join('');
+}
@@ -0,0 +1,281 @@
+/**
+ * SQLite Project Database
+ *
+ * A `ProjectDb` backed by SQLite instead of MySQL, so tools can run against
+ * crafted project data in tests without a database server. Works with any
+ * synchronous SQLite binding that exposes `prepare`/`exec` (better-sqlite3,
+ * Node's built-in `node:sqlite`); open it with ":memory:" for an in-memory
+ * project. The package itself does not depend on a SQLite driver.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import type { MySql2Database } from 'drizzle-orm/mysql2';
+ * import { createSqliteProjectDb, intelligenceTools } from '@oe-ecosystem/ai-agent';
+ *
+ * const projectDb = await createSqliteProjectDb(new Database(':memory:'), 42, {
+ *   facts: [
+ *     { category: 'Technical_Design', key: 'DC_Capacity', value: '300 MWp' },
+ *     { category: 'Technical_Design', key: 'AC_Capacity', value: '280 MW' },
+ *   ],
+ * });
+ * const tool = intelligenceTools.find((t) => t.name === 'validate_project_metrics')!;
+ * // Project tools only read the project database; `db` (the main database) is unused
+ * const db = {} as MySql2Database<any>;
+ * const result = await tool.handler({}, { userId: 1, projectId: 42, db, projectDb });
+ * ```
+ */
+
+import type { ProjectDb, ProjectDbOptions } from './project-db-wrapper';
+import { prefixTableNames } from './sql-table-prefixer';
+
+/**
+ * Minimal prepared statement surface shared by the supported SQLite bindings
+ */
+export interface SqliteStatement {
+  all(...params: any[]): any[];
+  run(...params: any[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+}
+
+/**
+ * Minimal database surface shared by the supported SQLite bindings
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): void;
+}
+
+// Statements that return rows; everything else reports insertId/affectedRows
+const READER_PATTERN = /^\s*(SELECT|WITH|PRAGMA|EXPLAIN|VALUES)\b/i;
+
+/**
+ * Project-aware SQLite database
+ * Prefixes table names like `ProjectDbPool` and returns results in mysql2's shape
+ */
+export class SqliteProjectDb implements ProjectDb {
+  constructor(
+    private db: SqliteDatabase,
+    readonly projectId: number,
+    private options: ProjectDbOptions = {}
+  ) {}
+
+  /**
+   * Rewrite a MySQL query for SQLite
+   */
+  private transformQuery(query: string): string {
+    return prefixTableNames(query, this.projectId, this.options)
+      .replace(/\bNOW\(\)/gi, 'CURRENT_TIMESTAMP');
+  }
+
+  /**
+   * Convert parameters to values SQLite can bind
+   */
+  private normalizeValues(values?: any): any[] {
+    if (values == null) return [];
+    const list = Array.isArray(values) ? values : [values];
+    return list.map((value) => {
+      if (value === undefined) return null;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (value instanceof Date) return value.toISOString();
+      if (value !== null && typeof value === 'object') return JSON.stringify(value);
+      return value;
+    });
+  }
+
+  /**
+   * Execute a query with automatic table prefix transformation
+   */
+  async execute(query: string, values?: any): Promise<[any, any]> {
+    const statement = this.db.prepare(this.transformQuery(query));
+    const params = this.normalizeValues(values);
+
+    if (READER_PATTERN.test(query)) {
+      return [statement.all(...params), []];
+    }
+
+    const info = statement.run(...params);
+    return [
+      {
+        insertId: Number(info.lastInsertRowid),
+        affectedRows: Number(info.changes),
+      },
+      undefined,
+    ];
+  }
+
+  /**
+   * Query with automatic table prefix transformation
+   */
+  async query(query: string, values?: any): Promise<any> {
+    return await this.execute(query, values);
+  }
+
+  /**
+   * Get the underlying SQLite database
+   */
+  getDatabase(): SqliteDatabase {
+    return this.db;
+  }
+}
+
+// ============================================================
+// FIXTURE LOADER
+// ============================================================
+
+export interface FactFixture {
+  id?: string | number;
+  category: string;
+  key: string;
+  value: string;
+  data_type?: string;
+  confidence?: string | number;
+  source_document_id?: string | number | null;
+  extraction_method?: string;
+  verified?: boolean | number;
+  created_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface DocumentFixture {
+  id?: string | number;
+  fileName: string;
+  documentType?: string;
+  status?: string;
+  pageCount?: number;
+  uploadDate?: string;
+  deletedAt?: string | null;
+}
+
+export interface DocumentChunkFixture {
+  id?: string | number;
+  documentId: string | number;
+  chunkIndex?: number;
+  content: string;
+  pageNumber?: number | null;
+}
+
+export interface RedFlagFixture {
+  id?: string | number;
+  category?: string;
+  title: string;
+  description?: string;
+  severity?: 'High' | 'Medium' | 'Low';
+  triggerFactId?: string | number | null;
+  downstreamConsequences?: string | null;
+  mitigated?: boolean | number;
+  mitigationNotes?: string | null;
+}
+
+/**
+ * Rows to load into a project's tables
+ */
+export interface ProjectFixture {
+  facts?: FactFixture[];
+  documents?: DocumentFixture[];
+  documentChunks?: DocumentChunkFixture[];
+  redFlags?: RedFlagFixture[];
+}
+
+// Columns mirror the MySQL schema in DATABASE_SCHEMA_UPDATED.md (the subset
+// ProjectRepository reads); IDs are strings there, so they are TEXT here
+const projectTableDdl = (prefix: string) => [
+  `CREATE TABLE IF NOT EXISTS ${prefix}extractedFacts (
+    id TEXT PRIMARY KEY,
+    project_id INTEGER,
+    category TEXT NOT NULL,
+    \`key\` TEXT NOT NULL,
+    value TEXT,
+    data_type TEXT DEFAULT 'string',
+    confidence TEXT,
+    source_document_id TEXT,
+    extraction_method TEXT,
+    verified INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    deleted_at TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS ${prefix}documents (
+    id TEXT PRIMARY KEY,
+    fileName TEXT NOT NULL,
+    documentType TEXT,
+    status TEXT DEFAULT 'completed',
+    pageCount INTEGER,
+    uploadDate TEXT DEFAULT CURRENT_TIMESTAMP,
+    createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+    deletedAt TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS ${prefix}documentChunks (
+    id TEXT PRIMARY KEY,
+    documentId TEXT NOT NULL,
+    chunkIndex INTEGER DEFAULT 0,
+    content TEXT NOT NULL,
+    pageNumber INTEGER,
+    createdAt TEXT DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS ${prefix}redFlags (
+    id TEXT PRIMARY KEY,
+    category TEXT DEFAULT 'Other',
+    title TEXT NOT NULL,
+    description TEXT,
+    severity TEXT DEFAULT 'Medium',
+    triggerFactId TEXT,
+    downstreamConsequences TEXT,
+    mitigated INTEGER DEFAULT 0,
+    mitigationNotes TEXT,
+    createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+  )`,
+];
+
+/**
+ * Create the extractedFacts, documents, documentChunks and redFlags tables
+ * for a project (no-op for tables that already exist)
+ */
+export async function createProjectTables(projectDb: SqliteProjectDb): Promise<void> {
+  for (const ddl of projectTableDdl(`proj_${projectDb.projectId}_`)) {
+    await projectDb.execute(ddl);
+  }
+}
+
+/**
+ * Insert fixture rows into a project's tables. Rows without an `id` get
+ * their 1-based position as ID ("1", "2", ...) so fixtures can reference
+ * each other, and facts get `project_id` from the adapter's project.
+ */
+export async function loadProjectFixture(
+  projectDb: SqliteProjectDb,
+  fixture: ProjectFixture
+): Promise<void> {
+  const insert = async (table: string, rows: Array<{ id?: string | number }>) => {
+    for (const [index, fixtureRow] of rows.entries()) {
+      const row: Record<string, unknown> = { ...fixtureRow, id: String(fixtureRow.id ?? index + 1) };
+      const columns = Object.keys(row).filter((column) => row[column] !== undefined);
+      const sql = `INSERT INTO ${table} (${columns.map((c) => `\`${c}\``).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+      await projectDb.execute(sql, columns.map((column) => row[column]));
+    }
+  };
+
+  await insert('documents', fixture.documents || []);
+  await insert('documentChunks', fixture.documentChunks || []);
+  await insert(
+    'extractedFacts',
+    (fixture.facts || []).map((fact) => ({ project_id: projectDb.projectId, ...fact }))
+  );
+  await insert('redFlags', fixture.redFlags || []);
+}
+
+/**
+ * Create a project database on SQLite, with its tables and optional fixture rows
+ */
+export async function createSqliteProjectDb(
+  db: SqliteDatabase,
+  projectId: number,
+  fixture: ProjectFixture = {},
+  options: ProjectDbOptions = {}
+): Promise<SqliteProjectDb> {
+  const projectDb = new SqliteProjectDb(db, projectId, options);
+  await createProjectTables(projectDb);
+  await loadProjectFixture(projectDb, fixture);
+  return projectDb;
+}
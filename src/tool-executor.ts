@@ -1,8 +1,17 @@
 import { v4 as uuidv4 } from "uuid";
+import type { z } from "zod";
 import type { MySql2Database } from "drizzle-orm/mysql2";
-import type { ProjectDbPool } from "./project-db-wrapper";
+import type { ProjectDb } from "./project-db-wrapper";
 import { agentActions, type InsertAgentAction } from "./schema";
 import type { Tool } from "./llm";
+import type { LLMClient } from "./llm-client";
+import type { ProjectRepository } from "./project-repository";
+import type { KnowledgeRetriever } from "./knowledge-retrieval";
+import {
+  formatValidationIssues,
+  validateToolArguments,
+  type ToolValidationIssue,
+} from "./tool-schema";
 
 /**
  * Tool Executor
@@ -11,18 +20,40 @@ import type { Tool } from "./llm";
  * Implements tool calling interface for LLM
  */
 
+/**
+ * JSON Schema for a tool parameter (nested objects and arrays allowed)
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * What a tool does to data: "read" tools only look, "write" tools create or
+ * change records, "destructive" tools delete them. The orchestrator asks a
+ * human to approve risky calls before they run.
+ */
+export type ToolRiskLevel = "read" | "write" | "destructive";
+
 export interface ToolDefinition {
   name: string;
   description: string;
+  /** Defaults to "read" */
+  riskLevel?: ToolRiskLevel;
   parameters: {
     type: "object";
-    properties: Record<string, {
-      type: string;
-      description: string;
-      enum?: string[];
-    }>;
+    properties: Record<string, JsonSchema>;
     required: string[];
+    [keyword: string]: unknown;
   };
+  /** Zod schema the arguments are parsed with (set by `defineTool`) */
+  schema?: z.ZodType;
   handler: (args: Record<string, unknown>, context: ToolExecutionContext) => Promise<unknown>;
 }
 
@@ -32,16 +63,52 @@ export interface ToolExecutionContext {
   conversationId?: string;
   db: MySql2Database<any>;
   mainDb: MySql2Database<any>; // Alias for db, used by narrative tools
-  projectDb?: ProjectDbPool;
+  projectDb?: ProjectDb;
+  projectRepository?: ProjectRepository; // Typed access to projectDb, used by the project data tools
+  llm?: LLMClient; // Client used by tools that call the LLM themselves
+  knowledgeRetriever?: KnowledgeRetriever; // Ranked knowledge base search, with the configured embedding provider
 }
 
 export interface ToolExecutionResult {
   success: boolean;
   result?: unknown;
   error?: string;
+  validationErrors?: ToolValidationIssue[]; // Set when the arguments were rejected
   executionTimeMs: number;
 }
 
+export interface ExecuteToolsOptions {
+  /** Maximum number of read-only tools running at once (default: DEFAULT_TOOL_CONCURRENCY) */
+  concurrency?: number;
+  /** Stop scheduling further calls after a failure (default: true) */
+  stopOnError?: boolean;
+}
+
+/** Default number of read-only tool calls executed at the same time */
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/**
+ * Map items with at most `limit` promises in flight; results keep input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 export class ToolExecutor {
   private tools: Map<string, ToolDefinition> = new Map();
 
@@ -85,6 +152,7 @@ export class ToolExecutor {
   ): Promise<ToolExecutionResult> {
     const startTime = Date.now();
     const actionId = uuidv4();
+    let validationErrors: ToolValidationIssue[] | undefined;
 
     try {
       const tool = this.tools.get(toolName);
@@ -92,18 +160,15 @@ export class ToolExecutor {
         throw new Error(`Tool "${toolName}" not found`);
       }
 
-      // Validate required parameters
-      const missing = tool.parameters.required.filter(
-        (param) => !(param in args)
-      );
-      if (missing.length > 0) {
-        throw new Error(
-          `Missing required parameters: ${missing.join(", ")}`
-        );
+      // Coerce and validate arguments before the handler sees them
+      const validation = validateToolArguments(tool, args);
+      if (!validation.success) {
+        validationErrors = validation.issues;
+        throw new Error(formatValidationIssues(toolName, validation.issues));
       }
 
       // Execute the tool
-      const result = await tool.handler(args, context);
+      const result = await tool.handler(validation.data, context);
       const executionTimeMs = Date.now() - startTime;
 
       // Log the action
@@ -152,26 +217,48 @@ export class ToolExecutor {
       return {
         success: false,
         error: errorMessage,
+        validationErrors,
         executionTimeMs,
       };
     }
   }
 
   /**
-   * Execute multiple tools in sequence
+   * Execute multiple tools. Consecutive read-only calls run concurrently;
+   * a write call waits for the calls before it and runs alone, so writes
+   * happen in call order and later calls see their effects. Results are
+   * returned in call order.
+   *
+   * With `stopOnError`, calls after a failed batch are not run (reads that
+   * ran alongside the failed call are still returned).
    */
   async executeTools(
     toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>,
-    context: ToolExecutionContext
+    context: ToolExecutionContext,
+    options: ExecuteToolsOptions = {}
   ): Promise<ToolExecutionResult[]> {
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_TOOL_CONCURRENCY));
+    const stopOnError = options.stopOnError ?? true;
     const results: ToolExecutionResult[] = [];
 
-    for (const call of toolCalls) {
-      const result = await this.executeTool(call.name, call.arguments, context);
-      results.push(result);
+    let start = 0;
+    while (start < toolCalls.length) {
+      // A batch is either one write call or a run of read-only calls
+      let end = start + 1;
+      if (this.getRiskLevel(toolCalls[start].name) === "read") {
+        while (end < toolCalls.length && this.getRiskLevel(toolCalls[end].name) === "read") {
+          end++;
+        }
+      }
+
+      const batch = await mapWithConcurrency(toolCalls.slice(start, end), concurrency, (call) =>
+        this.executeTool(call.name, call.arguments, context)
+      );
+      results.push(...batch);
+      start = end;
 
       // Stop execution if a tool fails
-      if (!result.success) {
+      if (stopOnError && batch.some((result) => !result.success)) {
         break;
       }
     }
@@ -193,6 +280,13 @@ export class ToolExecutor {
     return this.tools.has(name);
   }
 
+  /**
+   * Get the risk level of a tool ("read" unless the tool declares otherwise)
+   */
+  getRiskLevel(name: string): ToolRiskLevel {
+    return this.tools.get(name)?.riskLevel ?? "read";
+  }
+
   /**
    * Get all tool names
    */
@@ -232,7 +326,7 @@ export class ToolExecutor {
   }
 
   /**
-   * Validate tool arguments against schema
+   * Validate tool arguments against schema (after coercion, as `executeTool` does)
    */
   validateArguments(
     toolName: string,
@@ -243,40 +337,16 @@ export class ToolExecutor {
       return { valid: false, errors: [`Tool "${toolName}" not found`] };
     }
 
-    const errors: string[] = [];
-
-    // Check required parameters
-    const missing = tool.parameters.required.filter((param) => !(param in args));
-    if (missing.length > 0) {
-      errors.push(`Missing required parameters: ${missing.join(", ")}`);
-    }
-
-    // Check parameter types
-    for (const [key, value] of Object.entries(args)) {
-      const paramDef = tool.parameters.properties[key];
-      if (!paramDef) {
-        errors.push(`Unknown parameter: ${key}`);
-        continue;
-      }
-
-      const actualType = Array.isArray(value) ? "array" : typeof value;
-      if (paramDef.type !== actualType) {
-        errors.push(
-          `Parameter "${key}" should be ${paramDef.type}, got ${actualType}`
-        );
-      }
-
-      // Check enum values
-      if (paramDef.enum && !paramDef.enum.includes(String(value))) {
-        errors.push(
-          `Parameter "${key}" must be one of: ${paramDef.enum.join(", ")}`
-        );
-      }
+    const validation = validateToolArguments(tool, args);
+    if (validation.success) {
+      return { valid: true, errors: [] };
     }
 
     return {
-      valid: errors.length === 0,
-      errors,
+      valid: false,
+      errors: validation.issues.map((issue) =>
+        issue.path ? `Parameter "${issue.path}": ${issue.message}` : issue.message
+      ),
     };
   }
 }
@@ -0,0 +1,253 @@
+import { z } from "zod";
+import type { JsonSchema, ToolDefinition, ToolExecutionContext, ToolRiskLevel } from "./tool-executor";
+
+/**
+ * Tool Schemas
+ *
+ * Argument validation for tools. LLMs routinely send numbers as strings,
+ * booleans as "true"/"false", and objects as JSON strings, so arguments are
+ * first coerced towards the tool's JSON Schema and then validated — against
+ * the tool's zod schema when it has one (see `defineTool`), otherwise against
+ * its JSON Schema. Failures are reported per argument so the agent can feed
+ * them back to the LLM and let it correct the call.
+ */
+
+export interface ToolValidationIssue {
+  /** Dotted path of the offending argument ("" for the arguments object) */
+  path: string;
+  message: string;
+}
+
+export type ToolValidationResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; issues: ToolValidationIssue[] };
+
+const typesOf = (schema: JsonSchema): string[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+const jsonTypeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = jsonTypeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+const parseJson = (value: string, opening: string): unknown => {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith(opening)) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Convert a value to a single JSON Schema type where the intent is unambiguous
+ */
+const coerceToType = (value: unknown, type: string): unknown => {
+  switch (type) {
+    case "number":
+    case "integer":
+      if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+        return Number(value);
+      }
+      return value;
+    case "boolean":
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === "true";
+      }
+      return value;
+    case "string":
+      if (typeof value === "number" || typeof value === "boolean") return String(value);
+      return value;
+    case "object":
+      return typeof value === "string" ? parseJson(value, "{") : value;
+    case "array":
+      return typeof value === "string" ? parseJson(value, "[") : value;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Coerce arguments towards a JSON Schema (recursing into objects and arrays).
+ * Values that can't be converted are returned unchanged for validation to report.
+ */
+export function coerceArguments(value: unknown, schema: JsonSchema): unknown {
+  if (value === undefined) return value;
+
+  if (schema.anyOf) {
+    for (const branch of schema.anyOf) {
+      const coerced = coerceArguments(value, branch);
+      if (validateJsonSchema(coerced, branch).length === 0) return coerced;
+    }
+    return value;
+  }
+
+  const types = typesOf(schema);
+  let result: unknown = value;
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    for (const type of types) {
+      const coerced = coerceToType(value, type);
+      if (matchesType(coerced, type)) {
+        result = coerced;
+        break;
+      }
+    }
+  }
+
+  if (jsonTypeOf(result) === "object" && schema.properties) {
+    const object = { ...(result as Record<string, unknown>) };
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (key in object) object[key] = coerceArguments(object[key], propertySchema);
+    }
+    return object;
+  }
+  if (Array.isArray(result) && schema.items) {
+    return result.map(item => coerceArguments(item, schema.items!));
+  }
+  return result;
+}
+
+/**
+ * Validate a value against the subset of JSON Schema tools use: type, enum,
+ * properties/required/additionalProperties, items, anyOf, minimum/maximum
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ""): ToolValidationIssue[] {
+  const at = (message: string): ToolValidationIssue[] => [{ path, message }];
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(branch => validateJsonSchema(value, branch, path).length === 0);
+    return matches ? [] : at("Value does not match any of the allowed forms");
+  }
+
+  const types = typesOf(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return at(`Expected ${types.join(" or ")}, received ${jsonTypeOf(value)}`);
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return at(`Must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`);
+  }
+
+  const issues: ToolValidationIssue[] = [];
+  const child = (key: string | number) => (path ? `${path}.${key}` : String(key));
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      issues.push({ path, message: `Must be at least ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      issues.push({ path, message: `Must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (jsonTypeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) issues.push({ path: child(key), message: "Required" });
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined) issues.push(...validateJsonSchema(propertyValue, propertySchema, child(key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: child(key), message: "Unknown parameter" });
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items!, child(index))));
+  }
+
+  return issues;
+}
+
+/**
+ * Coerce and validate the arguments of a tool call
+ */
+export function validateToolArguments(tool: ToolDefinition, args: unknown): ToolValidationResult {
+  const coerced = coerceArguments(args ?? {}, tool.parameters as JsonSchema);
+
+  if (tool.schema) {
+    const parsed = tool.schema.safeParse(coerced);
+    if (parsed.success) {
+      return { success: true, data: parsed.data as Record<string, unknown> };
+    }
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => ({
+        path: issue.path.map(String).join("."),
+        message: issue.message,
+      })),
+    };
+  }
+
+  const issues = validateJsonSchema(coerced, { ...tool.parameters, type: "object" } as JsonSchema);
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, data: coerced as Record<string, unknown> };
+}
+
+/**
+ * One-line summary of validation issues, used as the tool error message
+ */
+export function formatValidationIssues(toolName: string, issues: ToolValidationIssue[]): string {
+  const details = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  return `Invalid arguments for ${toolName}: ${details.join("; ")}`;
+}
+
+// ============================================================
+// ZOD-DEFINED TOOLS
+// ============================================================
+
+export interface ZodToolConfig<TSchema extends z.ZodObject> {
+  name: string;
+  description: string;
+  riskLevel?: ToolRiskLevel;
+  /** Arguments schema; use `.describe()` on fields for the LLM-facing descriptions */
+  schema: TSchema;
+  handler: (args: z.output<TSchema>, context: ToolExecutionContext) => Promise<unknown>;
+}
+
+/**
+ * Define a tool from a zod schema. The JSON Schema sent to the LLM is
+ * generated from it, and the handler receives parsed, typed arguments
+ * (defaults applied) — the executor validates before calling it.
+ *
+ * @example
+ * ```typescript
+ * export const exampleTool = defineTool({
+ *   name: "example",
+ *   description: "...",
+ *   schema: z.object({
+ *     limit: z.number().int().min(1).max(100).default(20).describe("Maximum results"),
+ *   }),
+ *   handler: async ({ limit }, context) => { ... },
+ * });
+ * ```
+ */
+export function defineTool<TSchema extends z.ZodObject>(config: ZodToolConfig<TSchema>): ToolDefinition {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(config.schema, { io: "input" }) as JsonSchema;
+
+  return {
+    name: config.name,
+    description: config.description,
+    riskLevel: config.riskLevel,
+    parameters: {
+      ...jsonSchema,
+      type: "object",
+      properties: (jsonSchema.properties || {}) as Record<string, JsonSchema>,
+      required: (jsonSchema.required || []) as string[],
+    },
+    schema: config.schema,
+    handler: (args, context) => config.handler(args as z.output<TSchema>, context),
+  };
+}
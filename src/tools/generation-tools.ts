@@ -1,62 +1,40 @@
 import { v4 as uuidv4 } from "uuid";
 import { eq, desc } from "drizzle-orm";
-import { invokeLLM } from "../llm";
+import { z } from "zod";
+import { createLLMClient } from "../llm-client";
 import type { ToolDefinition } from "../tool-executor";
+import { getProjectRepository } from "../project-repository";
+import { defineTool } from "../tool-schema";
 import { agentGeneratedContent, agentStyleModels } from "../schema";
 
 /**
  * Content Generation Tools
  * 
- * Tools for generating technical reports, risk assessments, and narratives
+ * Tools for generating technical reports, risk assessments, and narratives.
+ * Generated drafts are saved to agentGeneratedContent, so these tools are
+ * "write" tools: they need project write access and approval.
  */
 
-export const generateRiskNarrativeTool: ToolDefinition = {
+export const generateRiskNarrativeTool = defineTool({
   name: "generate_risk_narrative",
+  riskLevel: "write",
   description: "Generate a detailed risk narrative for a specific fact or red flag. Applies learned writing style.",
-  parameters: {
-    type: "object",
-    properties: {
-      factId: {
-        type: "string",
-        description: "The ID of the fact to generate a risk narrative for",
-      },
-      redFlagId: {
-        type: "string",
-        description: "The ID of the red flag to generate a narrative for (alternative to factId)",
-      },
-      tone: {
-        type: "string",
-        description: "The tone of the narrative",
-        enum: ["technical", "executive", "detailed"],
-      },
-      includeRecommendations: {
-        type: "string",
-        description: "Whether to include mitigation recommendations",
-        enum: ["true", "false"],
-      },
-    },
-    required: [],
-  },
+  schema: z.object({
+    factId: z.string().optional().describe("The ID of the fact to generate a risk narrative for"),
+    redFlagId: z.string().optional().describe("The ID of the red flag to generate a narrative for (alternative to factId)"),
+    tone: z.enum(["technical", "executive", "detailed"]).default("technical").describe("The tone of the narrative"),
+    includeRecommendations: z.boolean().default(false).describe("Whether to include mitigation recommendations"),
+  }),
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     // Get the fact or red flag details
-    let subject: any;
+    let subject: unknown;
     if (args.factId) {
-      const result = await context.projectDb.execute(
-        `SELECT * FROM extractedFacts WHERE id = ? AND project_id = ?`,
-        [args.factId, context.projectId]);
-      const rows = result[0] as any[];
-      subject = rows[0];
+      subject = await repository.getFact(args.factId);
       if (!subject) throw new Error(`Fact ${args.factId} not found`);
     } else if (args.redFlagId) {
-      const result = await context.projectDb.execute(
-        `SELECT * FROM redFlags WHERE id = ? AND project_id = ?`,
-        [args.redFlagId, context.projectId]);
-      const rows = result[0] as any[];
-      subject = rows[0];
+      subject = await repository.getRedFlag(args.redFlagId);
       if (!subject) throw new Error(`Red flag ${args.redFlagId} not found`);
     } else {
       throw new Error("Either factId or redFlagId must be provided");
@@ -71,8 +49,7 @@ export const generateRiskNarrativeTool: ToolDefinition = {
       .limit(1);
 
     // Build the prompt
-    const tone = args.tone || "technical";
-    const includeRecommendations = args.includeRecommendations === "true";
+    const { tone, includeRecommendations } = args;
 
     let prompt = `Generate a ${tone} risk narrative for the following:\n\n`;
     prompt += `Subject: ${JSON.stringify(subject, null, 2)}\n\n`;
@@ -99,7 +76,7 @@ export const generateRiskNarrativeTool: ToolDefinition = {
     }
 
     // Generate content using LLM
-    const response = await invokeLLM({
+    const response = await (context.llm ?? createLLMClient()).invoke({
       messages: [
         {
           role: "system",
@@ -142,10 +119,11 @@ export const generateRiskNarrativeTool: ToolDefinition = {
       },
     };
   },
-};
+});
 
 export const generateProjectSummaryTool: ToolDefinition = {
   name: "generate_project_summary",
+  riskLevel: "write",
   description: "Generate an executive summary of the entire project based on all extracted facts and identified risks.",
   parameters: {
     type: "object",
@@ -163,9 +141,7 @@ export const generateProjectSummaryTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     const format = args.format || "executive";
     const focusAreas = args.focusAreas 
@@ -173,21 +149,11 @@ export const generateProjectSummaryTool: ToolDefinition = {
       : ["overview", "risks", "key_facts"];
 
     // Gather project data
-    const result1 = await context.projectDb.execute(
-      `SELECT category, \`key\`, value FROM extractedFacts WHERE project_id = ? LIMIT 100`,
-      [context.projectId]);
-    const facts = result1[0] as any[];
-
-    const result2 = await context.projectDb.execute(
-      `SELECT category, title, severity FROM redFlags WHERE project_id = ? ORDER BY 
-       CASE severity WHEN 'critical' THEN 1 WHEN 'high' THEN 2 WHEN 'medium' THEN 3 ELSE 4 END`,
-      [context.projectId]);
-    const redFlags = result2[0] as any[];
-
-    const result3 = await context.projectDb.execute(
-      `SELECT document_type, COUNT(*) as count FROM documents WHERE project_id = ? GROUP BY document_type`,
-      [context.projectId]);
-    const documents = result3[0] as any[];
+    const facts = (await repository.findFacts({ limit: 100 }))
+      .map(({ category, key, value }) => ({ category, key, value }));
+    const redFlags = (await repository.findRedFlags())
+      .map(({ category, title, severity, mitigated }) => ({ category, title, severity, mitigated }));
+    const documents = await repository.countDocumentsByType();
 
     // Build prompt
     let prompt = `Generate a ${format} project summary based on the following data:\n\n`;
@@ -198,7 +164,7 @@ export const generateProjectSummaryTool: ToolDefinition = {
     prompt += `Generate a well-structured summary that covers the requested focus areas.`;
 
     // Generate content
-    const response = await invokeLLM({
+    const response = await (context.llm ?? createLLMClient()).invoke({
       messages: [
         {
           role: "system",
@@ -244,42 +210,22 @@ export const generateProjectSummaryTool: ToolDefinition = {
   },
 };
 
-export const generateTechnicalSpecificationTool: ToolDefinition = {
+export const generateTechnicalSpecificationTool = defineTool({
   name: "generate_technical_specification",
+  riskLevel: "write",
   description: "Generate a technical specification document based on extracted technical facts.",
-  parameters: {
-    type: "object",
-    properties: {
-      category: {
-        type: "string",
-        description: "The category of technical facts to include (e.g., 'solar', 'electrical', 'structural')",
-      },
-      includeCalculations: {
-        type: "string",
-        description: "Whether to include detailed calculations",
-        enum: ["true", "false"],
-      },
-    },
-    required: [],
-  },
+  schema: z.object({
+    category: z.string().optional().describe("The category of technical facts to include (e.g., 'solar', 'electrical', 'structural')"),
+    includeCalculations: z.boolean().default(false).describe("Whether to include detailed calculations"),
+  }),
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     // Get technical facts
-    let query = `SELECT * FROM extractedFacts WHERE project_id = ?`;
-    const params: any[] = [context.projectId];
-
-    if (args.category) {
-      query += ` AND category = ?`;
-      params.push(args.category);
-    }
-
-    query += ` ORDER BY category, \`key\``;
-
-    const result = await context.projectDb.execute(query, params);
-    const facts = result[0] as any[];
+    const facts = await repository.findFacts({
+      category: args.category,
+      orderBy: "categoryKey",
+    });
 
     // Build prompt
     let prompt = `Generate a technical specification document based on these facts:\n\n`;
@@ -288,13 +234,13 @@ export const generateTechnicalSpecificationTool: ToolDefinition = {
     prompt += `1. Executive Summary\n`;
     prompt += `2. Technical Parameters (organized by category)\n`;
     prompt += `3. System Configuration\n`;
-    if (args.includeCalculations === "true") {
+    if (args.includeCalculations) {
       prompt += `4. Detailed Calculations and Derivations\n`;
     }
     prompt += `\nUse professional technical writing style with clear section headings.`;
 
     // Generate content
-    const response = await invokeLLM({
+    const response = await (context.llm ?? createLLMClient()).invoke({
       messages: [
         {
           role: "system",
@@ -331,13 +277,13 @@ export const generateTechnicalSpecificationTool: ToolDefinition = {
       specification: generatedContent,
       metadata: {
         category: args.category,
-        includeCalculations: args.includeCalculations === "true",
+        includeCalculations: args.includeCalculations,
         factCount: facts.length,
         tokens: response.usage?.total_tokens,
       },
     };
   },
-};
+});
 
 // Export all generation tools
 export const generationTools: ToolDefinition[] = [
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import { createSqliteProjectDb, type ProjectFixture } from "../sqlite-project-db";
+import type { ToolExecutionContext } from "../tool-executor";
+import { validateMetricsTool, completenessAssessmentTool } from "./intelligence-tools";
+
+const PROJECT_ID = 42;
+
+async function contextFor(fixture: ProjectFixture): Promise<ToolExecutionContext> {
+  const projectDb = await createSqliteProjectDb(new Database(":memory:"), PROJECT_ID, fixture);
+  // Project tools only read the project database; the main database is unused
+  return { userId: 1, projectId: PROJECT_ID, db: {} as MySql2Database<any>, projectDb };
+}
+
+const finding = (result: any, metric: string) =>
+  result.findings.find((f: any) => f.metric === metric);
+
+describe("validate_project_metrics", () => {
+  it("accepts benchmark-conform capacity, land and performance figures", async () => {
+    const context = await contextFor({
+      facts: [
+        { category: "Technical_Design", key: "DC_Capacity", value: "300 MWp" },
+        { category: "Technical_Design", key: "AC_Capacity", value: "250 MW" },
+        { category: "Location", key: "Site_Area", value: "400 hectares" },
+        { category: "Performance", key: "Capacity_Factor", value: "24%" },
+      ],
+    });
+
+    const result: any = await validateMetricsTool.handler({}, context);
+
+    expect(finding(result, "DC/AC Ratio")).toMatchObject({ value: "1.20", status: "ok" });
+    expect(finding(result, "Power Density")).toMatchObject({ value: "0.75 MW/ha", status: "ok" });
+    expect(finding(result, "Capacity Factor")).toMatchObject({ value: "24.0%", status: "ok", factId: "4" });
+    expect(result.summary.critical).toBe(0);
+  });
+
+  it("flags a DC/AC ratio below 1 as critical", async () => {
+    const context = await contextFor({
+      facts: [
+        { category: "Technical_Design", key: "DC_Capacity", value: "200 MWp" },
+        { category: "Technical_Design", key: "AC_Capacity", value: "250 MW" },
+      ],
+    });
+
+    const result: any = await validateMetricsTool.handler({ focusArea: "capacity" }, context);
+
+    expect(finding(result, "DC/AC Ratio")).toMatchObject({ value: "0.80", status: "critical" });
+    expect(result.summary.critical).toBe(1);
+  });
+
+  it("reports missing capacities and ignores deleted facts", async () => {
+    const context = await contextFor({
+      facts: [
+        { category: "Technical_Design", key: "DC_Capacity", value: "300 MWp" },
+        { category: "Technical_Design", key: "AC_Capacity", value: "250 MW", deleted_at: "2026-01-01 00:00:00" },
+      ],
+    });
+
+    const result: any = await validateMetricsTool.handler({ focusArea: "capacity" }, context);
+
+    expect(finding(result, "DC/AC Ratio")).toBeUndefined();
+    expect(finding(result, "AC Capacity")).toMatchObject({ status: "missing" });
+    expect(finding(result, "DC Capacity")).toBeUndefined();
+  });
+
+  it("flags a capacity factor outside the expected range", async () => {
+    const context = await contextFor({
+      facts: [{ category: "Performance", key: "Capacity_Factor", value: "0.12" }],
+    });
+
+    const result: any = await validateMetricsTool.handler({ focusArea: "performance" }, context);
+
+    expect(finding(result, "Capacity Factor")).toMatchObject({ value: "12.0%", status: "critical" });
+  });
+});
+
+describe("assess_completeness", () => {
+  it("lists every critical item as a gap for an empty project", async () => {
+    const context = await contextFor({});
+
+    const result: any = await completenessAssessmentTool.handler({ ddType: "technical" }, context);
+
+    expect(result.overallCompleteness).toBe("0%");
+    expect(result.foundItems).toBe(0);
+    expect(result.criticalGaps.items.map((gap: any) => gap.key)).toEqual([
+      "dc_capacity", "ac_capacity", "location", "grid_voltage",
+    ]);
+    expect(result.recommendation).toMatch(/significantly incomplete/);
+  });
+
+  it("counts the requirements the project's facts cover", async () => {
+    const context = await contextFor({
+      facts: [
+        { category: "Technical_Design", key: "DC_Capacity", value: "300" },
+        { category: "Technical_Design", key: "AC_Capacity", value: "250" },
+        { category: "Location", key: "Country", value: "Oman" },
+        { category: "Technical_Design", key: "Inverter_Model", value: "SG3125HV" },
+        { category: "Grid", key: "Connection_Voltage", value: "132 kV" },
+      ],
+    });
+
+    const result: any = await completenessAssessmentTool.handler({ ddType: "technical" }, context);
+
+    const capacity = result.assessment.find((area: any) => area.area === "Project Capacity & Design");
+    const statusOf = (key: string) => capacity.items.find((item: any) => item.key === key).status;
+    expect(statusOf("dc_capacity")).toBe("found");
+    expect(statusOf("ac_capacity")).toBe("found");
+    expect(statusOf("inverter_type")).toBe("found");
+    expect(statusOf("module_type")).toBe("missing");
+    expect(result.criticalGaps.count).toBe(0);
+    expect(result.totalItems).toBe(17);
+    expect(result.foundItems).toBe(5);
+  });
+
+  it("does not count deleted facts", async () => {
+    const context = await contextFor({
+      facts: [
+        { category: "Technical_Design", key: "DC_Capacity", value: "300", deleted_at: "2026-01-01 00:00:00" },
+      ],
+    });
+
+    const result: any = await completenessAssessmentTool.handler({ ddType: "technical" }, context);
+
+    expect(result.foundItems).toBe(0);
+  });
+});
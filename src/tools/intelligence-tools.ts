@@ -1,4 +1,5 @@
 import type { ToolDefinition } from "../tool-executor";
+import { getProjectRepository, type Document, type Fact, type RedFlag } from "../project-repository";
 
 /**
  * Intelligence Tools
@@ -34,31 +35,19 @@ export const deepDiveTool: ToolDefinition = {
     required: ["topic"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
+    const repository = getProjectRepository(context);
     const topic = args.topic as string;
     const includeRisks = args.includeRelatedRisks !== "false";
-    const tableName = `proj_${context.projectId}_extractedFacts`;
 
     // Search across ALL fields for the topic
-    const factsQuery = `
-      SELECT id, category, \`key\`, value, data_type, confidence, 
-             source_document_id, extraction_method, verified, created_at
-      FROM ${tableName}
-      WHERE (
-        value LIKE ? OR category LIKE ? OR \`key\` LIKE ?
-      )
-      ORDER BY category, confidence DESC
-      LIMIT 100
-    `;
-    const searchTerm = `%${topic}%`;
-    const factsResult = await context.projectDb.execute(factsQuery, [searchTerm, searchTerm, searchTerm]);
-    const allFacts = factsResult[0] as any[];
+    const allFacts = await repository.findFacts({
+      text: [{ term: topic, fields: ["value", "category", "key"] }],
+      orderBy: "category",
+      limit: 100,
+    });
 
     // Group facts by category
-    const factsByCategory: Record<string, any[]> = {};
+    const factsByCategory: Record<string, Fact[]> = {};
     for (const fact of allFacts) {
       if (!factsByCategory[fact.category]) {
         factsByCategory[fact.category] = [];
@@ -67,42 +56,21 @@ export const deepDiveTool: ToolDefinition = {
     }
 
     // Get related risks if requested
-    let relatedRisks: any[] = [];
+    let relatedRisks: RedFlag[] = [];
     if (includeRisks) {
-      const risksQuery = `
-        SELECT id, \`key\`, value, confidence, source_document_id, verified
-        FROM ${tableName}
-        WHERE category = 'Risks_And_Issues'
-        AND (value LIKE ? OR \`key\` LIKE ?)
-        ORDER BY confidence DESC
-        LIMIT 20
-      `;
-      const risksResult = await context.projectDb.execute(risksQuery, [searchTerm, searchTerm]);
-      relatedRisks = risksResult[0] as any[];
+      relatedRisks = await repository.findRedFlags({ search: topic, limit: 20 });
     }
 
     // Get unique source document IDs and fetch document info
-    const sourceDocIds = new Set<number>();
+    const sourceDocIds = new Set<string>();
     for (const fact of allFacts) {
-      if (fact.source_document_id) sourceDocIds.add(fact.source_document_id);
-    }
-    for (const risk of relatedRisks) {
-      if (risk.source_document_id) sourceDocIds.add(risk.source_document_id);
+      if (fact.sourceDocumentId) sourceDocIds.add(fact.sourceDocumentId);
     }
 
-    let sourceDocuments: any[] = [];
+    let sourceDocuments: Document[] = [];
     if (sourceDocIds.size > 0) {
-      const docTableName = `proj_${context.projectId}_documents`;
-      const docIds = Array.from(sourceDocIds);
-      const placeholders = docIds.map(() => '?').join(',');
-      const docsQuery = `
-        SELECT id, fileName, documentType
-        FROM ${docTableName}
-        WHERE id IN (${placeholders})
-      `;
       try {
-        const docsResult = await context.projectDb.execute(docsQuery, docIds);
-        sourceDocuments = docsResult[0] as any[];
+        sourceDocuments = await repository.getDocuments(Array.from(sourceDocIds));
       } catch (e) {
         // Documents table might not exist or have different schema
         console.warn("[DEEP_DIVE] Could not fetch source documents:", e);
@@ -113,7 +81,7 @@ export const deepDiveTool: ToolDefinition = {
     const totalFacts = allFacts.length;
     const verifiedFacts = allFacts.filter(f => f.verified).length;
     const avgConfidence = totalFacts > 0
-      ? allFacts.reduce((sum, f) => sum + (parseFloat(f.confidence) || 0), 0) / totalFacts
+      ? allFacts.reduce((sum, f) => sum + (parseFloat(String(f.confidence)) || 0), 0) / totalFacts
       : 0;
 
     return {
@@ -158,42 +126,24 @@ export const crossReferenceTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    let facts: any[] = [];
+    const repository = getProjectRepository(context);
+    let facts: Fact[] = [];
 
     if (args.factIds) {
       const ids = (args.factIds as string).split(',').map(id => id.trim());
-      const placeholders = ids.map(() => '?').join(',');
-      const query = `
-        SELECT id, category, \`key\`, value, data_type, confidence, 
-               source_document_id, extraction_method, verified
-        FROM ${tableName}
-        WHERE id IN (${placeholders})
-      `;
-      const result = await context.projectDb.execute(query, ids);
-      facts = result[0] as any[];
+      facts = await repository.findFacts({ ids });
     } else if (args.topic) {
-      const searchTerm = `%${args.topic}%`;
-      const query = `
-        SELECT id, category, \`key\`, value, data_type, confidence, 
-               source_document_id, extraction_method, verified
-        FROM ${tableName}
-        WHERE (value LIKE ? OR \`key\` LIKE ?)
-        ORDER BY category, \`key\`
-        LIMIT 50
-      `;
-      const result = await context.projectDb.execute(query, [searchTerm, searchTerm]);
-      facts = result[0] as any[];
+      facts = await repository.findFacts({
+        text: [{ term: args.topic as string, fields: ["value", "key"] }],
+        orderBy: "categoryKey",
+        limit: 50,
+      });
     } else {
       throw new Error("Either factIds or topic must be provided");
     }
 
     // Group by key to find potential duplicates/contradictions
-    const factsByKey: Record<string, any[]> = {};
+    const factsByKey: Record<string, Fact[]> = {};
     for (const fact of facts) {
       const normalizedKey = fact.key.toLowerCase().replace(/[_\s-]+/g, '_');
       if (!factsByKey[normalizedKey]) {
@@ -217,7 +167,7 @@ export const crossReferenceTool: ToolDefinition = {
               category: f.category,
               value: f.value,
               confidence: f.confidence,
-              sourceDocumentId: f.source_document_id,
+              sourceDocumentId: f.sourceDocumentId,
               verified: f.verified,
             })),
             issue: `Multiple different values found for "${key}"`,
@@ -227,20 +177,20 @@ export const crossReferenceTool: ToolDefinition = {
             key,
             value: keyFacts[0].value,
             confirmedBy: keyFacts.length,
-            sources: keyFacts.map(f => f.source_document_id).filter(Boolean),
+            sources: keyFacts.map(f => f.sourceDocumentId).filter(Boolean),
           });
         }
       }
     }
 
     // Check for facts from different sources
-    const sourceGroups: Record<number, any[]> = {};
+    const sourceGroups: Record<string, Fact[]> = {};
     for (const fact of facts) {
-      if (fact.source_document_id) {
-        if (!sourceGroups[fact.source_document_id]) {
-          sourceGroups[fact.source_document_id] = [];
+      if (fact.sourceDocumentId) {
+        if (!sourceGroups[fact.sourceDocumentId]) {
+          sourceGroups[fact.sourceDocumentId] = [];
         }
-        sourceGroups[fact.source_document_id].push(fact);
+        sourceGroups[fact.sourceDocumentId].push(fact);
       }
     }
 
@@ -255,7 +205,7 @@ export const crossReferenceTool: ToolDefinition = {
         items: agreements,
       },
       sourceDistribution: Object.entries(sourceGroups).map(([docId, docFacts]) => ({
-        documentId: parseInt(docId),
+        documentId: docId,
         factCount: docFacts.length,
       })),
       allFacts: facts,
@@ -284,24 +234,14 @@ export const validateMetricsTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
+    const repository = getProjectRepository(context);
     const focusArea = (args.focusArea as string) || "all";
 
     // Pull all facts for validation
-    const query = `
-      SELECT id, category, \`key\`, value, data_type, confidence, verified
-      FROM ${tableName}
-      ORDER BY category, \`key\`
-    `;
-    const result = await context.projectDb.execute(query);
-    const allFacts = result[0] as any[];
+    const allFacts = await repository.findFacts({ orderBy: "categoryKey" });
 
     // Build a lookup map for quick access
-    const factLookup: Record<string, any[]> = {};
+    const factLookup: Record<string, Fact[]> = {};
     for (const fact of allFacts) {
       const normalizedKey = fact.key.toLowerCase().replace(/[_\s-]+/g, '_');
       if (!factLookup[normalizedKey]) {
@@ -311,7 +251,7 @@ export const validateMetricsTool: ToolDefinition = {
     }
 
     // Also build a value search function
-    const findFactByKeyword = (keyword: string): any[] => {
+    const findFactByKeyword = (keyword: string): Fact[] => {
       return allFacts.filter(f => 
         f.key.toLowerCase().includes(keyword.toLowerCase()) ||
         f.value?.toString().toLowerCase().includes(keyword.toLowerCase())
@@ -324,11 +264,11 @@ export const validateMetricsTool: ToolDefinition = {
       benchmark: string;
       status: string; // ok, warning, critical, missing
       explanation: string;
-      factId?: number;
+      factId?: string;
     }> = [];
 
     // Helper to extract numeric value from a fact
-    const extractNumber = (value: string): number | null => {
+    const extractNumber = (value: string | null): number | null => {
       if (!value) return null;
       const match = value.toString().match(/[\d,]+\.?\d*/);
       if (match) return parseFloat(match[0].replace(/,/g, ''));
@@ -505,8 +445,8 @@ export const validateMetricsTool: ToolDefinition = {
     // === DATA QUALITY OVERVIEW ===
     const totalFacts = allFacts.length;
     const verifiedCount = allFacts.filter(f => f.verified).length;
-    const highConfidenceCount = allFacts.filter(f => parseFloat(f.confidence) >= 0.8).length;
-    const lowConfidenceCount = allFacts.filter(f => parseFloat(f.confidence) < 0.5).length;
+    const highConfidenceCount = allFacts.filter(f => parseFloat(String(f.confidence)) >= 0.8).length;
+    const lowConfidenceCount = allFacts.filter(f => parseFloat(String(f.confidence)) < 0.5).length;
 
     // Identify categories with no data
     const existingCategories = new Set(allFacts.map(f => f.category));
@@ -559,63 +499,37 @@ export const factLineageTool: ToolDefinition = {
     required: ["factId"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
+    const repository = getProjectRepository(context);
 
     // Get the target fact
-    const factQuery = `
-      SELECT id, category, \`key\`, value, data_type, confidence, 
-             source_document_id, extraction_method, verified, created_at
-      FROM ${tableName}
-      WHERE id = ?
-    `;
-    const factResult = await context.projectDb.execute(factQuery, [args.factId]);
-    const facts = factResult[0] as any[];
-
-    if (facts.length === 0) {
+    const targetFact = await repository.getFact(args.factId as string);
+
+    if (!targetFact) {
       return { error: "Fact not found", factId: args.factId };
     }
 
-    const targetFact = facts[0];
-
     // Get source document info
-    let sourceDocument = null;
-    let siblingFacts: any[] = [];
+    let sourceDocument: Document | null = null;
+    let siblingFacts: Fact[] = [];
 
-    if (targetFact.source_document_id) {
+    if (targetFact.sourceDocumentId) {
       try {
-        const docTableName = `proj_${context.projectId}_documents`;
-        const docQuery = `
-          SELECT id, fileName, documentType, pageCount, status
-          FROM ${docTableName}
-          WHERE id = ?
-        `;
-        const docResult = await context.projectDb.execute(docQuery, [targetFact.source_document_id]);
-        const docs = docResult[0] as any[];
-        if (docs.length > 0) {
-          sourceDocument = docs[0];
-        }
+        sourceDocument = await repository.getDocument(targetFact.sourceDocumentId);
       } catch (e) {
         console.warn("[LINEAGE] Could not fetch source document:", e);
       }
 
       // Get all facts from the same source document
-      const siblingsQuery = `
-        SELECT id, category, \`key\`, value, confidence, verified
-        FROM ${tableName}
-        WHERE source_document_id = ? AND id != ?
-        ORDER BY category, \`key\`
-        LIMIT 50
-      `;
-      const siblingsResult = await context.projectDb.execute(siblingsQuery, [targetFact.source_document_id, args.factId]);
-      siblingFacts = siblingsResult[0] as any[];
+      siblingFacts = await repository.findFacts({
+        sourceDocumentId: targetFact.sourceDocumentId,
+        excludeId: targetFact.id,
+        orderBy: "categoryKey",
+        limit: 50,
+      });
     }
 
     // Group sibling facts by category
-    const siblingsByCategory: Record<string, any[]> = {};
+    const siblingsByCategory: Record<string, Fact[]> = {};
     for (const fact of siblingFacts) {
       if (!siblingsByCategory[fact.category]) {
         siblingsByCategory[fact.category] = [];
@@ -631,10 +545,10 @@ export const factLineageTool: ToolDefinition = {
         byCategory: siblingsByCategory,
       },
       provenance: {
-        extractionMethod: targetFact.extraction_method,
+        extractionMethod: targetFact.extractionMethod,
         confidence: targetFact.confidence,
         verified: targetFact.verified,
-        sourceDocumentId: targetFact.source_document_id,
+        sourceDocumentId: targetFact.sourceDocumentId,
         sourceFileName: sourceDocument?.fileName || "Unknown",
         sourceDocumentType: sourceDocument?.documentType || "Unknown",
       },
@@ -663,21 +577,11 @@ export const completenessAssessmentTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
+    const repository = getProjectRepository(context);
     const ddType = (args.ddType as string) || "full";
 
     // Get all facts
-    const query = `
-      SELECT category, \`key\`, value, confidence, verified
-      FROM ${tableName}
-      ORDER BY category
-    `;
-    const result = await context.projectDb.execute(query);
-    const allFacts = result[0] as any[];
+    const allFacts = await repository.findFacts({ orderBy: "categoryKey" });
 
     // Build lookup
     const factKeys = new Set(allFacts.map(f => f.key.toLowerCase().replace(/[_\s-]+/g, '_')));
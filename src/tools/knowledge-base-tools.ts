@@ -1,7 +1,9 @@
-import type { ToolDefinition } from "../tool-executor";
+import type { ToolDefinition, ToolExecutionContext } from "../tool-executor";
 import { v4 as uuidv4 } from "uuid";
-import { eq, and, like, desc, sql } from "drizzle-orm";
+import { eq, and, desc } from "drizzle-orm";
 import { agentKnowledgeBase } from "../schema";
+import { KnowledgeRetriever } from "../knowledge-retrieval";
+import { KnowledgeHistory, type KnowledgeActor } from "../knowledge-history";
 
 /**
  * Knowledge Base Tools
@@ -12,13 +14,23 @@ import { agentKnowledgeBase } from "../schema";
  * all projects and conversations.
  */
 
+// Outside the orchestrator there is no configured retriever: rank by BM25
+function retrieverFor(context: ToolExecutionContext): KnowledgeRetriever {
+  return context.knowledgeRetriever ?? new KnowledgeRetriever(context.db);
+}
+
+// Changes made with these tools are recorded as the agent's, on behalf of the user
+function agentActor(context: ToolExecutionContext): KnowledgeActor {
+  return { type: "agent", userId: context.userId, conversationId: context.conversationId };
+}
+
 // ============================================================
 // SEARCH KNOWLEDGE BASE
 // ============================================================
 
 export const searchKnowledgeTool: ToolDefinition = {
   name: "search_knowledge_base",
-  description: "Search the global knowledge base for relevant insights, best practices, and learned patterns. This is the agent's persistent memory — it contains knowledge accumulated from all projects and seeded domain expertise. Use this BEFORE answering questions to check if there's relevant accumulated knowledge. Search by topic keywords, category, or tags.",
+  description: "Search the global knowledge base for relevant insights, best practices, and learned patterns. This is the agent's persistent memory — it contains knowledge accumulated from all projects and seeded domain expertise. Use this BEFORE answering questions to check if there's relevant accumulated knowledge. Search by topic keywords, category, or tags; results are ranked by relevance.",
   parameters: {
     type: "object",
     properties: {
@@ -38,45 +50,7 @@ export const searchKnowledgeTool: ToolDefinition = {
     const query = args.query as string;
     const category = args.category as string | undefined;
 
-    const keywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 2);
-
-    // Build WHERE conditions
-    const conditions: any[] = [];
-    
-    // Search across topic and content fields
-    for (const keyword of keywords.slice(0, 5)) {
-      conditions.push(
-        sql`(LOWER(${agentKnowledgeBase.topic}) LIKE ${`%${keyword}%`} OR LOWER(${agentKnowledgeBase.content}) LIKE ${`%${keyword}%`})`
-      );
-    }
-
-    if (category) {
-      conditions.push(eq(agentKnowledgeBase.category, category));
-    }
-
-    let queryBuilder = context.db
-      .select()
-      .from(agentKnowledgeBase);
-
-    if (conditions.length > 0) {
-      // Use OR for keyword matching so any keyword match returns results
-      if (category) {
-        queryBuilder = queryBuilder.where(
-          and(
-            eq(agentKnowledgeBase.category, category),
-            sql`(${sql.join(conditions.filter(c => c !== conditions[conditions.length - 1]), sql` OR `)})`
-          )
-        ) as any;
-      } else {
-        queryBuilder = queryBuilder.where(
-          sql`(${sql.join(conditions, sql` OR `)})`
-        ) as any;
-      }
-    }
-
-    const results = await queryBuilder
-      .orderBy(desc(agentKnowledgeBase.updatedAt))
-      .limit(20);
+    const { results } = await retrieverFor(context).search({ query, category, limit: 10 });
 
     if (results.length === 0) {
       return {
@@ -89,13 +63,14 @@ export const searchKnowledgeTool: ToolDefinition = {
     return {
       found: true,
       count: results.length,
-      entries: results.map((r: any) => ({
+      entries: results.map(({ entry: r, score }) => ({
         id: r.id,
         category: r.category,
         topic: r.topic,
         content: r.content,
         confidence: r.confidence,
         sourceCount: r.sourceCount,
+        relevance: Math.round(score * 100) / 100,
         tags: r.metadata?.tags || [],
         relatedTopics: r.metadata?.relatedTopics || [],
         applicability: r.metadata?.applicability || [],
@@ -111,7 +86,8 @@ export const searchKnowledgeTool: ToolDefinition = {
 
 export const addKnowledgeTool: ToolDefinition = {
   name: "add_knowledge",
-  description: "Add a new insight, best practice, or learned pattern to the global knowledge base. Use this when you discover something valuable during analysis that would be useful for future projects — for example, a regional regulatory pattern, a typical metric range, or a common risk pattern. Knowledge is de-identified and applies across projects.",
+  riskLevel: "write",
+  description: "Add a new insight, best practice, or learned pattern to the global knowledge base. Use this when you discover something valuable during analysis that would be useful for future projects — for example, a regional regulatory pattern, a typical metric range, or a common risk pattern. Knowledge is de-identified and applies across projects. New entries are proposed to reviewers and used once approved.",
   parameters: {
     type: "object",
     properties: {
@@ -161,17 +137,25 @@ export const addKnowledgeTool: ToolDefinition = {
       content: args.content as string,
       confidence: args.confidence as string,
       sourceCount: 1,
+      sourceProjects: context.projectId !== undefined ? [context.projectId] : [],
+      status: "proposed",
       metadata: {
         tags,
         relatedTopics,
         applicability,
       },
     });
+    await new KnowledgeHistory(context.db).record({
+      knowledgeId: id,
+      action: "create",
+      before: null,
+      actor: agentActor(context),
+    });
 
     return {
       success: true,
       id,
-      message: `Knowledge entry added: "${args.topic}" (${args.category}, ${args.confidence} confidence)`,
+      message: `Knowledge entry proposed: "${args.topic}" (${args.category}, ${args.confidence} confidence). It will be used once a reviewer approves it.`,
     };
   },
 };
@@ -182,6 +166,7 @@ export const addKnowledgeTool: ToolDefinition = {
 
 export const updateKnowledgeTool: ToolDefinition = {
   name: "update_knowledge",
+  riskLevel: "write",
   description: "Update an existing knowledge base entry — for example, to increase confidence after seeing the same pattern in another project, to refine the content, or to add new tags. Use this to strengthen knowledge over time.",
   parameters: {
     type: "object",
@@ -201,7 +186,7 @@ export const updateKnowledgeTool: ToolDefinition = {
       },
       incrementSourceCount: {
         type: "string",
-        description: "Set to 'true' to increment the source count (when this pattern is confirmed by another project)",
+        description: "Set to 'true' to increment the source count (when this pattern is confirmed by the current project). Each project counts once; ignored without a selected project.",
         enum: ["true", "false"],
       },
       additionalTags: {
@@ -228,12 +213,17 @@ export const updateKnowledgeTool: ToolDefinition = {
 
     if (args.content) {
       updates.content = args.content as string;
+      // Changed content needs review again before it is used
+      updates.status = "proposed";
     }
     if (args.confidence) {
       updates.confidence = args.confidence as string;
     }
-    if (args.incrementSourceCount === "true") {
+    // A project confirms an entry once; the current project must be new to it
+    const sourceProjects = existing.sourceProjects || [];
+    if (args.incrementSourceCount === "true" && context.projectId !== undefined && !sourceProjects.includes(context.projectId)) {
       updates.sourceCount = (existing.sourceCount || 1) + 1;
+      updates.sourceProjects = [...sourceProjects, context.projectId];
     }
     if (args.additionalTags) {
       const existingTags = (existing.metadata as any)?.tags || [];
@@ -246,13 +236,24 @@ export const updateKnowledgeTool: ToolDefinition = {
     }
 
     if (Object.keys(updates).length === 0) {
-      return { success: false, error: "No updates provided" };
+      return {
+        success: false,
+        error: args.incrementSourceCount === "true"
+          ? "Source count unchanged: this project is already a source of the entry, or no project is selected"
+          : "No updates provided",
+      };
     }
 
     await context.db
       .update(agentKnowledgeBase)
       .set(updates)
       .where(eq(agentKnowledgeBase.id, id));
+    await new KnowledgeHistory(context.db).record({
+      knowledgeId: id,
+      action: "update",
+      before: existing,
+      actor: agentActor(context),
+    });
 
     return {
       success: true,
@@ -267,7 +268,8 @@ export const updateKnowledgeTool: ToolDefinition = {
 
 export const deleteKnowledgeTool: ToolDefinition = {
   name: "delete_knowledge",
-  description: "Delete a knowledge base entry. Use this to remove outdated, incorrect, or duplicate knowledge.",
+  riskLevel: "destructive",
+  description: "Delete a knowledge base entry. Use this to remove outdated, incorrect, or duplicate knowledge. The entry stays in the knowledge history and can be restored by a reviewer.",
   parameters: {
     type: "object",
     properties: {
@@ -277,7 +279,7 @@ export const deleteKnowledgeTool: ToolDefinition = {
       },
       reason: {
         type: "string",
-        description: "Reason for deletion (for audit purposes)",
+        description: "Reason for deletion (recorded in the knowledge history)",
       },
     },
     required: ["id", "reason"],
@@ -297,6 +299,14 @@ export const deleteKnowledgeTool: ToolDefinition = {
     await context.db
       .delete(agentKnowledgeBase)
       .where(eq(agentKnowledgeBase.id, id));
+    await retrieverFor(context).removeEntries([id]);
+    await new KnowledgeHistory(context.db).record({
+      knowledgeId: id,
+      action: "delete",
+      before: existing,
+      actor: agentActor(context),
+      reason: args.reason as string,
+    });
 
     return {
       success: true,
@@ -311,7 +321,7 @@ export const deleteKnowledgeTool: ToolDefinition = {
 
 export const listKnowledgeTool: ToolDefinition = {
   name: "list_knowledge",
-  description: "List all knowledge base entries, optionally filtered by category. Use this to see what the agent has learned and what knowledge is available.",
+  description: "List all approved knowledge base entries, optionally filtered by category. Use this to see what the agent has learned and what knowledge is available.",
   parameters: {
     type: "object",
     properties: {
@@ -338,9 +348,11 @@ export const listKnowledgeTool: ToolDefinition = {
       })
       .from(agentKnowledgeBase);
 
-    if (category) {
-      queryBuilder = queryBuilder.where(eq(agentKnowledgeBase.category, category)) as any;
-    }
+    queryBuilder = queryBuilder.where(
+      category
+        ? and(eq(agentKnowledgeBase.status, "approved"), eq(agentKnowledgeBase.category, category))
+        : eq(agentKnowledgeBase.status, "approved")
+    ) as any;
 
     const results = await queryBuilder
       .orderBy(desc(agentKnowledgeBase.updatedAt))
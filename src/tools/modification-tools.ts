@@ -1,4 +1,7 @@
 import type { ToolDefinition } from "../tool-executor";
+import { z } from "zod";
+import { getProjectRepository } from "../project-repository";
+import { defineTool } from "../tool-schema";
 import { agentGeneratedContent } from "../schema";
 import { eq, and } from "drizzle-orm";
 
@@ -14,6 +17,7 @@ import { eq, and } from "drizzle-orm";
 
 export const createFactTool: ToolDefinition = {
   name: "create_fact",
+  riskLevel: "write",
   description: "Create a new fact in the project database. Use this to add new information discovered during conversation or to record user-provided data.",
   parameters: {
     type: "object",
@@ -40,7 +44,7 @@ export const createFactTool: ToolDefinition = {
         description: "Confidence score (0.0 to 1.0). Use 1.0 for user-provided data, lower for inferred data.",
       },
       sourceDocumentId: {
-        type: "number",
+        type: "string",
         description: "Optional: ID of source document if fact was extracted from a document",
       },
       extractionMethod: {
@@ -55,55 +59,38 @@ export const createFactTool: ToolDefinition = {
     required: ["category", "key", "value", "dataType", "confidence"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
+
+    const fact = await repository.createFact({
+      category: args.category as string,
+      key: args.key as string,
+      value: args.value as string,
+      dataType: args.dataType as string,
+      confidence: args.confidence as number,
+      sourceDocumentId: (args.sourceDocumentId as string) || null,
+      extractionMethod: (args.extractionMethod as string) || 'agent_created',
+      verified: Boolean(args.verified),
+    });
 
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    const verified = args.verified ? 1 : 0;
-    const extractionMethod = args.extractionMethod || 'agent_created';
-    
-    const query = `
-      INSERT INTO ${tableName} 
-        (category, \`key\`, value, data_type, confidence, source_document_id, extraction_method, verified, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())
-    `;
-
-    const values = [
-      args.category,
-      args.key,
-      args.value,
-      args.dataType,
-      args.confidence,
-      args.sourceDocumentId || null,
-      extractionMethod,
-      verified,
-    ];
-
-    console.log("[CREATE_FACT DEBUG] Executing query:", query);
-    console.log("[CREATE_FACT DEBUG] Values:", values);
-
-    const result = await context.projectDb.execute(query, values);
-    const insertId = (result[0] as any).insertId;
-
-    console.log("[CREATE_FACT DEBUG] Created fact with ID:", insertId);
+    console.log("[CREATE_FACT DEBUG] Created fact with ID:", fact.id);
 
     return {
       success: true,
-      factId: insertId,
-      message: `Created fact: ${args.category}.${args.key} = ${args.value}`,
+      factId: fact.id,
+      message: `Created fact: ${fact.category}.${fact.key} = ${fact.value}`,
     };
   },
 };
 
 export const updateFactTool: ToolDefinition = {
   name: "update_fact",
+  riskLevel: "write",
   description: "Update an existing fact in the project database. Can update value, confidence, verification status, or other fields.",
   parameters: {
     type: "object",
     properties: {
       factId: {
-        type: "number",
+        type: "string",
         description: "ID of the fact to update",
       },
       value: {
@@ -135,61 +122,18 @@ export const updateFactTool: ToolDefinition = {
     required: ["factId"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    const updates: string[] = [];
-    const values: any[] = [];
-
-    // Build SET clause dynamically based on provided fields
-    if (args.value !== undefined) {
-      updates.push("value = ?");
-      values.push(args.value);
-    }
-    if (args.confidence !== undefined) {
-      updates.push("confidence = ?");
-      values.push(args.confidence);
-    }
-    if (args.verified !== undefined) {
-      updates.push("verified = ?");
-      values.push(args.verified ? 1 : 0);
-    }
-    if (args.category !== undefined) {
-      updates.push("category = ?");
-      values.push(args.category);
-    }
-    if (args.key !== undefined) {
-      updates.push("`key` = ?");
-      values.push(args.key);
-    }
-    if (args.dataType !== undefined) {
-      updates.push("data_type = ?");
-      values.push(args.dataType);
-    }
-
-    if (updates.length === 0) {
-      throw new Error("No fields to update. Provide at least one field to update.");
-    }
-
-    values.push(args.factId);
-
-    const query = `
-      UPDATE ${tableName}
-      SET ${updates.join(", ")}
-      WHERE id = ?
-    `;
-
-    console.log("[UPDATE_FACT DEBUG] Executing query:", query);
-    console.log("[UPDATE_FACT DEBUG] Values:", values);
-
-    const result = await context.projectDb.execute(query, values);
-    const affectedRows = (result[0] as any).affectedRows;
-
-    console.log("[UPDATE_FACT DEBUG] Affected rows:", affectedRows);
+    const repository = getProjectRepository(context);
+
+    const updated = await repository.updateFact(args.factId as string, {
+      value: args.value as string | undefined,
+      confidence: args.confidence as number | undefined,
+      verified: args.verified === undefined ? undefined : Boolean(args.verified),
+      category: args.category as string | undefined,
+      key: args.key as string | undefined,
+      dataType: args.dataType as string | undefined,
+    });
 
-    if (affectedRows === 0) {
+    if (!updated) {
       return {
         success: false,
         message: `Fact with ID ${args.factId} not found`,
@@ -207,12 +151,13 @@ export const updateFactTool: ToolDefinition = {
 
 export const deleteFactTool: ToolDefinition = {
   name: "delete_fact",
+  riskLevel: "destructive",
   description: "Delete a fact from the project database. Use with caution - this operation cannot be undone.",
   parameters: {
     type: "object",
     properties: {
       factId: {
-        type: "number",
+        type: "string",
         description: "ID of the fact to delete",
       },
       confirm: {
@@ -223,20 +168,13 @@ export const deleteFactTool: ToolDefinition = {
     required: ["factId", "confirm"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     if (!args.confirm) {
       throw new Error("Deletion not confirmed. Set confirm=true to proceed.");
     }
 
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    
-    // First, get the fact details before deleting
-    const selectQuery = `SELECT category, \`key\`, value FROM ${tableName} WHERE id = ?`;
-    const selectResult = await context.projectDb.execute(selectQuery, [args.factId]);
-    const fact = (selectResult[0] as any[])[0];
+    const fact = await repository.deleteFact(args.factId as string);
 
     if (!fact) {
       return {
@@ -245,15 +183,7 @@ export const deleteFactTool: ToolDefinition = {
       };
     }
 
-    // Now delete it
-    const deleteQuery = `DELETE FROM ${tableName} WHERE id = ?`;
-    console.log("[DELETE_FACT DEBUG] Executing query:", deleteQuery);
-    console.log("[DELETE_FACT DEBUG] Fact ID:", args.factId);
-
-    const result = await context.projectDb.execute(deleteQuery, [args.factId]);
-    const affectedRows = (result[0] as any).affectedRows;
-
-    console.log("[DELETE_FACT DEBUG] Affected rows:", affectedRows);
+    console.log("[DELETE_FACT DEBUG] Deleted fact ID:", fact.id);
 
     return {
       success: true,
@@ -266,12 +196,13 @@ export const deleteFactTool: ToolDefinition = {
 
 export const verifyFactTool: ToolDefinition = {
   name: "verify_fact",
+  riskLevel: "write",
   description: "Mark a fact as verified or unverified. This is a shortcut for updating the verified field.",
   parameters: {
     type: "object",
     properties: {
       factId: {
-        type: "number",
+        type: "string",
         description: "ID of the fact to verify/unverify",
       },
       verified: {
@@ -282,26 +213,13 @@ export const verifyFactTool: ToolDefinition = {
     required: ["factId", "verified"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    const verifiedValue = args.verified ? 1 : 0;
-    
-    const query = `
-      UPDATE ${tableName}
-      SET verified = ?
-      WHERE id = ?
-    `;
+    const repository = getProjectRepository(context);
 
-    console.log("[VERIFY_FACT DEBUG] Executing query:", query);
-    console.log("[VERIFY_FACT DEBUG] Fact ID:", args.factId, "Verified:", args.verified);
-
-    const result = await context.projectDb.execute(query, [verifiedValue, args.factId]);
-    const affectedRows = (result[0] as any).affectedRows;
+    const updated = await repository.updateFact(args.factId as string, {
+      verified: Boolean(args.verified),
+    });
 
-    if (affectedRows === 0) {
+    if (!updated) {
       return {
         success: false,
         message: `Fact with ID ${args.factId} not found`,
@@ -328,11 +246,14 @@ export const factModificationTools = [
 // ============================================================================
 // RED FLAG MODIFICATION TOOLS
 // ============================================================================
-// Note: Red flags are stored as facts with category='Risks_And_Issues'
+// Note: Red flags are stored in the project's redFlags table
+
+const RED_FLAG_CATEGORIES = ["Planning", "Grid", "Geotech", "Performance", "Scope", "Commercial", "Other"];
 
 export const createRedFlagTool: ToolDefinition = {
   name: "create_red_flag",
-  description: "Create a new red flag (risk or issue) in the project. Red flags are stored as facts with category='Risks_And_Issues'.",
+  riskLevel: "write",
+  description: "Create a new red flag (risk or issue) in the project.",
   parameters: {
     type: "object",
     properties: {
@@ -346,75 +267,56 @@ export const createRedFlagTool: ToolDefinition = {
       },
       severity: {
         type: "string",
-        description: "Severity level",
+        description: "Severity level (critical is stored as high)",
         enum: ["critical", "high", "medium", "low"],
       },
-      confidence: {
-        type: "number",
-        description: "Confidence score (0.0 to 1.0). Use 1.0 for user-reported issues, lower for agent-detected risks.",
+      category: {
+        type: "string",
+        description: "Risk category (default: Other)",
+        enum: RED_FLAG_CATEGORIES,
       },
-      sourceDocumentId: {
-        type: "number",
-        description: "Optional: ID of source document if red flag was identified from a document",
+      triggerFactId: {
+        type: "string",
+        description: "Optional: ID of the fact that triggered this red flag",
+      },
+      downstreamConsequences: {
+        type: "string",
+        description: "Optional: consequences for the project if the issue is not addressed",
       },
     },
-    required: ["title", "description", "severity", "confidence"],
+    required: ["title", "description", "severity"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    
-    // Store red flag as a fact with category='Risks_And_Issues'
-    // Key = title, Value = JSON with description and severity
-    const value = JSON.stringify({
-      description: args.description,
-      severity: args.severity,
+    const repository = getProjectRepository(context);
+
+    const redFlag = await repository.createRedFlag({
+      title: args.title as string,
+      description: args.description as string,
+      severity: args.severity as string,
+      category: (args.category as string) || null,
+      triggerFactId: (args.triggerFactId as string) || null,
+      downstreamConsequences: (args.downstreamConsequences as string) || null,
     });
-    
-    const query = `
-      INSERT INTO ${tableName} 
-        (category, \`key\`, value, data_type, confidence, source_document_id, extraction_method, verified, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())
-    `;
-
-    const values = [
-      'Risks_And_Issues',
-      args.title,
-      value,
-      'json',
-      args.confidence,
-      args.sourceDocumentId || null,
-      'agent_created',
-      0, // Not verified by default
-    ];
-
-    console.log("[CREATE_RED_FLAG DEBUG] Executing query:", query);
-    console.log("[CREATE_RED_FLAG DEBUG] Values:", values);
-
-    const result = await context.projectDb.execute(query, values);
-    const insertId = (result[0] as any).insertId;
-
-    console.log("[CREATE_RED_FLAG DEBUG] Created red flag with ID:", insertId);
+
+    console.log("[CREATE_RED_FLAG DEBUG] Created red flag with ID:", redFlag.id);
 
     return {
       success: true,
-      redFlagId: insertId,
-      message: `Created red flag: ${args.title} (${args.severity})`,
+      redFlagId: redFlag.id,
+      message: `Created red flag: ${redFlag.title} (${redFlag.severity})`,
     };
   },
 };
 
 export const updateRedFlagTool: ToolDefinition = {
   name: "update_red_flag",
-  description: "Update an existing red flag. Can update title, description, severity, or verification status.",
+  riskLevel: "write",
+  description: "Update an existing red flag. Can update title, description, severity, category, or consequences.",
   parameters: {
     type: "object",
     properties: {
       redFlagId: {
-        type: "number",
+        type: "string",
         description: "ID of the red flag to update",
       },
       title: {
@@ -427,97 +329,39 @@ export const updateRedFlagTool: ToolDefinition = {
       },
       severity: {
         type: "string",
-        description: "New severity level",
+        description: "New severity level (critical is stored as high)",
         enum: ["critical", "high", "medium", "low"],
       },
-      verified: {
-        type: "boolean",
-        description: "Whether this red flag has been verified",
+      category: {
+        type: "string",
+        description: "New risk category",
+        enum: RED_FLAG_CATEGORIES,
       },
-      confidence: {
-        type: "number",
-        description: "New confidence score (0.0 to 1.0)",
+      downstreamConsequences: {
+        type: "string",
+        description: "New description of the downstream consequences",
       },
     },
     required: ["redFlagId"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    
-    // First, get the current red flag data
-    const selectQuery = `SELECT \`key\`, value FROM ${tableName} WHERE id = ? AND category = 'Risks_And_Issues'`;
-    const selectResult = await context.projectDb.execute(selectQuery, [args.redFlagId]);
-    const redFlag = (selectResult[0] as any[])[0];
+    const repository = getProjectRepository(context);
+
+    const updated = await repository.updateRedFlag(args.redFlagId as string, {
+      title: args.title as string | undefined,
+      description: args.description as string | undefined,
+      severity: args.severity as string | undefined,
+      category: args.category as string | undefined,
+      downstreamConsequences: args.downstreamConsequences as string | undefined,
+    });
 
-    if (!redFlag) {
+    if (!updated) {
       return {
         success: false,
         message: `Red flag with ID ${args.redFlagId} not found`,
       };
     }
 
-    // Parse current value
-    let currentData: any = {};
-    try {
-      currentData = JSON.parse(redFlag.value);
-    } catch (e) {
-      // If value is not JSON, treat it as description
-      currentData = { description: redFlag.value };
-    }
-
-    // Build updates
-    const updates: string[] = [];
-    const values: any[] = [];
-
-    if (args.title !== undefined) {
-      updates.push("`key` = ?");
-      values.push(args.title);
-    }
-
-    if (args.description !== undefined || args.severity !== undefined) {
-      // Update the JSON value
-      const newData = {
-        description: args.description !== undefined ? args.description : currentData.description,
-        severity: args.severity !== undefined ? args.severity : currentData.severity,
-      };
-      updates.push("value = ?");
-      values.push(JSON.stringify(newData));
-    }
-
-    if (args.confidence !== undefined) {
-      updates.push("confidence = ?");
-      values.push(args.confidence);
-    }
-
-    if (args.verified !== undefined) {
-      updates.push("verified = ?");
-      values.push(args.verified ? 1 : 0);
-    }
-
-    if (updates.length === 0) {
-      throw new Error("No fields to update. Provide at least one field to update.");
-    }
-
-    values.push(args.redFlagId);
-
-    const query = `
-      UPDATE ${tableName}
-      SET ${updates.join(", ")}
-      WHERE id = ? AND category = 'Risks_And_Issues'
-    `;
-
-    console.log("[UPDATE_RED_FLAG DEBUG] Executing query:", query);
-    console.log("[UPDATE_RED_FLAG DEBUG] Values:", values);
-
-    const result = await context.projectDb.execute(query, values);
-    const affectedRows = (result[0] as any).affectedRows;
-
-    console.log("[UPDATE_RED_FLAG DEBUG] Affected rows:", affectedRows);
-
     return {
       success: true,
       redFlagId: args.redFlagId,
@@ -529,12 +373,13 @@ export const updateRedFlagTool: ToolDefinition = {
 
 export const deleteRedFlagTool: ToolDefinition = {
   name: "delete_red_flag",
+  riskLevel: "destructive",
   description: "Delete a red flag from the project. Use with caution - this operation cannot be undone.",
   parameters: {
     type: "object",
     properties: {
       redFlagId: {
-        type: "number",
+        type: "string",
         description: "ID of the red flag to delete",
       },
       confirm: {
@@ -545,20 +390,13 @@ export const deleteRedFlagTool: ToolDefinition = {
     required: ["redFlagId", "confirm"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     if (!args.confirm) {
       throw new Error("Deletion not confirmed. Set confirm=true to proceed.");
     }
 
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    
-    // First, get the red flag details before deleting
-    const selectQuery = `SELECT \`key\`, value FROM ${tableName} WHERE id = ? AND category = 'Risks_And_Issues'`;
-    const selectResult = await context.projectDb.execute(selectQuery, [args.redFlagId]);
-    const redFlag = (selectResult[0] as any[])[0];
+    const redFlag = await repository.deleteRedFlag(args.redFlagId as string);
 
     if (!redFlag) {
       return {
@@ -567,20 +405,12 @@ export const deleteRedFlagTool: ToolDefinition = {
       };
     }
 
-    // Now delete it
-    const deleteQuery = `DELETE FROM ${tableName} WHERE id = ? AND category = 'Risks_And_Issues'`;
-    console.log("[DELETE_RED_FLAG DEBUG] Executing query:", deleteQuery);
-    console.log("[DELETE_RED_FLAG DEBUG] Red flag ID:", args.redFlagId);
-
-    const result = await context.projectDb.execute(deleteQuery, [args.redFlagId]);
-    const affectedRows = (result[0] as any).affectedRows;
-
-    console.log("[DELETE_RED_FLAG DEBUG] Affected rows:", affectedRows);
+    console.log("[DELETE_RED_FLAG DEBUG] Deleted red flag ID:", redFlag.id);
 
     return {
       success: true,
       redFlagId: args.redFlagId,
-      message: `Deleted red flag: ${redFlag.key}`,
+      message: `Deleted red flag: ${redFlag.title}`,
       deletedRedFlag: redFlag,
     };
   },
@@ -588,12 +418,13 @@ export const deleteRedFlagTool: ToolDefinition = {
 
 export const resolveRedFlagTool: ToolDefinition = {
   name: "resolve_red_flag",
-  description: "Mark a red flag as resolved by adding resolution information. This updates the red flag's value to include resolution details.",
+  riskLevel: "write",
+  description: "Mark a red flag as mitigated and record how it was resolved.",
   parameters: {
     type: "object",
     properties: {
       redFlagId: {
-        type: "number",
+        type: "string",
         description: "ID of the red flag to resolve",
       },
       resolution: {
@@ -608,17 +439,9 @@ export const resolveRedFlagTool: ToolDefinition = {
     required: ["redFlagId", "resolution"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    
-    // First, get the current red flag data
-    const selectQuery = `SELECT \`key\`, value FROM ${tableName} WHERE id = ? AND category = 'Risks_And_Issues'`;
-    const selectResult = await context.projectDb.execute(selectQuery, [args.redFlagId]);
-    const redFlag = (selectResult[0] as any[])[0];
+    const repository = getProjectRepository(context);
 
+    const redFlag = await repository.getRedFlag(args.redFlagId as string);
     if (!redFlag) {
       return {
         success: false,
@@ -626,40 +449,16 @@ export const resolveRedFlagTool: ToolDefinition = {
       };
     }
 
-    // Parse current value and add resolution
-    let currentData: any = {};
-    try {
-      currentData = JSON.parse(redFlag.value);
-    } catch (e) {
-      currentData = { description: redFlag.value };
-    }
-
-    const updatedData = {
-      ...currentData,
-      resolved: true,
-      resolution: args.resolution,
-      resolvedBy: args.resolvedBy || 'agent',
-      resolvedAt: new Date().toISOString(),
-    };
-
-    const query = `
-      UPDATE ${tableName}
-      SET value = ?, verified = 1
-      WHERE id = ? AND category = 'Risks_And_Issues'
-    `;
+    const resolvedBy = (args.resolvedBy as string) || 'agent';
+    const mitigationNotes = `${args.resolution} (resolved by ${resolvedBy} on ${new Date().toISOString()})`;
+    await repository.resolveRedFlag(redFlag.id, mitigationNotes);
 
-    console.log("[RESOLVE_RED_FLAG DEBUG] Executing query:", query);
-    console.log("[RESOLVE_RED_FLAG DEBUG] Red flag ID:", args.redFlagId);
-
-    const result = await context.projectDb.execute(query, [JSON.stringify(updatedData), args.redFlagId]);
-    const affectedRows = (result[0] as any).affectedRows;
-
-    console.log("[RESOLVE_RED_FLAG DEBUG] Affected rows:", affectedRows);
+    console.log("[RESOLVE_RED_FLAG DEBUG] Resolved red flag ID:", redFlag.id);
 
     return {
       success: true,
       redFlagId: args.redFlagId,
-      message: `Resolved red flag: ${redFlag.key}`,
+      message: `Resolved red flag: ${redFlag.title}`,
       resolution: args.resolution,
     };
   },
@@ -679,31 +478,17 @@ export const redFlagModificationTools = [
 // These tools manage project narratives, overviews, and generated content
 // Stored in agentGeneratedContent table
 
-export const createNarrativeTool: ToolDefinition = {
+export const createNarrativeTool = defineTool({
   name: "create_narrative",
+  riskLevel: "write",
   description: "Create a new narrative or overview for the project. Use this to generate project summaries, risk narratives, technical descriptions, or any other written content.",
-  parameters: {
-    type: "object",
-    properties: {
-      contentType: {
-        type: "string",
-        description: "Type of narrative content (e.g., 'project_overview', 'risk_narrative', 'technical_summary', 'executive_summary', 'report')",
-      },
-      title: {
-        type: "string",
-        description: "Title of the narrative",
-      },
-      content: {
-        type: "string",
-        description: "The narrative content (can be markdown or plain text)",
-      },
-      metadata: {
-        type: "object",
-        description: "Optional metadata (e.g., { section: 'risks', version: 1, tags: ['solar', 'design'] })",
-      },
-    },
-    required: ["contentType", "title", "content"],
-  },
+  schema: z.object({
+    contentType: z.string().describe("Type of narrative content (e.g., 'project_overview', 'risk_narrative', 'technical_summary', 'executive_summary', 'report')"),
+    title: z.string().min(1).describe("Title of the narrative"),
+    content: z.string().describe("The narrative content (can be markdown or plain text)"),
+    metadata: z.record(z.string(), z.unknown()).optional()
+      .describe("Optional metadata (e.g., { section: 'risks', version: 1, tags: ['solar', 'design'] })"),
+  }),
   handler: async (args, context) => {
     if (!context.mainDb) {
       throw new Error("Main database not available");
@@ -713,7 +498,7 @@ export const createNarrativeTool: ToolDefinition = {
     const { randomUUID } = await import('crypto');
     const id = randomUUID();
     
-    const metadata = args.metadata || {};
+    const metadata = args.metadata ?? {};
     // Add title to metadata
     const enrichedMetadata = {
       ...metadata,
@@ -730,8 +515,8 @@ export const createNarrativeTool: ToolDefinition = {
       userId: context.userId,
       projectId: context.projectId ?? 0,
       conversationId: context.conversationId ?? null,
-      contentType: args.contentType as string,
-      content: args.content as string,
+      contentType: args.contentType,
+      content: args.content,
       prompt: null,
       modelVersion: 'user_created',
       userEdited: 0,
@@ -747,10 +532,11 @@ export const createNarrativeTool: ToolDefinition = {
       message: `Created narrative: ${args.title} (${args.contentType})`,
     };
   },
-};
+});
 
 export const updateNarrativeTool: ToolDefinition = {
   name: "update_narrative",
+  riskLevel: "write",
   description: "Update an existing narrative or overview. Can update content, mark as user-edited, or update metadata.",
   parameters: {
     type: "object",
@@ -858,6 +644,7 @@ export const updateNarrativeTool: ToolDefinition = {
 
 export const deleteNarrativeTool: ToolDefinition = {
   name: "delete_narrative",
+  riskLevel: "destructive",
   description: "Delete a narrative or overview from the project. Use with caution - this operation cannot be undone.",
   parameters: {
     type: "object",
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
 import type { ToolDefinition } from "../tool-executor";
+import { getProjectRepository, type FactTextMatch } from "../project-repository";
 
 /**
  * Query Tools
@@ -34,63 +34,31 @@ export const queryFactsTool: ToolDefinition = {
   },
   handler: async (args, context) => {
     try {
-      if (!context.projectDb) {
-        throw new Error("Project database not available");
-      }
-
+      const repository = getProjectRepository(context);
       const limit = (args.limit as number) || 50;
 
       console.log("[QUERY_FACTS DEBUG] Starting query_facts with args:", args);
       console.log("[QUERY_FACTS DEBUG] Context projectId:", context.projectId);
-      console.log("[QUERY_FACTS DEBUG] Context projectDb exists:", !!context.projectDb);
 
-      // Build conditions
-      const whereConditions: string[] = [];
-      const values: any[] = [];
-      
+      // Category and key also match fact values (content), searchTerm matches every field.
+      // Criteria are OR'ed so facts matching ANY of them are returned.
+      const text: FactTextMatch[] = [];
       if (args.category) {
-        // Search in category (metadata) OR value (content)
-        whereConditions.push('(category LIKE ? OR value LIKE ?)');
-        values.push(`%${args.category}%`, `%${args.category}%`);
+        text.push({ term: args.category as string, fields: ["category", "value"] });
       }
       if (args.key) {
-        // Search in key (metadata) OR value (content)
-        whereConditions.push('(`key` LIKE ? OR value LIKE ?)');
-        values.push(`%${args.key}%`, `%${args.key}%`);
+        text.push({ term: args.key as string, fields: ["key", "value"] });
       }
       if (args.searchTerm) {
-        // Search across all fields: value (content), category, and key (metadata)
-        whereConditions.push('(value LIKE ? OR category LIKE ? OR `key` LIKE ?)');
-        values.push(`%${args.searchTerm}%`, `%${args.searchTerm}%`, `%${args.searchTerm}%`);
-      }
-
-      // Build and execute query
-      // Use project-specific table name (e.g., proj_390002_extractedFacts)
-      const tableName = `proj_${context.projectId}_extractedFacts`;
-      let query = `
-        SELECT id, category, \`key\`, value, data_type, confidence, 
-               source_document_id, extraction_method, verified, created_at
-        FROM ${tableName}
-      `;
-
-      if (whereConditions.length > 0) {
-        // Use OR between conditions to find facts matching ANY criteria
-        // This allows flexible searches where category OR key OR searchTerm can match
-        query += ` WHERE ${whereConditions.join(" OR ")}`;
+        text.push({ term: args.searchTerm as string, fields: ["value", "category", "key"] });
       }
 
-      query += ` ORDER BY created_at DESC LIMIT ${limit}`;
+      const facts = await repository.findFacts({ text, matchMode: "any", orderBy: "createdAt", limit });
+      console.log("[QUERY_FACTS DEBUG] Facts found:", facts.length);
 
-      console.log("[QUERY_FACTS DEBUG] Executing query:", query);
-      console.log("[QUERY_FACTS DEBUG] Query values:", values);
-      const result = await context.projectDb.execute(query, values);
-      console.log("[QUERY_FACTS DEBUG] Query result:", result);
-      const rows = result[0] as any[];
-      console.log("[QUERY_FACTS DEBUG] Rows found:", rows?.length || 0);
-      
       return {
-        facts: rows,
-        count: rows.length,
+        facts,
+        count: facts.length,
       };
     } catch (error) {
       console.error("[QUERY_FACTS ERROR]", error);
@@ -118,45 +86,17 @@ export const listFactCategoriesTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    const groupBy = (args.groupBy as string) || "category";
+    const repository = getProjectRepository(context);
+    const groupBy = (args.groupBy as string) === "key" ? "key" : "category";
     const limit = (args.limit as number) || 100;
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-
-    let query: string;
-    if (groupBy === "key") {
-      query = `
-        SELECT category, \`key\`, COUNT(*) as count
-        FROM ${tableName}
-        GROUP BY category, \`key\`
-        ORDER BY count DESC
-        LIMIT ${limit}
-      `;
-    } else {
-      query = `
-        SELECT category, COUNT(*) as count
-        FROM ${tableName}
-        GROUP BY category
-        ORDER BY count DESC
-        LIMIT ${limit}
-      `;
-    }
 
-    const result = await context.projectDb.execute(query);
-    const rows = result[0] as any[];
-
-    // Get total fact count
-    const countQuery = `SELECT COUNT(*) as total FROM ${tableName}`;
-    const countResult = await context.projectDb.execute(countQuery);
-    const totalFacts = (countResult[0] as any[])[0].total;
+    const items = await repository.countBy(groupBy, limit);
+    const totalFacts = await repository.countFacts();
 
     return {
       groupBy,
-      items: rows,
-      count: rows.length,
+      items,
+      count: items.length,
       totalFacts,
     };
   },
@@ -189,40 +129,19 @@ export const queryDocumentsTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
+    const repository = getProjectRepository(context);
     const limit = (args.limit as number) || 50;
-    const conditions = [];
 
-    if (args.documentType) {
-      conditions.push(`documentType = '${args.documentType}'`);
-    }
-    if (args.searchTerm) {
-      conditions.push(`fileName LIKE '%${args.searchTerm}%'`);
-    }
-    if (args.status) {
-      conditions.push(`status = '${args.status}'`);
-    }
-
-    // Use project-specific table name
-    const tableName = `proj_${context.projectId}_documents`;
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
-    const query = `
-      SELECT id, fileName, documentType, status, pageCount, uploadedAt, processedAt
-      FROM ${tableName}
-      ${whereClause}
-      ORDER BY uploadedAt DESC
-      LIMIT ${limit}
-    `;
-
-    const result = await context.projectDb.execute(query);
-    const rows = result[0] as any[];
+    const documents = await repository.findDocuments({
+      documentType: args.documentType as string | undefined,
+      fileNameContains: args.searchTerm as string | undefined,
+      status: args.status as string | undefined,
+      limit,
+    });
 
     return {
-      documents: rows,
-      count: rows.length,
+      documents,
+      count: documents.length,
       filters: {
         documentType: args.documentType,
         searchTerm: args.searchTerm,
@@ -234,17 +153,23 @@ export const queryDocumentsTool: ToolDefinition = {
 
 export const queryRedFlagsTool: ToolDefinition = {
   name: "query_red_flags",
-  description: "Query red flags (risks and issues) identified in the project. Red flags are stored as facts with category='Risks_And_Issues'. Can search by key or value.",
+  description: "Query red flags (risks and issues) identified in the project, most severe first. Can search title and description, and filter by severity or mitigation status.",
   parameters: {
     type: "object",
     properties: {
       searchTerm: {
         type: "string",
-        description: "Search term to find in risk/issue facts (searches key and value fields)",
+        description: "Search term to find in red flag titles and descriptions",
       },
       severity: {
         type: "string",
-        description: "Filter by severity level (high, medium, low, critical)",
+        description: "Filter by severity level",
+        enum: ["critical", "high", "medium", "low"],
+      },
+      mitigated: {
+        type: "string",
+        description: "Filter by mitigation status",
+        enum: ["true", "false"],
       },
       limit: {
         type: "number",
@@ -254,48 +179,20 @@ export const queryRedFlagsTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
+    const repository = getProjectRepository(context);
     const limit = (args.limit as number) || 50;
-    const whereConditions: string[] = [];
-    const values: any[] = [];
 
-    // Red flags are stored in extractedFacts with category='Risks_And_Issues'
-    whereConditions.push('category = ?');
-    values.push('Risks_And_Issues');
-
-    if (args.searchTerm) {
-      whereConditions.push('(`key` LIKE ? OR value LIKE ?)');
-      values.push(`%${args.searchTerm}%`, `%${args.searchTerm}%`);
-    }
-    
-    if (args.severity) {
-      whereConditions.push('(`key` LIKE ? OR value LIKE ?)');
-      values.push(`%${args.severity}%`, `%${args.severity}%`);
-    }
-
-    // Use project-specific extractedFacts table
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    const query = `
-      SELECT id, category, \`key\`, value, data_type, confidence, 
-             source_document_id, extraction_method, verified, created_at
-      FROM ${tableName}
-      WHERE ${whereConditions.join(" AND ")}
-      ORDER BY created_at DESC
-      LIMIT ${limit}
-    `;
-
-    console.log("[QUERY_RED_FLAGS DEBUG] Executing query:", query);
-    console.log("[QUERY_RED_FLAGS DEBUG] Query values:", values);
-    const result = await context.projectDb.execute(query, values);
-    const rows = result[0] as any[];
-    console.log("[QUERY_RED_FLAGS DEBUG] Rows found:", rows?.length || 0);
+    const redFlags = await repository.findRedFlags({
+      search: args.searchTerm as string | undefined,
+      severity: args.severity as string | undefined,
+      mitigated: args.mitigated === undefined ? undefined : args.mitigated === "true",
+      limit,
+    });
+    console.log("[QUERY_RED_FLAGS DEBUG] Red flags found:", redFlags.length);
 
     return {
-      redFlags: rows,
-      count: rows.length,
+      redFlags,
+      count: redFlags.length,
     };
   },
 };
@@ -314,24 +211,10 @@ export const getFactByIdTool: ToolDefinition = {
     required: ["factId"],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
+    const fact = await repository.getFact(args.factId as string);
 
-    // Use project-specific table name
-    const tableName = `proj_${context.projectId}_extractedFacts`;
-    const query = `
-      SELECT id, category, \`key\`, value, data_type, confidence, 
-             source_document_id, extraction_method, verified, created_at,
-             metadata
-      FROM ${tableName}
-      WHERE id = ?
-    `;
-
-    const result = await context.projectDb.execute(query, [args.factId]);
-    const rows = result[0] as any[];
-
-    if (rows.length === 0) {
+    if (!fact) {
       return {
         fact: null,
         error: "Fact not found",
@@ -339,22 +222,12 @@ export const getFactByIdTool: ToolDefinition = {
     }
 
     // Get source document info if available
-    let sourceDocument = null;
-    if (rows[0].source_document_id) {
-      const docQuery = `
-        SELECT id, fileName, documentType
-        FROM proj_${context.projectId}_documents
-        WHERE id = ?
-      `;
-      const docResult = await context.projectDb.execute(docQuery, [rows[0].source_document_id]);
-      const docRows = docResult[0] as any[];
-      if (docRows.length > 0) {
-        sourceDocument = docRows[0];
-      }
-    }
+    const sourceDocument = fact.sourceDocumentId
+      ? await repository.getDocument(fact.sourceDocumentId)
+      : null;
 
     return {
-      fact: rows[0],
+      fact,
       sourceDocument,
     };
   },
@@ -369,49 +242,19 @@ export const getProjectSummaryTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
-
-    // Get document count
-    const docQuery = `SELECT COUNT(*) as count FROM proj_${context.projectId}_documents`;
-    const docResult = await context.projectDb.execute(docQuery);
-    const documentCount = (docResult[0] as any[])[0].count;
-
-    // Get fact count by category
-    const factQuery = `
-      SELECT category, COUNT(*) as count 
-      FROM proj_${context.projectId}_extractedFacts 
-      GROUP BY category 
-      ORDER BY count DESC
-    `;
-    const factResult = await context.projectDb.execute(factQuery);
-    const factsByCategory = factResult[0] as any[];
-
-    // Get total fact count
-    const totalFactQuery = `SELECT COUNT(*) as count FROM proj_${context.projectId}_extractedFacts`;
-    const totalFactResult = await context.projectDb.execute(totalFactQuery);
-    const totalFactCount = (totalFactResult[0] as any[])[0].count;
+    const repository = getProjectRepository(context);
 
-    // Get red flag count (facts with category='Risks_And_Issues')
-    const redFlagQuery = `
-      SELECT COUNT(*) as count 
-      FROM proj_${context.projectId}_extractedFacts 
-      WHERE category = 'Risks_And_Issues'
-    `;
-    const redFlagResult = await context.projectDb.execute(redFlagQuery);
-    const redFlagCount = (redFlagResult[0] as any[])[0].count;
+    const documentCount = await repository.countDocuments();
+    const factsByCategory = await repository.countBy("category");
+    const totalFactCount = await repository.countFacts();
+    const redFlagCount = await repository.countRedFlags();
 
     // Get sample high-value facts (top 10 by confidence)
-    const sampleFactsQuery = `
-      SELECT category, \`key\`, value, confidence
-      FROM proj_${context.projectId}_extractedFacts
-      WHERE category != 'Risks_And_Issues'
-      ORDER BY confidence DESC
-      LIMIT 10
-    `;
-    const sampleFactsResult = await context.projectDb.execute(sampleFactsQuery);
-    const sampleFacts = sampleFactsResult[0] as any[];
+    const sampleFacts = (await repository.findFacts({
+      excludeCategory: "Risks_And_Issues",
+      orderBy: "confidence",
+      limit: 10,
+    })).map(({ category, key, value, confidence }) => ({ category, key, value, confidence }));
 
     return {
       documentCount,
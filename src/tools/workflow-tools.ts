@@ -1,4 +1,5 @@
 import type { ToolDefinition } from "../tool-executor";
+import { getProjectRepository } from "../project-repository";
 
 /**
  * Workflow Tools
@@ -21,72 +22,44 @@ export const getWorkflowStatusTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     const workflow = (args.workflow as string) || "all";
     const status: Record<string, any> = {};
 
     // Check document ingestion workflow
     if (workflow === "document_ingestion" || workflow === "all") {
-      const result = await context.projectDb.execute(
-        `SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
-          SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
-          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
-         FROM documents 
-         WHERE project_id = ?`,
-        [context.projectId]);
-      const docStats = result[0] as any[];
+      const docStats = await repository.countDocumentsByStatus();
+      const processing = docStats.byStatus.processing || 0;
 
       status.document_ingestion = {
-        total: docStats[0]?.total || 0,
-        completed: docStats[0]?.completed || 0,
-        processing: docStats[0]?.processing || 0,
-        failed: docStats[0]?.failed || 0,
-        status: docStats[0]?.processing > 0 ? "in_progress" : "complete",
+        total: docStats.total,
+        completed: docStats.byStatus.completed || 0,
+        processing,
+        failed: docStats.byStatus.failed || 0,
+        status: processing > 0 ? "in_progress" : "complete",
       };
     }
 
     // Check fact extraction workflow
     if (workflow === "fact_extraction" || workflow === "all") {
-      const result = await context.projectDb.execute(
-        `SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN verified = 1 THEN 1 ELSE 0 END) as verified,
-          COUNT(DISTINCT category) as categories
-         FROM extractedFacts 
-         WHERE project_id = ?`,
-        [context.projectId]);
-      const factStats = result[0] as any[];
-
-      const totalFacts = factStats[0]?.total || 0;
-      const verifiedFacts = factStats[0]?.verified || 0;
+      const totalFacts = await repository.countFacts();
+      const verifiedFacts = await repository.countFacts({ verified: true });
+      const categories = await repository.listCategories();
 
       status.fact_extraction = {
         total: totalFacts,
         verified: verifiedFacts,
         unverified: totalFacts - verifiedFacts,
-        categories: factStats[0]?.categories || 0,
+        categories: categories.length,
         status: totalFacts === 0 ? "not_started" : verifiedFacts === totalFacts ? "complete" : "in_progress",
       };
     }
 
     // Check deliverables preparation
     if (workflow === "deliverables_prep" || workflow === "all") {
-      const result = await context.projectDb.execute(
-        `SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN mitigated = 1 THEN 1 ELSE 0 END) as mitigated
-         FROM redFlags 
-         WHERE project_id = ?`,
-        [context.projectId]);
-      const redFlagStats = result[0] as any[];
-
-      const totalRedFlags = redFlagStats[0]?.total || 0;
-      const mitigatedRedFlags = redFlagStats[0]?.mitigated || 0;
+      const totalRedFlags = await repository.countRedFlags();
+      const mitigatedRedFlags = await repository.countRedFlags({ mitigated: true });
 
       status.deliverables_prep = {
         redFlags: {
@@ -122,9 +95,7 @@ export const suggestNextActionsTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     const priority = (args.priority as string) || "all";
     const suggestions: Array<{
@@ -135,15 +106,11 @@ export const suggestNextActionsTool: ToolDefinition = {
     }> = [];
 
     // Check for documents that need processing
-    const result1 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM documents 
-       WHERE project_id = ? AND status IN ('uploaded', 'failed')`,
-      [context.projectId]);
-    const unprocessedDocs = result1[0] as any[];
+    const unprocessedDocs = await repository.countDocuments({ status: ["uploaded", "failed"] });
 
-    if (unprocessedDocs[0]?.count > 0) {
+    if (unprocessedDocs > 0) {
       suggestions.push({
-        action: `Process ${unprocessedDocs[0].count} pending documents`,
+        action: `Process ${unprocessedDocs} pending documents`,
         reason: "Documents are uploaded but not yet processed for fact extraction",
         priority: "high",
         category: "document_processing",
@@ -151,15 +118,11 @@ export const suggestNextActionsTool: ToolDefinition = {
     }
 
     // Check for unverified facts
-    const result2 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM extractedFacts 
-       WHERE project_id = ? AND verified = 0`,
-      [context.projectId]);
-    const unverifiedFacts = result2[0] as any[];
+    const unverifiedFacts = await repository.countFacts({ verified: false });
 
-    if (unverifiedFacts[0]?.count > 0) {
+    if (unverifiedFacts > 0) {
       suggestions.push({
-        action: `Verify ${unverifiedFacts[0].count} extracted facts`,
+        action: `Verify ${unverifiedFacts} extracted facts`,
         reason: "Facts have been extracted but need verification for accuracy",
         priority: "medium",
         category: "fact_verification",
@@ -167,15 +130,11 @@ export const suggestNextActionsTool: ToolDefinition = {
     }
 
     // Check for high-severity red flags
-    const result3 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM redFlags 
-       WHERE project_id = ? AND severity IN ('critical', 'high') AND mitigated = 0`,
-      [context.projectId]);
-    const criticalRedFlags = result3[0] as any[];
+    const criticalRedFlags = await repository.countRedFlags({ severity: "high", mitigated: false });
 
-    if (criticalRedFlags[0]?.count > 0) {
+    if (criticalRedFlags > 0) {
       suggestions.push({
-        action: `Address ${criticalRedFlags[0].count} critical/high-severity red flags`,
+        action: `Address ${criticalRedFlags} critical/high-severity red flags`,
         reason: "High-priority risks need mitigation strategies",
         priority: "high",
         category: "risk_mitigation",
@@ -183,12 +142,9 @@ export const suggestNextActionsTool: ToolDefinition = {
     }
 
     // Check if project has minimal data
-    const result4 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM extractedFacts WHERE project_id = ?`,
-      [context.projectId]);
-    const factCount = result4[0] as any[];
+    const factCount = await repository.countFacts();
 
-    if (factCount[0]?.count < 10) {
+    if (factCount < 10) {
       suggestions.push({
         action: "Upload more project documents",
         reason: "Project has limited data for comprehensive analysis",
@@ -198,12 +154,7 @@ export const suggestNextActionsTool: ToolDefinition = {
     }
 
     // Check for missing critical fact categories
-    const result5 = await context.projectDb.execute(
-      `SELECT DISTINCT category FROM extractedFacts WHERE project_id = ?`,
-      [context.projectId]);
-    const categories = result5[0] as any[];
-
-    const existingCategories = categories.map((c: any) => c.category);
+    const existingCategories = await repository.listCategories();
     const criticalCategories = ["technical", "financial", "location", "performance"];
     const missingCategories = criticalCategories.filter(
       (c) => !existingCategories.includes(c)
@@ -248,9 +199,7 @@ export const identifyMissingDataTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     const category = (args.category as string) || "all";
     const missingData: Array<{
@@ -294,13 +243,9 @@ export const identifyMissingDataTool: ToolDefinition = {
       const fields = expectedFields[cat] || [];
 
       for (const { field, importance } of fields) {
-        const queryResult = await context.projectDb.execute(
-          `SELECT COUNT(*) as count FROM extractedFacts 
-           WHERE project_id = ? AND category = ? AND \`key\` = ?`,
-          [context.projectId, cat, field]);
-        const result = queryResult[0] as any[];
+        const count = await repository.countFacts({ category: cat, key: field });
 
-        if (result[0]?.count === 0) {
+        if (count === 0) {
           missingData.push({
             category: cat,
             field,
@@ -337,9 +282,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     required: [],
   },
   handler: async (args, context) => {
-    if (!context.projectDb) {
-      throw new Error("Project database not available");
-    }
+    const repository = getProjectRepository(context);
 
     const validation: Record<string, any> = {
       overall: "incomplete",
@@ -349,11 +292,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     };
 
     // Check 1: Documents uploaded (20 points)
-    const result1 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM documents WHERE project_id = ?`,
-      [context.projectId]);
-    const docCount = result1[0] as any[];
-    const docs = docCount[0]?.count || 0;
+    const docs = await repository.countDocuments();
     const docScore = Math.min(20, docs * 5);
     validation.checks.push({
       name: "Documents uploaded",
@@ -365,11 +304,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     validation.score += docScore;
 
     // Check 2: Facts extracted (30 points)
-    const result2 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM extractedFacts WHERE project_id = ?`,
-      [context.projectId]);
-    const factCount = result2[0] as any[];
-    const facts = factCount[0]?.count || 0;
+    const facts = await repository.countFacts();
     const factScore = Math.min(30, facts * 2);
     validation.checks.push({
       name: "Facts extracted",
@@ -381,11 +316,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     validation.score += factScore;
 
     // Check 3: Critical categories present (25 points)
-    const result3 = await context.projectDb.execute(
-      `SELECT DISTINCT category FROM extractedFacts WHERE project_id = ?`,
-      [context.projectId]);
-    const categories = result3[0] as any[];
-    const existingCategories = categories.map((c: any) => c.category);
+    const existingCategories = await repository.listCategories();
     const criticalCategories = ["technical", "financial", "location"];
     const presentCategories = criticalCategories.filter((c) =>
       existingCategories.includes(c)
@@ -401,11 +332,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     validation.score += Math.round(categoryScore);
 
     // Check 4: Red flags identified (15 points)
-    const result4 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM redFlags WHERE project_id = ?`,
-      [context.projectId]);
-    const redFlagCount = result4[0] as any[];
-    const redFlags = redFlagCount[0]?.count || 0;
+    const redFlags = await repository.countRedFlags();
     const redFlagScore = Math.min(15, redFlags * 5);
     validation.checks.push({
       name: "Red flags identified",
@@ -417,11 +344,7 @@ export const validateProjectCompletenessTool: ToolDefinition = {
     validation.score += redFlagScore;
 
     // Check 5: Facts verified (10 points)
-    const result5 = await context.projectDb.execute(
-      `SELECT COUNT(*) as count FROM extractedFacts WHERE project_id = ? AND verified = 1`,
-      [context.projectId]);
-    const verifiedCount = result5[0] as any[];
-    const verified = verifiedCount[0]?.count || 0;
+    const verified = await repository.countFacts({ verified: true });
     const verificationRate = facts > 0 ? (verified / facts) * 10 : 0;
     validation.checks.push({
       name: "Facts verified",